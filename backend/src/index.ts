@@ -7,7 +7,17 @@ import deviceRoutes from './routes/devices.js';
 import scheduleRoutes from './routes/schedules.js';
 import tuyaRoutes from './routes/tuya.js';
 import groupRoutes from './routes/groups.js';
+import sceneRoutes from './routes/scenes.js';
+import historyRoutes from './routes/history.js';
+import vacationRoutes from './routes/vacation.js';
+import transitionRoutes from './routes/transitions.js';
+import holdRoutes from './routes/holds.js';
+import schedulerRoutes from './routes/scheduler.js';
 import { startScheduler } from './services/scheduler.js';
+import { startScheduleIndex } from './services/scheduleIndex.js';
+import { startTriggerEngine } from './services/triggers.js';
+import { startVacationEngine } from './services/vacation.js';
+import { startLeaderElection, stopLeaderElection } from './services/leader.js';
 import { initializeTuya } from './services/tuya.js';
 
 const app = express();
@@ -50,6 +60,12 @@ app.use('/api/devices', authMiddleware, deviceRoutes);
 app.use('/api/schedules', authMiddleware, scheduleRoutes);
 app.use('/api/tuya', authMiddleware, tuyaRoutes);
 app.use('/api/groups', authMiddleware, groupRoutes);
+app.use('/api/scenes', authMiddleware, sceneRoutes);
+app.use('/api/history', authMiddleware, historyRoutes);
+app.use('/api/vacation', authMiddleware, vacationRoutes);
+app.use('/api/transitions', authMiddleware, transitionRoutes);
+app.use('/api/holds', authMiddleware, holdRoutes);
+app.use('/api/scheduler', authMiddleware, schedulerRoutes);
 
 // Error handler
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -69,8 +85,33 @@ app.listen(PORT, async () => {
     console.log('[Tuya] Not initialized:', tuyaResult.error);
   }
 
-  // Start the schedule executor
-  startScheduler();
+  // Load enabled schedules into memory and keep them in sync
+  try {
+    await startScheduleIndex();
+  } catch (error) {
+    console.error('[Index] Failed to load schedules:', error);
+  }
+
+  // Start the schedule executor (runs while this instance is leader)
+  await startScheduler();
+
+  // Start the device trigger engine
+  startTriggerEngine();
+
+  // Start the vacation mode engine
+  startVacationEngine();
+
+  // Compete for the scheduler lease; only the holder runs the engines above
+  await startLeaderElection();
 });
 
+// Hand the lease over straight away on shutdown (deploys, scaling down)
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, async () => {
+    console.log(`Received ${signal}, shutting down`);
+    await stopLeaderElection();
+    process.exit(0);
+  });
+}
+
 export default app;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { listDevices, getDeviceStatus, sendCommand } from '../services/tuya.js';
+import { parseHoldRequest, holdAfterManualCommand } from '../services/holds.js';
 import type { DeviceCommand } from '../types/index.js';
 
 const router = Router();
@@ -63,7 +64,8 @@ router.get('/:deviceId/state', async (req, res) => {
 
 /**
  * POST /api/devices/:deviceId/execute
- * Execute a command on a Tuya device
+ * Execute a command on a Tuya device. The device is put on manual hold
+ * (body `hold`: { mode, hours? }, default until its next slot; false for none)
  */
 router.post('/:deviceId/execute', async (req, res) => {
   try {
@@ -76,13 +78,19 @@ router.post('/:deviceId/execute', async (req, res) => {
         error: 'Commands array is required'
       });
     }
+    const holdRequest = parseHoldRequest(req.body.hold);
+    if ('error' in holdRequest) {
+      return res.status(400).json({ success: false, error: holdRequest.error });
+    }
 
     const result = await sendCommand(deviceId, commands);
 
     if (result.success) {
+      const hold = await holdAfterManualCommand(req.user!.uid, deviceId, holdRequest.hold);
       res.json({
         success: true,
-        message: 'Command executed'
+        message: 'Command executed',
+        ...(hold && { hold })
       });
     } else {
       res.status(500).json({
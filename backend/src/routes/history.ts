@@ -0,0 +1,62 @@
+import { Router, type Request } from 'express';
+import { queryExecutions, type ExecutionQuery } from '../services/db.js';
+
+const router = Router();
+
+const OUTCOMES = ['success', 'partial', 'failed', 'skipped', 'error'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Parse paging and filter query params shared by the history endpoints
+ */
+export function parseHistoryQuery(req: Request): ExecutionQuery | { error: string } {
+  const { limit, before, deviceId, outcome } = req.query as Record<string, string | undefined>;
+
+  const parsedLimit = limit ? parseInt(limit, 10) : DEFAULT_LIMIT;
+  if (Number.isNaN(parsedLimit) || parsedLimit < 1) {
+    return { error: 'limit must be a positive number' };
+  }
+
+  // "startedAt:id" from nextCursor, or a bare timestamp
+  const [beforeTime, beforeId] = before ? before.split(/:(.*)/s) : [];
+  const parsedBefore = before ? Number(beforeTime) : undefined;
+  if (parsedBefore !== undefined && (!beforeTime || Number.isNaN(parsedBefore))) {
+    return { error: 'before must be a cursor or timestamp' };
+  }
+
+  if (outcome && !OUTCOMES.includes(outcome)) {
+    return { error: `outcome must be one of: ${OUTCOMES.join(', ')}` };
+  }
+
+  return {
+    limit: Math.min(parsedLimit, MAX_LIMIT),
+    before: parsedBefore !== undefined ? { startedAt: parsedBefore, ...(beforeId && { id: beforeId }) } : undefined,
+    deviceId: deviceId || undefined,
+    outcome: (outcome as ExecutionQuery['outcome']) || undefined,
+  };
+}
+
+/**
+ * GET /api/history
+ * List execution history across all schedules
+ * Query: limit, before (cursor), deviceId, outcome
+ */
+router.get('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const query = parseHistoryQuery(req);
+
+  if ('error' in query) {
+    return res.status(400).json({ success: false, error: query.error });
+  }
+
+  const { records, nextCursor } = await queryExecutions(userId, query);
+
+  res.json({
+    success: true,
+    data: records,
+    nextCursor
+  });
+});
+
+export default router;
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { getHold } from '../services/db.js';
+import { getActiveHolds, isHoldActive, parseHoldRequest, placeHold, releaseHold } from '../services/holds.js';
+
+const router = Router();
+
+/** GET /api/holds - Devices on manual hold */
+router.get('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const holds = await getActiveHolds(userId);
+  res.json({ success: true, data: [...holds.values()] });
+});
+
+/** PUT /api/holds/:deviceId - Hold a device ({ mode, hours? }), replacing its current hold */
+router.put('/:deviceId', async (req, res) => {
+  const userId = req.user!.uid;
+  const { deviceId } = req.params;
+  const request = parseHoldRequest(req.body);
+
+  if ('error' in request) return res.status(400).json({ success: false, error: request.error });
+  if (!request.hold) return res.status(400).json({ success: false, error: 'A hold mode is required' });
+
+  const hold = await placeHold(userId, deviceId, request.hold);
+  res.json({ success: true, data: hold });
+});
+
+/** DELETE /api/holds/:deviceId - Clear a hold, handing the device back to its schedules */
+router.delete('/:deviceId', async (req, res) => {
+  const userId = req.user!.uid;
+  const { deviceId } = req.params;
+  const hold = await getHold(userId, deviceId);
+
+  if (!hold || !isHoldActive(hold, Date.now())) {
+    return res.status(404).json({ success: false, error: 'Device is not on hold' });
+  }
+
+  await releaseHold(userId, deviceId);
+  res.json({ success: true, message: 'Hold cleared' });
+});
+
+export default router;
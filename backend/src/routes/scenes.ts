@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { getScenes, getScene, saveScene, deleteScene, getGroups } from '../services/db.js';
+import { activateScene, summarizeOutcome } from '../services/scheduler.js';
+import { snapshotDevices } from '../services/snapshot.js';
+import type { Scene, SceneDevice } from '../types/index.js';
+
+const router = Router();
+
+// Commands that set a state straight away (ramps, climate loops and nested
+// scenes don't belong in a scene)
+const SCENE_COMMAND_TYPES = ['OnOff', 'Brightness', 'ColorTemperature', 'ColorRGB', 'Thermostat', 'FanSpeed', 'TuyaAC', 'TuyaLight'];
+
+/**
+ * Validate a scene's devices, returning an error message if invalid
+ */
+function validateSceneDevices(devices: unknown): string | null {
+  if (!Array.isArray(devices) || devices.length === 0) return 'devices must be a non-empty array';
+
+  const seen = new Set<string>();
+  for (const device of devices as SceneDevice[]) {
+    if (!device?.deviceId || typeof device.deviceName !== 'string') {
+      return 'Each scene device needs a deviceId and deviceName';
+    }
+    if (seen.has(device.deviceId)) return `${device.deviceName} appears more than once`;
+    seen.add(device.deviceId);
+
+    if (!Array.isArray(device.commands) || device.commands.length === 0) {
+      return `${device.deviceName} needs at least one command`;
+    }
+    for (const command of device.commands) {
+      if (!SCENE_COMMAND_TYPES.includes(command?.type)) {
+        return `${device.deviceName}: ${command?.type} commands can't be used in a scene`;
+      }
+    }
+  }
+  return null;
+}
+
+/** GET /api/scenes - List scenes for user */
+router.get('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const scenes = await getScenes(userId);
+  res.json({ success: true, data: scenes });
+});
+
+/** POST /api/scenes - Create scene */
+router.post('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const { name, devices } = req.body as Partial<Scene>;
+
+  if (!name?.trim()) {
+    return res.status(400).json({ success: false, error: 'Name is required' });
+  }
+  const devicesError = validateSceneDevices(devices);
+  if (devicesError) return res.status(400).json({ success: false, error: devicesError });
+
+  const now = Date.now();
+  const scene: Scene = {
+    id: `scene-${now}`,
+    name: name.trim(),
+    userId,
+    devices: devices!,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveScene(userId, scene);
+  console.log('[Scenes] Created:', scene.id, scene.name, `(${scene.devices.length} devices)`);
+
+  res.status(201).json({ success: true, data: scene });
+});
+
+/** POST /api/scenes/snapshot - Capture the current state of devices (or a group's) as scene devices */
+router.post('/snapshot', async (req, res) => {
+  const userId = req.user!.uid;
+  const { deviceIds, groupId } = req.body as { deviceIds?: string[]; groupId?: string };
+
+  let ids = deviceIds;
+  if (groupId) {
+    const group = (await getGroups(userId)).find(g => g.id === groupId);
+    if (!group) return res.status(404).json({ success: false, error: 'Group not found' });
+    ids = group.deviceIds;
+  }
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string' && id)) {
+    return res.status(400).json({ success: false, error: 'deviceIds must be a non-empty array, or give a groupId' });
+  }
+
+  const { devices, failed } = await snapshotDevices([...new Set(ids)]);
+  res.json({ success: true, data: devices, failed });
+});
+
+/** PUT /api/scenes/:id - Update scene */
+router.put('/:id', async (req, res) => {
+  const userId = req.user!.uid;
+  const { id } = req.params;
+  const existing = await getScene(userId, id);
+
+  if (!existing) return res.status(404).json({ success: false, error: 'Scene not found' });
+
+  const { name, devices } = req.body as Partial<Scene>;
+  if (name !== undefined && !name?.trim()) {
+    return res.status(400).json({ success: false, error: 'Name cannot be empty' });
+  }
+  if (devices !== undefined) {
+    const devicesError = validateSceneDevices(devices);
+    if (devicesError) return res.status(400).json({ success: false, error: devicesError });
+  }
+
+  const updated: Scene = {
+    ...existing,
+    name: name?.trim() ?? existing.name,
+    devices: devices ?? existing.devices,
+    updatedAt: Date.now(),
+  };
+  await saveScene(userId, updated);
+  console.log('[Scenes] Updated:', id);
+
+  res.json({ success: true, data: updated });
+});
+
+/** DELETE /api/scenes/:id - Delete scene */
+router.delete('/:id', async (req, res) => {
+  const userId = req.user!.uid;
+  const { id } = req.params;
+  const existing = await getScene(userId, id);
+
+  if (!existing) return res.status(404).json({ success: false, error: 'Scene not found' });
+
+  await deleteScene(userId, id);
+  console.log('[Scenes] Deleted:', id);
+
+  res.json({ success: true, message: 'Scene deleted' });
+});
+
+/** POST /api/scenes/:id/activate - Apply a scene now, with each device's result */
+router.post('/:id/activate', async (req, res) => {
+  const userId = req.user!.uid;
+  const { id } = req.params;
+  const scene = await getScene(userId, id);
+
+  if (!scene) return res.status(404).json({ success: false, error: 'Scene not found' });
+
+  const results = await activateScene(scene);
+  const outcome = summarizeOutcome(results);
+
+  res.json({ success: true, outcome, data: results });
+});
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getLeaderStatus } from '../services/leader.js';
+
+const router = Router();
+
+/** GET /api/scheduler/status - Which instance holds the scheduler lease */
+router.get('/status', async (req, res) => {
+  const status = await getLeaderStatus();
+  res.json({ success: true, data: status });
+});
+
+export default router;
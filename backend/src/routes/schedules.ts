@@ -1,9 +1,329 @@
 import { Router } from 'express';
-import type { Schedule, TimeSlot, DayOfWeek } from '../types/index.js';
-import { getSchedules, getSchedule, saveSchedule, deleteSchedule } from '../services/db.js';
+import type { Schedule, TimeSlot, DayOfWeek, DeviceTrigger, DeviceAction, ScheduleConflict, RampTarget } from '../types/index.js';
+import { getSchedules, getSchedule, saveSchedule, deleteSchedule, queryExecutions } from '../services/db.js';
+import { isValidTimeZone, resolveTimeZone, getZonedTime, TIME_PATTERN } from '../services/timezone.js';
+import { isValidLocation, isValidSolarTime, MAX_SOLAR_OFFSET_MINUTES } from '../services/solar.js';
+import { isValidDate } from '../services/calendar.js';
+import { MAX_JITTER_MINUTES } from '../services/jitter.js';
+import { MAX_RETRIES } from '../services/delivery.js';
+import { getSlotTimes, previewExecutions, MAX_CYCLE_MINUTES } from '../services/scheduler.js';
+import { findConflicts, DEFAULT_CONFLICT_WINDOW_MS } from '../services/conflicts.js';
+import { validateCondition } from '../services/conditions.js';
+import { MIN_CLIMATE_TEMPERATURE, MAX_CLIMATE_TEMPERATURE, MAX_HYSTERESIS, MAX_MIN_OFF_MINUTES } from '../services/climate.js';
+import { RAMP_EASINGS, RAMP_LIMITS } from '../services/transitions.js';
+import { parseHistoryQuery } from './history.js';
 
 const router = Router();
 
+const THRESHOLD_OPERATORS = ['>', '<', '=', '>=', '<='];
+const AC_FANS = ['auto', 'low', 'mid', 'high'];
+
+const DEFAULT_PREVIEW_MS = 24 * 60 * 60 * 1000;
+const MAX_PREVIEW_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Validate the condition trees of a list of actions, returning an error
+ * message if invalid
+ */
+function validateActionConditions(actions: unknown, owner: string): string | null {
+  if (!Array.isArray(actions)) return null;
+  for (const action of actions as DeviceAction[]) {
+    if (action?.condition == null) continue;
+    const error = validateCondition(action.condition);
+    if (error) return `${owner}, ${action.deviceName || action.deviceId}: ${error}`;
+  }
+  return null;
+}
+
+/**
+ * Validate the climate-control commands of a list of actions, returning an
+ * error message if invalid. They only run in a slot's start actions, and
+ * only if the slot has an end time.
+ */
+function validateClimateActions(actions: unknown, owner: string, hasRange: boolean): string | null {
+  if (!Array.isArray(actions)) return null;
+  for (const action of actions as DeviceAction[]) {
+    const command = action?.command;
+    if (command?.type !== 'Climate') continue;
+
+    const name = `${owner}, ${action.deviceName || action.deviceId}`;
+    if (!hasRange) return `${name}: climate control needs a time slot with an end time`;
+    if (command.mode !== 'cold' && command.mode !== 'heat') return `${name}: climate mode must be cold or heat`;
+    if (!AC_FANS.includes(command.fan)) return `${name}: climate fan must be one of ${AC_FANS.join(', ')}`;
+    if (!command.sensorDeviceId) return `${name}: climate control needs a sensorDeviceId`;
+    if (typeof command.targetTemperature !== 'number'
+      || command.targetTemperature < MIN_CLIMATE_TEMPERATURE || command.targetTemperature > MAX_CLIMATE_TEMPERATURE) {
+      return `${name}: targetTemperature must be between ${MIN_CLIMATE_TEMPERATURE} and ${MAX_CLIMATE_TEMPERATURE}`;
+    }
+    if (typeof command.hysteresis !== 'number' || command.hysteresis <= 0 || command.hysteresis > MAX_HYSTERESIS) {
+      return `${name}: hysteresis must be above 0 and at most ${MAX_HYSTERESIS}`;
+    }
+    const minOff = command.minOffMinutes;
+    if (minOff != null && (typeof minOff !== 'number' || minOff < 0 || minOff > MAX_MIN_OFF_MINUTES)) {
+      return `${name}: minOffMinutes must be between 0 and ${MAX_MIN_OFF_MINUTES}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a value is an HSV colour (hue 0–360, saturation and value 0–1000)
+ */
+function isValidHSV(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const { h, s, v } = value as Record<string, unknown>;
+  const inRange = (n: unknown, max: number) => typeof n === 'number' && n >= 0 && n <= max;
+  return inRange(h, 360) && inRange(s, 1000) && inRange(v, 1000);
+}
+
+/**
+ * Validate the ramp commands of a list of actions, returning an error
+ * message if invalid: colour ramps take HSV values, the others numbers
+ * within the target's range
+ */
+function validateRampActions(actions: unknown, owner: string): string | null {
+  if (!Array.isArray(actions)) return null;
+  for (const action of actions as DeviceAction[]) {
+    const command = action?.command;
+    if (command?.type !== 'Ramp') continue;
+
+    const name = `${owner}, ${action.deviceName || action.deviceId}`;
+    if (command.target !== 'colour' && !Object.keys(RAMP_LIMITS).includes(command.target)) {
+      return `${name}: ramp target must be one of colour, ${Object.keys(RAMP_LIMITS).join(', ')}`;
+    }
+    for (const [key, value] of [['to', command.to], ['from', command.from]] as const) {
+      if (key === 'from' && value == null) continue;
+      if (command.target === 'colour') {
+        if (!isValidHSV(value)) return `${name}: colour ramp ${key} must be an HSV colour`;
+        continue;
+      }
+      const { min, max } = RAMP_LIMITS[command.target as Exclude<RampTarget, 'colour'>];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        return `${name}: ${command.target} ramp ${key} must be a number between ${min} and ${max}`;
+      }
+    }
+    if (command.easing != null && !RAMP_EASINGS.includes(command.easing)) {
+      return `${name}: ramp easing must be one of ${RAMP_EASINGS.join(', ')}`;
+    }
+    if (typeof command.durationMinutes !== 'number' || !(command.durationMinutes > 0)) {
+      return `${name}: ramp durationMinutes must be more than 0`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate device triggers, returning an error message if invalid
+ */
+function validateTriggers(triggers: unknown): string | null {
+  if (!Array.isArray(triggers)) return 'triggers must be an array';
+
+  for (const trigger of triggers as DeviceTrigger[]) {
+    if (!trigger?.id || !trigger.sourceDeviceId) {
+      return 'Each trigger needs an id and sourceDeviceId';
+    }
+    const condition = trigger.condition;
+    if (!condition || typeof condition.trait !== 'string' || !condition.trait) {
+      return `Trigger ${trigger.id} needs a condition with a trait`;
+    }
+    if (condition.type === 'threshold') {
+      if (!THRESHOLD_OPERATORS.includes(condition.operator) || typeof condition.value !== 'number') {
+        return `Trigger ${trigger.id} needs a valid operator and numeric value`;
+      }
+    } else if (condition.type !== 'state_change') {
+      return `Trigger ${trigger.id} has an unknown condition type`;
+    }
+    if (!Array.isArray(trigger.actions)) {
+      return `Trigger ${trigger.id} needs an actions array`;
+    }
+    const conditionError = validateActionConditions(trigger.actions, `Trigger ${trigger.id}`)
+      || validateClimateActions(trigger.actions, `Trigger ${trigger.id}`, false)
+      || validateRampActions(trigger.actions, `Trigger ${trigger.id}`);
+    if (conditionError) return conditionError;
+    if (trigger.cooldownMinutes != null && (typeof trigger.cooldownMinutes !== 'number' || trigger.cooldownMinutes < 0)) {
+      return `Trigger ${trigger.id} cooldownMinutes must be a non-negative number`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a time query parameter given as epoch milliseconds or an ISO date
+ */
+function parseTimeParam(value: unknown): number | null {
+  if (typeof value !== 'string' || !value) return null;
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Parse a from/to query window (default: from now), returning an error
+ * message if invalid
+ */
+function parseWindow(
+  query: Record<string, unknown>,
+  defaultMs: number
+): { from: number; to: number } | { error: string } {
+  const from = query.from != null ? parseTimeParam(query.from) : Date.now();
+  const to = query.to != null ? parseTimeParam(query.to) : (from ?? 0) + defaultMs;
+
+  if (from === null || to === null) {
+    return { error: 'from and to must be epoch milliseconds or ISO dates' };
+  }
+  if (to <= from || to - from > MAX_PREVIEW_MS) {
+    return { error: 'to must be after from, at most 14 days later' };
+  }
+  return { from, to };
+}
+
+/**
+ * Conflicts a saved schedule has with the user's other enabled schedules
+ * over the coming week (returned as warnings; saving still succeeds)
+ */
+async function findSaveWarnings(userId: string, schedule: Schedule): Promise<ScheduleConflict[]> {
+  try {
+    const others = (await getSchedules(userId)).filter(s => s.enabled && s.id !== schedule.id);
+    const now = Date.now();
+    return (await findConflicts([schedule, ...others], now, now + DEFAULT_CONFLICT_WINDOW_MS))
+      .filter(conflict => conflict.actions.some(action => action.scheduleId === schedule.id));
+  } catch (error) {
+    console.error('[Schedules] Conflict check failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Validate a cycling slot's cycle, returning an error message if invalid.
+ * Cycles need a window to repeat in, and climate loops don't cycle.
+ */
+function validateCycle(slot: TimeSlot): string | null {
+  if (slot?.cycle == null) return null;
+
+  const { onMinutes, offMinutes } = slot.cycle;
+  for (const [name, value] of [['onMinutes', onMinutes], ['offMinutes', offMinutes]] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_CYCLE_MINUTES) {
+      return `Slot ${slot.id} cycle.${name} must be a whole number between 1 and ${MAX_CYCLE_MINUTES}`;
+    }
+  }
+  if (!slot.endTime) return `Slot ${slot.id} needs an end time to cycle until`;
+  if ((slot.actions || []).some(action => action?.command?.type === 'Climate')) {
+    return `Slot ${slot.id}: climate control can't be used in a cycling slot`;
+  }
+  return null;
+}
+
+/**
+ * Validate time slots, returning an error message if invalid
+ */
+function validateTimeSlots(timeSlots: unknown): string | null {
+  if (!Array.isArray(timeSlots)) return 'timeSlots must be an array';
+
+  for (const slot of timeSlots as TimeSlot[]) {
+    if (typeof slot?.startTime !== 'string' || !TIME_PATTERN.test(slot.startTime)) {
+      return `Slot ${slot?.id} startTime must be HH:MM`;
+    }
+    if (slot.endTime != null && (typeof slot.endTime !== 'string' || !TIME_PATTERN.test(slot.endTime))) {
+      return `Slot ${slot.id} endTime must be HH:MM`;
+    }
+    if (slot.endActions != null && !Array.isArray(slot.endActions)) {
+      return `Slot ${slot.id} endActions must be an array`;
+    }
+    if (slot.solar != null && !isValidSolarTime(slot.solar)) {
+      return `Slot ${slot.id} solar needs a sunrise, sunset, civil_dawn or civil_dusk event and a whole-minute offsetMinutes within ±${MAX_SOLAR_OFFSET_MINUTES}`;
+    }
+    const jitter = slot.jitterMinutes;
+    if (jitter != null && (typeof jitter !== 'number' || jitter < 0 || jitter > MAX_JITTER_MINUTES)) {
+      return `Slot ${slot.id} jitterMinutes must be between 0 and ${MAX_JITTER_MINUTES}`;
+    }
+    const cycleError = validateCycle(slot);
+    if (cycleError) return cycleError;
+    const conditionError = validateActionConditions(slot?.actions, `Slot ${slot?.id}`)
+      || validateActionConditions(slot?.endActions, `Slot ${slot?.id} end`);
+    if (conditionError) return conditionError;
+    const climateError = validateClimateActions(slot?.actions, `Slot ${slot?.id}`, !!slot?.endTime)
+      || validateClimateActions(slot?.endActions, `Slot ${slot?.id} end`, false);
+    if (climateError) return climateError;
+    const rampError = validateRampActions(slot.actions, `Slot ${slot.id}`)
+      || validateRampActions(slot.endActions, `Slot ${slot.id} end`);
+    if (rampError) return rampError;
+  }
+
+  return null;
+}
+
+/**
+ * Validate command delivery options, returning an error message if invalid
+ */
+function validateDelivery(delivery: unknown): string | null {
+  if (typeof delivery !== 'object' || delivery === null || Array.isArray(delivery)) {
+    return 'delivery must be an object';
+  }
+  const { retries, verify } = delivery as Schedule['delivery'] & object;
+  if (retries != null && (!Number.isInteger(retries) || retries < 0 || retries > MAX_RETRIES)) {
+    return `delivery.retries must be a whole number between 0 and ${MAX_RETRIES}`;
+  }
+  if (verify != null && typeof verify !== 'boolean') {
+    return 'delivery.verify must be a boolean';
+  }
+  return null;
+}
+
+/**
+ * Drop the computed todayAt/todayEndAt fields so they are never stored
+ */
+function stripTodayTimes(timeSlots: TimeSlot[]): TimeSlot[] {
+  return timeSlots.map(({ todayAt: _todayAt, todayEndAt: _todayEndAt, ...slot }) => slot);
+}
+
+/**
+ * Add each slot's actual times today (solar-resolved and jittered), so the UI
+ * can show e.g. "today at 19:07"
+ */
+function withTodayTimes(schedule: Schedule): Schedule {
+  const timeZone = resolveTimeZone(schedule.timezone);
+  const today = getZonedTime(Date.now(), timeZone).date;
+  const toLocalTime = (at: number) => getZonedTime(at, timeZone).time;
+
+  return {
+    ...schedule,
+    timeSlots: (schedule.timeSlots || []).map(slot => {
+      const times = getSlotTimes(schedule, slot, today);
+      if (!times) return slot;
+      return {
+        ...slot,
+        todayAt: toLocalTime(times.start),
+        ...(times.end != null && { todayEndAt: toLocalTime(times.end) }),
+      };
+    }),
+  };
+}
+
+/**
+ * Validate date exceptions and the validity window, returning an error message if invalid
+ */
+function validateCalendar(body: Partial<Schedule>): string | null {
+  const { extraDates, skipDates, validFrom, validUntil } = body;
+
+  for (const [field, dates] of [['extraDates', extraDates], ['skipDates', skipDates]] as const) {
+    if (dates != null && (!Array.isArray(dates) || !dates.every(isValidDate))) {
+      return `${field} must be an array of YYYY-MM-DD dates`;
+    }
+  }
+
+  if (validFrom != null && !isValidDate(validFrom)) {
+    return 'validFrom must be a YYYY-MM-DD date';
+  }
+  if (validUntil != null && !isValidDate(validUntil)) {
+    return 'validUntil must be a YYYY-MM-DD date';
+  }
+  if (validFrom && validUntil && validFrom > validUntil) {
+    return 'validFrom must not be after validUntil';
+  }
+
+  return null;
+}
+
 /**
  * GET /api/schedules
  * List all schedules for the authenticated user
@@ -15,7 +335,57 @@ router.get('/', async (req, res) => {
   console.log('[Schedules] Returning', userSchedules.length, 'schedules');
   res.json({
     success: true,
-    data: userSchedules
+    data: userSchedules.map(withTodayTimes)
+  });
+});
+
+/**
+ * GET /api/schedules/preview
+ * Upcoming device actions of all enabled schedules, in order
+ * Query: from, to (epoch ms or ISO; default now to 24h ahead, max 14 days)
+ */
+router.get('/preview', async (req, res) => {
+  const userId = req.user!.uid;
+  const window = parseWindow(req.query, DEFAULT_PREVIEW_MS);
+
+  if ('error' in window) {
+    return res.status(400).json({
+      success: false,
+      error: window.error
+    });
+  }
+
+  const schedules = await getSchedules(userId);
+  const entries = await previewExecutions(schedules, window.from, window.to);
+
+  res.json({
+    success: true,
+    data: entries
+  });
+});
+
+/**
+ * GET /api/schedules/conflicts
+ * Devices that enabled schedules give different commands at the same or
+ * overlapping times, with the schedule whose command wins
+ * Query: from, to (epoch ms or ISO; default now to 7 days ahead, max 14 days)
+ */
+router.get('/conflicts', async (req, res) => {
+  const userId = req.user!.uid;
+  const window = parseWindow(req.query, DEFAULT_CONFLICT_WINDOW_MS);
+
+  if ('error' in window) {
+    return res.status(400).json({
+      success: false,
+      error: window.error
+    });
+  }
+
+  const schedules = (await getSchedules(userId)).filter(s => s.enabled);
+
+  res.json({
+    success: true,
+    data: await findConflicts(schedules, window.from, window.to)
   });
 });
 
@@ -38,7 +408,40 @@ router.get('/:id', async (req, res) => {
 
   res.json({
     success: true,
-    data: schedule
+    data: withTodayTimes(schedule)
+  });
+});
+
+/**
+ * GET /api/schedules/:id/history
+ * List execution history for a schedule
+ * Query: limit, before (cursor), deviceId, outcome
+ */
+router.get('/:id/history', async (req, res) => {
+  const userId = req.user!.uid;
+  const { id } = req.params;
+
+  const schedule = await getSchedule(userId, id);
+
+  if (!schedule) {
+    return res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    });
+  }
+
+  const query = parseHistoryQuery(req);
+
+  if ('error' in query) {
+    return res.status(400).json({ success: false, error: query.error });
+  }
+
+  const { records, nextCursor } = await queryExecutions(userId, { ...query, scheduleId: id });
+
+  res.json({
+    success: true,
+    data: records,
+    nextCursor
   });
 });
 
@@ -54,13 +457,33 @@ router.post('/', async (req, res) => {
     enabled = true,
     daysOfWeek,
     timeSlots,
-    triggers
+    triggers,
+    timezone,
+    catchUpMinutes,
+    location,
+    extraDates,
+    skipDates,
+    validFrom,
+    validUntil,
+    essential,
+    delivery,
+    priority
   } = req.body as {
     name: string;
     enabled?: boolean;
     daysOfWeek: DayOfWeek[];
     timeSlots: TimeSlot[];
     triggers?: Schedule['triggers'];
+    timezone?: string;
+    catchUpMinutes?: number;
+    location?: Schedule['location'];
+    extraDates?: string[];
+    skipDates?: string[];
+    validFrom?: string;
+    validUntil?: string;
+    essential?: boolean;
+    delivery?: Schedule['delivery'];
+    priority?: number;
   };
 
   // Validate required fields
@@ -71,6 +494,66 @@ router.post('/', async (req, res) => {
     });
   }
 
+  const slotError = validateTimeSlots(timeSlots);
+  if (slotError) {
+    return res.status(400).json({
+      success: false,
+      error: slotError
+    });
+  }
+
+  if (timezone != null && !isValidTimeZone(timezone)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid timezone: ${timezone}`
+    });
+  }
+
+  if (catchUpMinutes != null && (typeof catchUpMinutes !== 'number' || catchUpMinutes < 0)) {
+    return res.status(400).json({
+      success: false,
+      error: 'catchUpMinutes must be a non-negative number'
+    });
+  }
+
+  if (location != null && !isValidLocation(location)) {
+    return res.status(400).json({
+      success: false,
+      error: 'location must have a valid latitude and longitude'
+    });
+  }
+
+  const triggerError = triggers != null ? validateTriggers(triggers) : null;
+  if (triggerError) {
+    return res.status(400).json({
+      success: false,
+      error: triggerError
+    });
+  }
+
+  const calendarError = validateCalendar(req.body);
+  if (calendarError) {
+    return res.status(400).json({
+      success: false,
+      error: calendarError
+    });
+  }
+
+  const deliveryError = delivery != null ? validateDelivery(delivery) : null;
+  if (deliveryError) {
+    return res.status(400).json({
+      success: false,
+      error: deliveryError
+    });
+  }
+
+  if (priority != null && !Number.isInteger(priority)) {
+    return res.status(400).json({
+      success: false,
+      error: 'priority must be an integer'
+    });
+  }
+
   const now = Date.now();
   const id = `schedule-${now}`;
   const schedule: Schedule = {
@@ -79,8 +562,18 @@ router.post('/', async (req, res) => {
     enabled,
     userId,
     daysOfWeek,
-    timeSlots,
+    timeSlots: stripTodayTimes(timeSlots),
     triggers: triggers || [],
+    ...(timezone && { timezone }),
+    ...(catchUpMinutes != null && { catchUpMinutes }),
+    ...(location && { location }),
+    ...(extraDates && { extraDates }),
+    ...(skipDates && { skipDates }),
+    ...(validFrom && { validFrom }),
+    ...(validUntil && { validUntil }),
+    ...(essential != null && { essential: !!essential }),
+    ...(delivery && { delivery }),
+    ...(priority != null && { priority }),
     createdAt: now,
     updatedAt: now
   };
@@ -88,9 +581,12 @@ router.post('/', async (req, res) => {
   await saveSchedule(userId, schedule);
   console.log('[Schedules] Created schedule:', id, name);
 
+  const warnings = schedule.enabled ? await findSaveWarnings(userId, schedule) : [];
+
   res.status(201).json({
     success: true,
-    data: schedule
+    data: withTodayTimes(schedule),
+    ...(warnings.length > 0 && { warnings })
   });
 });
 
@@ -111,24 +607,124 @@ router.put('/:id', async (req, res) => {
     });
   }
 
-  const { name, enabled, daysOfWeek, timeSlots, triggers } = req.body;
+  const {
+    name, enabled, daysOfWeek, timeSlots, triggers, timezone, catchUpMinutes, location,
+    extraDates, skipDates, validFrom, validUntil, essential, delivery, priority
+  } = req.body;
+
+  const slotError = timeSlots != null ? validateTimeSlots(timeSlots) : null;
+  if (slotError) {
+    return res.status(400).json({
+      success: false,
+      error: slotError
+    });
+  }
+
+  if (timezone != null && !isValidTimeZone(timezone)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid timezone: ${timezone}`
+    });
+  }
+
+  if (catchUpMinutes != null && (typeof catchUpMinutes !== 'number' || catchUpMinutes < 0)) {
+    return res.status(400).json({
+      success: false,
+      error: 'catchUpMinutes must be a non-negative number'
+    });
+  }
+
+  if (location != null && !isValidLocation(location)) {
+    return res.status(400).json({
+      success: false,
+      error: 'location must have a valid latitude and longitude'
+    });
+  }
+
+  const triggerError = triggers != null ? validateTriggers(triggers) : null;
+  if (triggerError) {
+    return res.status(400).json({
+      success: false,
+      error: triggerError
+    });
+  }
+
+  const calendarError = validateCalendar(req.body);
+  if (calendarError) {
+    return res.status(400).json({
+      success: false,
+      error: calendarError
+    });
+  }
+
+  const deliveryError = delivery != null ? validateDelivery(delivery) : null;
+  if (deliveryError) {
+    return res.status(400).json({
+      success: false,
+      error: deliveryError
+    });
+  }
+
+  if (priority != null && !Number.isInteger(priority)) {
+    return res.status(400).json({
+      success: false,
+      error: 'priority must be an integer'
+    });
+  }
 
   const updated: Schedule = {
     ...existing,
     name: name ?? existing.name,
     enabled: enabled ?? existing.enabled,
     daysOfWeek: daysOfWeek ?? existing.daysOfWeek,
-    timeSlots: timeSlots ?? existing.timeSlots,
-    triggers: triggers ?? existing.triggers,
+    timeSlots: timeSlots ? stripTodayTimes(timeSlots) : existing.timeSlots,
+    triggers: triggers ?? existing.triggers ?? [],
+    ...(timezone && { timezone }),
+    ...(catchUpMinutes != null && { catchUpMinutes }),
+    ...(location && { location }),
+    ...(extraDates && { extraDates }),
+    ...(skipDates && { skipDates }),
+    ...(validFrom && { validFrom }),
+    ...(validUntil && { validUntil }),
+    ...(essential != null && { essential: !!essential }),
+    ...(delivery && { delivery }),
+    ...(priority != null && { priority }),
     updatedAt: Date.now()
   };
 
+  // Explicit null clears the location, validity window, delivery options and priority
+  if (location === null) {
+    delete updated.location;
+  }
+  if (delivery === null) {
+    delete updated.delivery;
+  }
+  if (priority === null) {
+    delete updated.priority;
+  }
+  if (validFrom === null) {
+    delete updated.validFrom;
+  }
+  if (validUntil === null) {
+    delete updated.validUntil;
+  }
+
+  if (updated.validFrom && updated.validUntil && updated.validFrom > updated.validUntil) {
+    return res.status(400).json({
+      success: false,
+      error: 'validFrom must not be after validUntil'
+    });
+  }
+
   await saveSchedule(userId, updated);
   console.log('[Schedules] Updated schedule:', id);
 
+  const warnings = updated.enabled ? await findSaveWarnings(userId, updated) : [];
+
   res.json({
     success: true,
-    data: updated
+    data: withTodayTimes(updated),
+    ...(warnings.length > 0 && { warnings })
   });
 });
 
@@ -229,7 +825,8 @@ router.post('/:id/test', async (req, res) => {
   if (result.success) {
     res.json({
       success: true,
-      message: 'Schedule triggered successfully'
+      message: 'Schedule triggered successfully',
+      data: result.execution
     });
   } else {
     res.status(500).json({
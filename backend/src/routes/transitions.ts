@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { getTransitions, getTransition } from '../services/db.js';
+import { cancelTransition, getTransitionProgress, getTransitionValue } from '../services/transitions.js';
+
+const router = Router();
+
+/** GET /api/transitions - Gradual transitions in progress, with their current value */
+router.get('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const now = Date.now();
+  const transitions = (await getTransitions())
+    .filter(t => t.userId === userId)
+    .map(t => ({
+      ...t,
+      currentValue: getTransitionValue(t, now),
+      progress: getTransitionProgress(t, now),
+      endsAt: t.startedAt + t.durationMinutes * 60 * 1000,
+    }));
+  res.json({ success: true, data: transitions });
+});
+
+/** DELETE /api/transitions/:deviceId - Cancel a transition, leaving the device where it is */
+router.delete('/:deviceId', async (req, res) => {
+  const userId = req.user!.uid;
+  const { deviceId } = req.params;
+  const transition = await getTransition(deviceId);
+
+  if (!transition || transition.userId !== userId) {
+    return res.status(404).json({ success: false, error: 'No transition running for this device' });
+  }
+
+  // Also stops it if another instance is the one stepping it
+  await cancelTransition(deviceId);
+  console.log('[Transitions] Cancelled by user:', deviceId);
+
+  res.json({ success: true, message: 'Transition cancelled' });
+});
+
+export default router;
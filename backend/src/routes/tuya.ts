@@ -8,6 +8,7 @@ import {
   sendCommand,
 } from '../services/tuya.js';
 import { getTuyaLink, saveTuyaLink, deleteTuyaLink } from '../services/db.js';
+import { parseHoldRequest, holdAfterManualCommand } from '../services/holds.js';
 
 const router = Router();
 
@@ -203,7 +204,8 @@ router.get('/devices/:deviceId/status', async (req, res) => {
 
 /**
  * POST /api/tuya/devices/:deviceId/command
- * Send command to device
+ * Send command to device, putting it on manual hold (body `hold`:
+ * { mode, hours? }, default until its next slot; false for none)
  */
 router.post('/devices/:deviceId/command', async (req, res) => {
   const { deviceId } = req.params;
@@ -215,13 +217,19 @@ router.post('/devices/:deviceId/command', async (req, res) => {
       error: 'Commands array is required'
     });
   }
+  const holdRequest = parseHoldRequest(req.body.hold);
+  if ('error' in holdRequest) {
+    return res.status(400).json({ success: false, error: holdRequest.error });
+  }
 
   const result = await sendCommand(deviceId, commands);
 
   if (result.success) {
+    const hold = await holdAfterManualCommand(req.user!.uid, deviceId, holdRequest.hold);
     res.json({
       success: true,
-      message: 'Command sent'
+      message: 'Command sent',
+      ...(hold && { hold })
     });
   } else {
     res.status(500).json({
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { getVacation, saveVacation } from '../services/db.js';
+import { endVacation } from '../services/vacation.js';
+import { isValidTimeZone } from '../services/timezone.js';
+import type { VacationDevice, VacationMode } from '../types/index.js';
+
+const router = Router();
+
+/** GET /api/vacation - Current vacation mode settings (null if never set) */
+router.get('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const vacation = await getVacation(userId);
+  res.json({ success: true, data: vacation });
+});
+
+/** PUT /api/vacation - Start vacation mode, or update the active one */
+router.put('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const { devices, returnAt, timezone } = req.body as {
+    devices: VacationDevice[];
+    returnAt: number;
+    timezone?: string;
+  };
+
+  if (!Array.isArray(devices) || devices.some(d => !d?.deviceId || !d.deviceName)) {
+    return res.status(400).json({ success: false, error: 'devices must be a list of { deviceId, deviceName }' });
+  }
+  if (typeof returnAt !== 'number' || returnAt <= Date.now()) {
+    return res.status(400).json({ success: false, error: 'returnAt must be a time in the future' });
+  }
+  if (timezone != null && !isValidTimeZone(timezone)) {
+    return res.status(400).json({ success: false, error: `Invalid timezone: ${timezone}` });
+  }
+
+  const existing = await getVacation(userId);
+  const alreadyActive = existing?.active === true;
+
+  const vacation: VacationMode = {
+    userId,
+    active: true,
+    devices: devices.map(d => ({
+      deviceId: d.deviceId,
+      deviceName: d.deviceName,
+      ...(d.deviceCategory && { deviceCategory: d.deviceCategory }),
+    })),
+    returnAt,
+    ...(timezone && { timezone }),
+    startedAt: alreadyActive ? existing.startedAt : Date.now(),
+    // Keep today's plan when editing; newly added lights join from tomorrow
+    ...(alreadyActive && existing.plan && { plan: existing.plan }),
+  };
+  await saveVacation(vacation);
+  console.log('[Vacation]', alreadyActive ? 'Updated' : 'Started', 'for', userId, `(${devices.length} lights, until ${new Date(returnAt).toISOString()})`);
+
+  res.json({ success: true, data: vacation });
+});
+
+/** DELETE /api/vacation - End vacation mode now */
+router.delete('/', async (req, res) => {
+  const userId = req.user!.uid;
+  const existing = await getVacation(userId);
+
+  if (!existing?.active) {
+    return res.status(404).json({ success: false, error: 'Vacation mode is not active' });
+  }
+
+  const ended = await endVacation(existing, 'ended by user');
+  res.json({ success: true, data: ended });
+});
+
+export default router;
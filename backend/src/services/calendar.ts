@@ -0,0 +1,33 @@
+/**
+ * Schedule calendar
+ * Decides which local dates a schedule is active on (weekly days, extra and
+ * skipped dates, validity window)
+ */
+
+import type { Schedule } from '../types/index.js';
+import { getDayOfWeek } from './timezone.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check if a string is a real YYYY-MM-DD date
+ */
+export function isValidDate(date: unknown): date is string {
+  if (typeof date !== 'string' || !DATE_PATTERN.test(date)) return false;
+  const [y, m, d] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(y, m - 1, d));
+  return parsed.getUTCFullYear() === y && parsed.getUTCMonth() === m - 1 && parsed.getUTCDate() === d;
+}
+
+/**
+ * Check if a schedule runs on a local date (YYYY-MM-DD).
+ * Outside the validity window or on a skip date it never runs; on an extra
+ * date it always runs; otherwise the weekly days apply.
+ */
+export function isScheduleActiveOn(schedule: Schedule, date: string): boolean {
+  if (schedule.validFrom && date < schedule.validFrom) return false;
+  if (schedule.validUntil && date > schedule.validUntil) return false;
+  if (schedule.skipDates?.includes(date)) return false;
+  if (schedule.extraDates?.includes(date)) return true;
+  return (schedule.daysOfWeek || []).includes(getDayOfWeek(date));
+}
@@ -0,0 +1,305 @@
+/**
+ * Climate Control
+ * Runs "maintain temperature" slots: while the slot lasts, an AC is switched
+ * on and off from a sensor's temperature readings to keep the room within
+ * target ± hysteresis, with a minimum off-time to rest the compressor.
+ * Running loops are persisted, so they resume after a restart or takeover.
+ */
+
+import { sendCommand, getDeviceStatus } from './tuya.js';
+import { getClimateLoops, getClimateLoop, saveClimateLoop, deleteClimateLoop } from './db.js';
+import { isDeviceHeld } from './holds.js';
+import type { Schedule, DeviceAction, ActiveClimate, ClimateCommand } from '../types/index.js';
+
+// How often a running loop reads the sensor and decides
+const CONTROL_INTERVAL_MS = Number(process.env.CLIMATE_INTERVAL_MS ?? 60 * 1000);
+
+const DEFAULT_MIN_OFF_MINUTES = 5;
+
+// Limits accepted for climate commands (setpoints the AC takes, in °C)
+export const MIN_CLIMATE_TEMPERATURE = 16;
+export const MAX_CLIMATE_TEMPERATURE = 30;
+export const MAX_HYSTERESIS = 5;
+export const MAX_MIN_OFF_MINUTES = 60;
+
+// Running loops and their control timers (deviceId → …)
+const loops: Map<string, ActiveClimate> = new Map();
+const timers: Map<string, NodeJS.Timeout> = new Map();
+
+/**
+ * Read the room temperature (°C) from a sensor, or null if unavailable
+ */
+async function readTemperature(sensorDeviceId: string): Promise<number | null> {
+  try {
+    const result = await getDeviceStatus(sensorDeviceId);
+    const raw = result.success ? result.status?.va_temperature : null;
+    return raw != null ? Number(raw) / 10 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the AC should run at a temperature: on past the far edge of the
+ * band, off past the near edge, unchanged (null) in between
+ */
+function getClimateDemand(command: ClimateCommand, temperature: number): boolean | null {
+  const upper = command.targetTemperature + command.hysteresis;
+  const lower = command.targetTemperature - command.hysteresis;
+
+  if (command.mode === 'cold') {
+    if (temperature >= upper) return true;
+    if (temperature <= lower) return false;
+  } else {
+    if (temperature <= lower) return true;
+    if (temperature >= upper) return false;
+  }
+  return null;
+}
+
+/**
+ * Switch the AC on (in the loop's mode, at the target setpoint) or off
+ */
+async function switchAC(loop: ActiveClimate, on: boolean, temperature: number, now: number): Promise<void> {
+  const { command } = loop;
+  const commands = on
+    ? [
+        { code: 'switch', value: true },
+        { code: 'mode', value: command.mode },
+        { code: 'temp', value: Math.round(command.targetTemperature) },
+        { code: 'fan', value: command.fan },
+      ]
+    : [{ code: 'switch', value: false }];
+
+  console.log(`[Climate] ${command.sensorDeviceName} reads ${temperature}°C, switching ${loop.deviceName} ${on ? 'on' : 'off'} (target ${command.targetTemperature}±${command.hysteresis}°C)`);
+  const result = await sendCommand(loop.deviceId, commands);
+  if (!result.success) {
+    console.error(`[Climate] Failed to switch ${loop.deviceName}: ${result.error}`);
+    return;
+  }
+
+  loop.acOn = on;
+  loop.lastSwitchedAt = now;
+  loop.lastTemperature = temperature;
+  if (!on) loop.lastOffAt = now;
+
+  try {
+    await saveClimateLoop(loop);
+  } catch (error) {
+    console.error(`[Climate] Failed to persist state of ${loop.deviceName}:`, error);
+  }
+}
+
+/**
+ * Read the sensor and switch the AC if the room has left the band (unless
+ * the AC is on manual hold)
+ */
+async function controlStep(loop: ActiveClimate, now: number): Promise<void> {
+  const { command } = loop;
+
+  // Paused while someone controls the AC by hand; its state is unknown
+  // afterwards, so the next decision is sent whatever it is
+  if (await isDeviceHeld(loop.userId, loop.deviceId, now)) {
+    console.log(`[Climate] ${loop.deviceName} on manual hold, not switching it`);
+    delete loop.acOn;
+    return;
+  }
+
+  const temperature = await readTemperature(command.sensorDeviceId);
+  if (temperature === null) {
+    console.log(`[Climate] ${command.sensorDeviceName} unreadable, leaving ${loop.deviceName} as it is`);
+    return;
+  }
+
+  const demand = getClimateDemand(command, temperature);
+  if (demand === null || demand === loop.acOn) return;
+
+  // Let the compressor rest before starting it again
+  if (demand && loop.lastOffAt != null) {
+    const restMs = (command.minOffMinutes ?? DEFAULT_MIN_OFF_MINUTES) * 60 * 1000;
+    const remaining = loop.lastOffAt + restMs - now;
+    if (remaining > 0) {
+      console.log(`[Climate] ${loop.deviceName} needed at ${temperature}°C, waiting ${Math.ceil(remaining / 60000)}m of minimum off-time`);
+      return;
+    }
+  }
+
+  await switchAC(loop, demand, temperature, now);
+}
+
+/**
+ * Stop running a loop on this instance
+ */
+function stopTimer(deviceId: string): void {
+  const timer = timers.get(deviceId);
+  if (timer) {
+    clearInterval(timer);
+    timers.delete(deviceId);
+  }
+  loops.delete(deviceId);
+}
+
+/**
+ * Whether a loop is still the one on record. Any instance stops a loop by
+ * deleting its record, so the one running it stops; a failed read counts
+ * as still running.
+ */
+async function isLoopCurrent(loop: ActiveClimate): Promise<boolean> {
+  try {
+    const saved = await getClimateLoop(loop.deviceId);
+    return saved?.startedAt === loop.startedAt;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Stop a loop's timer and forget it (the AC is left as it is)
+ */
+async function finishClimate(deviceId: string): Promise<void> {
+  stopTimer(deviceId);
+  try {
+    await deleteClimateLoop(deviceId);
+  } catch (error) {
+    console.error(`[Climate] Failed to delete loop for ${deviceId}:`, error);
+  }
+}
+
+/**
+ * Run a loop's control step every interval until it ends
+ */
+function runClimate(loop: ActiveClimate): void {
+  loops.set(loop.deviceId, loop);
+
+  const interval = setInterval(async () => {
+    const now = Date.now();
+    if (now >= loop.endsAt) {
+      await finishClimate(loop.deviceId);
+      console.log(`[Climate] Loop for ${loop.deviceName} ended`);
+      return;
+    }
+
+    // Stopped or replaced through another instance
+    if (!(await isLoopCurrent(loop))) {
+      if (timers.get(loop.deviceId) === interval) stopTimer(loop.deviceId);
+      console.log(`[Climate] Loop for ${loop.deviceName} stopped elsewhere`);
+      return;
+    }
+
+    try {
+      await controlStep(loop, now);
+    } catch (err) {
+      console.error(`[Climate] Step failed for ${loop.deviceName}:`, err);
+    }
+  }, CONTROL_INTERVAL_MS);
+
+  timers.set(loop.deviceId, interval);
+}
+
+/**
+ * Stop a device's climate loop, if it has one. Its record is removed even
+ * if another instance runs it, which makes that instance stop at its next
+ * step.
+ */
+export async function cancelClimate(deviceId: string): Promise<void> {
+  if (!timers.has(deviceId)) {
+    try {
+      await deleteClimateLoop(deviceId);
+    } catch (error) {
+      console.error(`[Climate] Failed to delete loop for ${deviceId}:`, error);
+    }
+    return;
+  }
+  await finishClimate(deviceId);
+  console.log(`[Climate] Stopped climate control of ${deviceId}`);
+}
+
+/**
+ * Stop the loops a slot started (at its end)
+ */
+export async function stopSlotClimate(scheduleId: string, slotId: string): Promise<void> {
+  for (const loop of [...loops.values()]) {
+    if (loop.scheduleId === scheduleId && loop.slotId === slotId) {
+      await cancelClimate(loop.deviceId);
+    }
+  }
+}
+
+/**
+ * Start keeping a room at a temperature with an AC until endsAt
+ */
+export async function startClimate(
+  schedule: Schedule,
+  slotId: string,
+  action: DeviceAction,
+  command: ClimateCommand,
+  endsAt: number
+): Promise<void> {
+  await cancelClimate(action.deviceId);
+
+  const loop: ActiveClimate = {
+    deviceId: action.deviceId,
+    deviceName: action.deviceName,
+    userId: schedule.userId,
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    slotId,
+    ...(action.deviceCategory && { deviceCategory: action.deviceCategory }),
+    command,
+    startedAt: Date.now(),
+    endsAt,
+  };
+
+  console.log(`[Climate] Keeping ${command.sensorDeviceName} at ${command.targetTemperature}±${command.hysteresis}°C with ${action.deviceName} until ${new Date(endsAt).toISOString()}`);
+
+  try {
+    await saveClimateLoop(loop);
+  } catch (error) {
+    console.error(`[Climate] Failed to persist loop for ${action.deviceName}, it won't survive a restart:`, error);
+  }
+
+  // Decide straight away rather than a full interval from now
+  runClimate(loop);
+  await controlStep(loop, loop.startedAt);
+}
+
+/**
+ * Stop running loops without forgetting them (another instance took over
+ * and resumes them from the database)
+ */
+export function suspendClimate(): void {
+  for (const timer of timers.values()) clearInterval(timer);
+  timers.clear();
+  loops.clear();
+}
+
+/**
+ * Resume the loops that were running when the server stopped; loops whose
+ * slot ended in the meantime are dropped
+ */
+export async function resumeClimate(): Promise<void> {
+  let saved: ActiveClimate[];
+  try {
+    saved = await getClimateLoops();
+  } catch (error) {
+    console.error('[Climate] Failed to load climate loops:', error);
+    return;
+  }
+
+  const now = Date.now();
+  for (const loop of saved) {
+    if (timers.has(loop.deviceId)) continue;
+    if (now >= loop.endsAt) {
+      await finishClimate(loop.deviceId);
+      continue;
+    }
+
+    console.log(`[Climate] Resuming climate control of ${loop.deviceName}`);
+    runClimate(loop);
+    try {
+      await controlStep(loop, now);
+    } catch (err) {
+      console.error(`[Climate] Resume failed for ${loop.deviceName}:`, err);
+    }
+  }
+}
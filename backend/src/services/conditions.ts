@@ -0,0 +1,491 @@
+/**
+ * Action Conditions
+ * Evaluates condition trees: sensor readings, time-of-day windows, other
+ * devices' on/off state, any DP code's value and whether a device is online,
+ * combined with all/any/not. Each device is read once per evaluation. A
+ * check whose device can't be read follows its failure policy; without one
+ * it is unknown, and an unknown result fails open, as single sensor
+ * conditions always have.
+ */
+
+import { getDeviceStatus, getDeviceInfo } from './tuya.js';
+import { getLastReading, saveLastReading } from './db.js';
+import { getZonedTime, parseTime, TIME_PATTERN } from './timezone.js';
+import type {
+  ActionCondition,
+  ConditionResult,
+  ConditionFailurePolicy,
+  ConditionFallback,
+  DeviceReading,
+  SensorCondition,
+  TimeWindowCondition,
+  DeviceStateCondition,
+  DpCondition,
+  DpOperator,
+  OnlineCondition,
+} from '../types/index.js';
+
+// Deepest nesting of all/any/not accepted
+export const MAX_CONDITION_DEPTH = 4;
+
+// Limits for failure policies
+export const MAX_CONDITION_RETRIES = 5;
+export const MAX_READING_AGE_MINUTES = 24 * 60;
+
+// Wait between re-reads of an unreadable device
+const RETRY_DELAY_MS = Number(process.env.CONDITION_RETRY_DELAY_MS ?? 3000);
+
+const OPERATORS = ['>', '<', '>=', '<='];
+const DP_OPERATORS = ['=', '!=', ...OPERATORS];
+const FAILURE_MODES = ['open', 'closed', 'retry', 'lastKnown'];
+
+// Last good status per device (mirrored to the database for other instances)
+const lastReadings: Map<string, DeviceReading> = new Map();
+
+// true / false, or null when it couldn't be evaluated
+type Truth = boolean | null;
+
+// Where a check's value comes from: the DP status, or the device's cloud
+// record (online state)
+type DeviceSource = 'status' | 'info';
+
+interface Evaluation {
+  value: Truth;
+  detail: string;
+}
+
+interface EvaluationContext {
+  timeZone: string;
+  now: number;
+  reads: Map<string, Promise<Record<string, any> | null>>;
+  sensorValue: number | null;
+  fallbacks: ConditionFallback[];
+  notes: string[];
+}
+
+function mark(value: Truth): string {
+  return value === null ? '?' : value ? '✓' : '✗';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Read a device's status or cloud record from Tuya (null if unreadable),
+ * remembering good status reads
+ */
+async function fetchDevice(
+  ctx: EvaluationContext,
+  source: DeviceSource,
+  deviceId: string,
+  label: string
+): Promise<Record<string, any> | null> {
+  try {
+    const result = source === 'status'
+      ? await getDeviceStatus(deviceId).then(r => ({ ...r, data: r.status }))
+      : await getDeviceInfo(deviceId).then(r => ({ ...r, data: r.device }));
+    if (!result.success || !result.data) {
+      ctx.notes.push(`${label} unreadable (${result.error || `no ${source}`})`);
+      return null;
+    }
+
+    if (source === 'status') {
+      const reading: DeviceReading = { at: Date.now(), status: result.data };
+      lastReadings.set(deviceId, reading);
+      saveLastReading(deviceId, reading).catch(error => {
+        console.error(`[Scheduler]   Failed to save last reading of ${label}:`, error);
+      });
+    }
+    return result.data;
+  } catch (error) {
+    ctx.notes.push(`Error reading ${label} (${(error as Error).message})`);
+    return null;
+  }
+}
+
+/**
+ * Read a device once per evaluation and source (null if unreadable)
+ */
+function readDevice(
+  ctx: EvaluationContext,
+  source: DeviceSource,
+  deviceId: string,
+  label: string
+): Promise<Record<string, any> | null> {
+  const key = `${source}:${deviceId}`;
+  let data = ctx.reads.get(key);
+  if (!data) {
+    data = fetchDevice(ctx, source, deviceId, label);
+    ctx.reads.set(key, data);
+  }
+  return data;
+}
+
+/**
+ * Read a value from a device, applying the check's failure policy when the
+ * device (or the value) can't be read. Returns the value, or null with the
+ * policy's verdict (true = met, false = not met, null = unknown).
+ */
+async function readValue<T>(
+  ctx: EvaluationContext,
+  check: string,
+  source: DeviceSource,
+  deviceId: string,
+  label: string,
+  policy: ConditionFailurePolicy | undefined,
+  extract: (data: Record<string, any>) => T | null
+): Promise<{ value: T } | { value: null; verdict: Truth }> {
+  const data = await readDevice(ctx, source, deviceId, label);
+  const value = data ? extract(data) : null;
+  if (value !== null) return { value };
+  if (!policy) return { value: null, verdict: null };
+
+  let attempts: number | undefined;
+
+  if (policy.mode === 'retry') {
+    const retries = Math.min(Math.max(Math.round(policy.retries ?? 1), 1), MAX_CONDITION_RETRIES);
+    for (attempts = 1; attempts <= retries; ) {
+      await sleep(RETRY_DELAY_MS);
+      attempts++;
+      const fresh = await fetchDevice(ctx, source, deviceId, label);
+      if (!fresh) continue;
+      ctx.reads.set(`${source}:${deviceId}`, Promise.resolve(fresh));
+      const retried = extract(fresh);
+      if (retried !== null) {
+        ctx.fallbacks.push({ check, path: 'retried', attempts });
+        console.log(`[Scheduler]   ${label} read on attempt ${attempts}`);
+        return { value: retried };
+      }
+    }
+  }
+
+  // Only status reads are remembered
+  if (policy.mode === 'lastKnown' && source === 'status') {
+    const maxAgeMs = Math.min(policy.maxAgeMinutes ?? 15, MAX_READING_AGE_MINUTES) * 60 * 1000;
+    let reading = lastReadings.get(deviceId) ?? null;
+    if (!reading) {
+      try {
+        reading = await getLastReading(deviceId);
+      } catch {
+        reading = null;
+      }
+    }
+    const known = reading && ctx.now - reading.at <= maxAgeMs ? extract(reading.status) : null;
+    if (reading && known !== null) {
+      const readingAgeMinutes = Math.round((ctx.now - reading.at) / 60000);
+      ctx.fallbacks.push({ check, path: 'last_known', readingAgeMinutes });
+      console.log(`[Scheduler]   Using ${label}'s reading from ${readingAgeMinutes}m ago`);
+      return { value: known };
+    }
+  }
+
+  // Out of options: count the check as met (open) or not met (closed)
+  const open = policy.mode === 'open' || (policy.mode !== 'closed' && (policy.then ?? 'open') === 'open');
+  ctx.fallbacks.push({ check, path: open ? 'failed_open' : 'failed_closed', ...(attempts && { attempts }) });
+  console.log(`[Scheduler]   ${label} unavailable, failing ${open ? 'open' : 'closed'}`);
+  return { value: null, verdict: open };
+}
+
+function readSensorMetric(condition: SensorCondition, status: Record<string, any>): number | null {
+  if (condition.metric === 'temperature') {
+    return status.va_temperature != null ? Number(status.va_temperature) / 10 : null;
+  }
+  if (condition.metric === 'humidity') {
+    return status.va_humidity != null ? Number(status.va_humidity) : null;
+  }
+  return null;
+}
+
+function readPowerState(status: Record<string, any>): boolean | null {
+  const power = [status.switch_led, status.switch_1, status.switch, status.power].find(v => v != null);
+  return power != null ? power === true || power === '1' : null;
+}
+
+async function evaluateSensor(condition: SensorCondition, ctx: EvaluationContext): Promise<Evaluation> {
+  const label = condition.sensorDeviceName || 'Sensor';
+  const check = `${label} ${condition.metric} ${condition.operator} ${condition.value}`;
+  const result = await readValue(ctx, check, 'status', condition.sensorDeviceId, label, condition.onFailure,
+    status => readSensorMetric(condition, status));
+
+  const reading = result.value;
+  if (reading === null) {
+    return { value: result.verdict, detail: `${condition.metric} ? ${condition.operator} ${condition.value} ${mark(result.verdict)}` };
+  }
+  if (ctx.sensorValue === null) {
+    ctx.sensorValue = reading;
+  }
+
+  let value: Truth = null;
+  switch (condition.operator) {
+    case '>':  value = reading > condition.value; break;
+    case '<':  value = reading < condition.value; break;
+    case '>=': value = reading >= condition.value; break;
+    case '<=': value = reading <= condition.value; break;
+  }
+
+  return { value, detail: `${condition.metric} ${reading} ${condition.operator} ${condition.value} ${mark(value)}` };
+}
+
+function evaluateTimeWindow(condition: TimeWindowCondition, ctx: EvaluationContext): Evaluation {
+  const { minutes, time } = getZonedTime(ctx.now, ctx.timeZone);
+  const after = parseTime(condition.after);
+  const before = parseTime(condition.before);
+
+  const value = after <= before
+    ? minutes >= after && minutes < before
+    : minutes >= after || minutes < before;
+
+  return { value, detail: `time ${time} in ${condition.after}–${condition.before} ${mark(value)}` };
+}
+
+async function evaluateDeviceState(condition: DeviceStateCondition, ctx: EvaluationContext): Promise<Evaluation> {
+  const label = condition.deviceName || 'Device';
+  const check = `${label} is ${condition.state}`;
+  const result = await readValue(ctx, check, 'status', condition.deviceId, label, condition.onFailure, readPowerState);
+
+  const value = result.value === null ? result.verdict : result.value === (condition.state === 'on');
+  return { value, detail: `${check} ${mark(value)}` };
+}
+
+/**
+ * Compare a DP value with the expected one, using the expected value's type
+ * (null if the reading can't be compared that way)
+ */
+function compareDp(reading: unknown, operator: DpOperator, expected: boolean | number | string): Truth {
+  let actual: boolean | number | string;
+  if (typeof expected === 'boolean') {
+    if (typeof reading === 'boolean') actual = reading;
+    else if (reading === 'true' || reading === '1' || reading === 1) actual = true;
+    else if (reading === 'false' || reading === '0' || reading === 0) actual = false;
+    else return null;
+  } else if (typeof expected === 'number') {
+    actual = typeof reading === 'number' ? reading : Number(reading);
+    if (typeof reading === 'boolean' || !Number.isFinite(actual)) return null;
+  } else {
+    if (typeof reading === 'object') return null;
+    actual = String(reading);
+  }
+
+  switch (operator) {
+    case '=':  return actual === expected;
+    case '!=': return actual !== expected;
+    case '>':  return actual > expected;
+    case '<':  return actual < expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+  }
+}
+
+async function evaluateDp(condition: DpCondition, ctx: EvaluationContext): Promise<Evaluation> {
+  const label = condition.deviceName || 'Device';
+  const check = `${label} ${condition.code} ${condition.operator} ${JSON.stringify(condition.value)}`;
+  const result = await readValue(ctx, check, 'status', condition.deviceId, label, condition.onFailure,
+    (status): unknown => status[condition.code] ?? null);
+
+  let value: Truth;
+  if ('verdict' in result) {
+    value = result.verdict;
+  } else {
+    value = compareDp(result.value, condition.operator, condition.value);
+    if (value === null) ctx.notes.push(`${label} ${condition.code} is ${JSON.stringify(result.value)}, not comparable`);
+  }
+
+  const reading = result.value === null ? '?' : JSON.stringify(result.value);
+  return { value, detail: `${condition.code} ${reading} ${condition.operator} ${JSON.stringify(condition.value)} ${mark(value)}` };
+}
+
+async function evaluateOnline(condition: OnlineCondition, ctx: EvaluationContext): Promise<Evaluation> {
+  const label = condition.deviceName || 'Device';
+  const check = `${label} is ${condition.online ? 'online' : 'offline'}`;
+  const result = await readValue(ctx, check, 'info', condition.deviceId, label, condition.onFailure,
+    info => (typeof info.online === 'boolean' ? info.online : null));
+
+  const value = result.value === null ? result.verdict : result.value === condition.online;
+  return { value, detail: `${check} ${mark(value)}` };
+}
+
+async function evaluate(condition: ActionCondition, ctx: EvaluationContext, nested: boolean): Promise<Evaluation> {
+  switch (condition.type) {
+    case 'all':
+    case 'any': {
+      // Stop at the first check that decides the outcome
+      const decisive = condition.type === 'any';
+      const details: string[] = [];
+      let value: Truth = !decisive;
+      for (const child of condition.conditions || []) {
+        const result = await evaluate(child, ctx, true);
+        details.push(result.detail);
+        if (result.value === decisive) {
+          value = decisive;
+          break;
+        }
+        if (result.value === null) value = null;
+      }
+      const detail = details.join(condition.type === 'all' ? ' AND ' : ' OR ');
+      return { value, detail: nested && details.length > 1 ? `(${detail})` : detail };
+    }
+    case 'not': {
+      const result = await evaluate(condition.condition, ctx, true);
+      return { value: result.value === null ? null : !result.value, detail: `NOT ${result.detail}` };
+    }
+    case 'time':
+      return evaluateTimeWindow(condition, ctx);
+    case 'device':
+      return evaluateDeviceState(condition, ctx);
+    case 'dp':
+      return evaluateDp(condition, ctx);
+    case 'online':
+      return evaluateOnline(condition, ctx);
+    default:
+      return evaluateSensor(condition, ctx);
+  }
+}
+
+/**
+ * Evaluate a condition tree now, in the schedule's timezone
+ */
+export async function checkCondition(condition: ActionCondition, timeZone: string): Promise<ConditionResult> {
+  const ctx: EvaluationContext = { timeZone, now: Date.now(), reads: new Map(), sensorValue: null, fallbacks: [], notes: [] };
+
+  try {
+    const { value, detail } = await evaluate(condition, ctx, false);
+    console.log(`[Scheduler]   Condition: ${detail}`);
+
+    if (value === null) {
+      console.log(`[Scheduler]   Condition couldn't be evaluated, executing anyway`);
+      return {
+        met: true,
+        sensorValue: ctx.sensorValue,
+        detail,
+        ...(ctx.fallbacks.length > 0 && { fallbacks: ctx.fallbacks }),
+        note: `${ctx.notes.join('; ') || 'Condition could not be evaluated'}, failed open`,
+      };
+    }
+
+    return {
+      met: value,
+      sensorValue: ctx.sensorValue,
+      detail,
+      ...(ctx.fallbacks.length > 0 && { fallbacks: ctx.fallbacks }),
+      ...(ctx.notes.length > 0 && { note: ctx.notes.join('; ') }),
+    };
+  } catch (error) {
+    console.error(`[Scheduler]   Error checking condition:`, error);
+    return { met: true, sensorValue: null, note: `Error checking condition (${(error as Error).message}), failed open` }; // Fail open
+  }
+}
+
+/**
+ * Describe a condition tree, e.g. "humidity > 65 AND Bedroom AC is off"
+ */
+export function describeCondition(condition: ActionCondition): string {
+  switch (condition.type) {
+    case 'all':
+    case 'any': {
+      const parts = (condition.conditions || []).map(child =>
+        child.type === 'all' || child.type === 'any' ? `(${describeCondition(child)})` : describeCondition(child)
+      );
+      return parts.join(condition.type === 'all' ? ' AND ' : ' OR ');
+    }
+    case 'not':
+      return `NOT ${describeCondition(condition.condition)}`;
+    case 'time':
+      return `time in ${condition.after}–${condition.before}`;
+    case 'device':
+      return `${condition.deviceName} is ${condition.state}`;
+    case 'dp':
+      return `${condition.deviceName} ${condition.code} ${condition.operator} ${JSON.stringify(condition.value)}`;
+    case 'online':
+      return `${condition.deviceName} is ${condition.online ? 'online' : 'offline'}`;
+    default:
+      return `${condition.metric} ${condition.operator} ${condition.value}`;
+  }
+}
+
+/**
+ * Validate a check's failure policy, returning an error message if invalid
+ */
+function validateFailurePolicy(policy: unknown): string | null {
+  const p = policy as ConditionFailurePolicy;
+  if (!p || typeof p !== 'object' || !FAILURE_MODES.includes(p.mode)) {
+    return `onFailure mode must be one of ${FAILURE_MODES.join(', ')}`;
+  }
+  if (p.retries != null && (!Number.isInteger(p.retries) || p.retries < 1 || p.retries > MAX_CONDITION_RETRIES)) {
+    return `onFailure retries must be between 1 and ${MAX_CONDITION_RETRIES}`;
+  }
+  if (p.maxAgeMinutes != null && (typeof p.maxAgeMinutes !== 'number' || p.maxAgeMinutes <= 0 || p.maxAgeMinutes > MAX_READING_AGE_MINUTES)) {
+    return `onFailure maxAgeMinutes must be between 1 and ${MAX_READING_AGE_MINUTES}`;
+  }
+  if (p.then != null && p.then !== 'open' && p.then !== 'closed') {
+    return 'onFailure then must be open or closed';
+  }
+  return null;
+}
+
+/**
+ * Validate a condition tree, returning an error message if invalid
+ */
+export function validateCondition(condition: unknown, depth = 0): string | null {
+  const c = condition as ActionCondition;
+  if (!c || typeof c !== 'object') return 'condition must be an object';
+  if (depth > MAX_CONDITION_DEPTH) return `conditions can be nested at most ${MAX_CONDITION_DEPTH} deep`;
+
+  switch (c.type) {
+    case 'all':
+    case 'any':
+      if (!Array.isArray(c.conditions) || c.conditions.length === 0) {
+        return `${c.type} conditions need a non-empty conditions array`;
+      }
+      for (const child of c.conditions) {
+        const error = validateCondition(child, depth + 1);
+        if (error) return error;
+      }
+      return null;
+    case 'not':
+      return validateCondition(c.condition, depth + 1);
+    case 'time':
+      if (!TIME_PATTERN.test(c.after || '') || !TIME_PATTERN.test(c.before || '')) {
+        return 'time conditions need after and before as HH:MM';
+      }
+      return null;
+    case 'device':
+      if (!c.deviceId || (c.state !== 'on' && c.state !== 'off')) {
+        return 'device conditions need a deviceId and a state of on or off';
+      }
+      return c.onFailure != null ? validateFailurePolicy(c.onFailure) : null;
+    case 'dp':
+      if (!c.deviceId || typeof c.code !== 'string' || !c.code) {
+        return 'dp conditions need a deviceId and a code';
+      }
+      if (!['boolean', 'number', 'string'].includes(typeof c.value)) {
+        return 'dp conditions need a boolean, number or string value';
+      }
+      if (!DP_OPERATORS.includes(c.operator)) {
+        return `dp conditions need an operator of ${DP_OPERATORS.join(', ')}`;
+      }
+      if (typeof c.value !== 'number' && c.operator !== '=' && c.operator !== '!=') {
+        return `${c.code}: ${typeof c.value} values can only be compared with = or !=`;
+      }
+      return c.onFailure != null ? validateFailurePolicy(c.onFailure) : null;
+    case 'online':
+      if (!c.deviceId || typeof c.online !== 'boolean') {
+        return 'online conditions need a deviceId and online as true or false';
+      }
+      if (c.onFailure?.mode === 'lastKnown') {
+        return 'online conditions cannot use the last known reading';
+      }
+      return c.onFailure != null ? validateFailurePolicy(c.onFailure) : null;
+    case undefined:
+    case 'sensor':
+      if (!c.sensorDeviceId || !['temperature', 'humidity'].includes(c.metric)) {
+        return 'sensor conditions need a sensorDeviceId and a metric of temperature or humidity';
+      }
+      if (!OPERATORS.includes(c.operator) || typeof c.value !== 'number') {
+        return 'sensor conditions need a valid operator and numeric value';
+      }
+      return c.onFailure != null ? validateFailurePolicy(c.onFailure) : null;
+    default:
+      return `Unknown condition type: ${(c as { type: string }).type}`;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Schedule conflicts
+ * Finds places where two schedules give the same device different commands
+ * at the same minute, or while one of them holds the device for a time
+ * range. The scheduler settles these by priority at run time; this reports
+ * them so they can be fixed (or prioritised) up front.
+ */
+
+import { getDeviceClaims, getWinningClaim, isSameCommand } from './scheduler.js';
+import { expandGroupClaims } from './groups.js';
+import type { DeviceClaim } from './scheduler.js';
+import type { Schedule, ScheduleConflict, ConflictingAction } from '../types/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// A week covers every day of a weekly schedule
+export const DEFAULT_CONFLICT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+function toConflictingAction(claim: DeviceClaim): ConflictingAction {
+  return {
+    scheduleId: claim.schedule.id,
+    scheduleName: claim.schedule.name,
+    slotId: claim.slotId,
+    phase: claim.phase,
+    priority: claim.schedule.priority ?? 0,
+    command: claim.action.command,
+  };
+}
+
+/**
+ * Find conflicting device actions between schedules within [from, to).
+ * Each pair of clashing slot actions is reported once, at its first clash.
+ * Group actions are checked against each of the group's current members.
+ */
+export async function findConflicts(schedules: Schedule[], from: number, to: number): Promise<ScheduleConflict[]> {
+  // Group every claim by device
+  const byDevice: Map<string, DeviceClaim[]> = new Map();
+  const allClaims = await expandGroupClaims(schedules.flatMap(schedule => getDeviceClaims(schedule, from, to)));
+  for (const claim of allClaims) {
+    const list = byDevice.get(claim.action.deviceId) || [];
+    list.push(claim);
+    byDevice.set(claim.action.deviceId, list);
+  }
+
+  const conflicts: Map<string, ScheduleConflict> = new Map();
+
+  for (const [deviceId, claims] of byDevice) {
+    claims.sort((a, b) => a.start - b.start);
+
+    for (let i = 0; i < claims.length; i++) {
+      for (let j = i + 1; j < claims.length && claims[j].start < claims[i].end; j++) {
+        const a = claims[i];
+        const b = claims[j];
+        if (a.schedule.id === b.schedule.id) continue;
+        if (isSameCommand(a.action.command, b.action.command)) continue;
+
+        const sameTime = Math.floor(a.start / MINUTE_MS) === Math.floor(b.start / MINUTE_MS);
+        const at = Math.max(a.start, b.start);
+        if (at < from) continue;
+
+        // Keep the pair in a stable order so repeats across days match up
+        const [first, second] = a.schedule.id < b.schedule.id ? [a, b] : [b, a];
+        const key = [deviceId, first.schedule.id, first.slotId, first.phase, second.schedule.id, second.slotId, second.phase].join('|');
+
+        const existing = conflicts.get(key);
+        if (existing) {
+          existing.occurrences++;
+          continue;
+        }
+
+        // Equal-priority overlaps go to whichever command is sent last
+        const winner = getWinningClaim(a, b) ?? b;
+        conflicts.set(key, {
+          deviceId,
+          deviceName: a.action.deviceName,
+          kind: sameTime ? 'same_time' : 'overlap',
+          at,
+          occurrences: 1,
+          actions: [toConflictingAction(first), toConflictingAction(second)],
+          winnerScheduleId: winner.schedule.id,
+        });
+      }
+    }
+  }
+
+  return [...conflicts.values()].sort((a, b) => a.at - b.at);
+}
@@ -1,5 +1,5 @@
 import { getDb } from './firebase.js';
-import type { Schedule } from '../types/index.js';
+import type { Schedule, ExecutionRecord, ExecutionOutcome, ActionRecord, ActionOutcome, VacationMode, ActiveTransition, ActiveClimate, SchedulerLease, TriggerState, DeviceReading, Scene, DeviceHold } from '../types/index.js';
 
 export interface DeviceGroup {
   id: string;
@@ -23,7 +23,11 @@ export async function getSchedule(userId: string, id: string): Promise<Schedule
 }
 
 export async function saveSchedule(userId: string, schedule: Schedule): Promise<void> {
-  await getDb().ref(`users/${userId}/schedules/${schedule.id}`).set(schedule);
+  // Registering the owner lets the scheduler's index start watching their schedules
+  await getDb().ref().update({
+    [`users/${userId}/schedules/${schedule.id}`]: schedule,
+    [`scheduleOwners/${userId}`]: true,
+  });
 }
 
 export async function deleteSchedule(userId: string, id: string): Promise<void> {
@@ -47,6 +51,27 @@ export async function deleteGroup(userId: string, id: string): Promise<void> {
   await getDb().ref(`users/${userId}/groups/${id}`).remove();
 }
 
+// ── Scenes ──
+
+export async function getScenes(userId: string): Promise<Scene[]> {
+  const snap = await getDb().ref(`users/${userId}/scenes`).once('value');
+  if (!snap.exists()) return [];
+  return Object.values(snap.val() as Record<string, Scene>);
+}
+
+export async function getScene(userId: string, id: string): Promise<Scene | null> {
+  const snap = await getDb().ref(`users/${userId}/scenes/${id}`).once('value');
+  return snap.exists() ? (snap.val() as Scene) : null;
+}
+
+export async function saveScene(userId: string, scene: Scene): Promise<void> {
+  await getDb().ref(`users/${userId}/scenes/${scene.id}`).set(scene);
+}
+
+export async function deleteScene(userId: string, id: string): Promise<void> {
+  await getDb().ref(`users/${userId}/scenes/${id}`).remove();
+}
+
 // ── Tuya Link ──
 
 export async function getTuyaLink(userId: string): Promise<string | null> {
@@ -62,23 +87,335 @@ export async function deleteTuyaLink(userId: string): Promise<void> {
   await getDb().ref(`users/${userId}/tuyaLink`).remove();
 }
 
-// ── Scheduler helper ──
+// ── Execution history ──
+
+export interface ExecutionQuery {
+  scheduleId?: string;
+  deviceId?: string;
+  outcome?: ExecutionOutcome | ActionOutcome;
+  before?: HistoryCursor; // exclusive
+  limit: number;
+}
+
+// Position in the newest-first history; id breaks ties between records that share a startedAt
+export interface HistoryCursor {
+  startedAt: number;
+  id?: string;
+}
+
+export async function saveExecution(userId: string, record: ExecutionRecord): Promise<void> {
+  await getDb().ref(`users/${userId}/history/${record.id}`).set(record);
+}
+
+/**
+ * Delete a user's execution records that started before the given time.
+ * Returns how many were removed.
+ */
+export async function deleteExecutionsBefore(userId: string, before: number): Promise<number> {
+  const ref = getDb().ref(`users/${userId}/history`);
+  const batchSize = 500;
+  let deleted = 0;
+
+  while (true) {
+    const snap = await ref.orderByChild('startedAt').endBefore(before).limitToFirst(batchSize).once('value');
+    if (!snap.exists()) break;
+
+    const ids = Object.keys(snap.val());
+    await ref.update(Object.fromEntries(ids.map(id => [id, null])));
+    deleted += ids.length;
+
+    if (ids.length < batchSize) break;
+  }
+
+  return deleted;
+}
+
+/**
+ * Every action record in a list, including scene devices and group members
+ */
+function flattenActions(actions: ActionRecord[] = []): ActionRecord[] {
+  return actions.flatMap(a => [a, ...flattenActions(a.sceneDevices), ...flattenActions(a.groupDevices)]);
+}
+
+/**
+ * Page through a user's execution history, newest first.
+ * With a deviceId filter, outcome matches that device's action outcome
+ * (wherever it ran: directly, in a scene or as a group member); otherwise
+ * it matches the overall execution outcome.
+ */
+export async function queryExecutions(userId: string, query: ExecutionQuery): Promise<{
+  records: ExecutionRecord[];
+  nextCursor: string | null;
+}> {
+  const matches = (r: ExecutionRecord): boolean => {
+    if (query.scheduleId && r.scheduleId !== query.scheduleId) return false;
+    if (query.deviceId) {
+      return flattenActions(r.actions).some(a =>
+        a.deviceId === query.deviceId && (!query.outcome || a.outcome === query.outcome)
+      );
+    }
+    return !query.outcome || r.outcome === query.outcome;
+  };
+
+  const records: ExecutionRecord[] = [];
+  const batchSize = Math.max(query.limit, 50);
+  let cursor = query.before;
+  let hasMore = false; // Older records exist past the cursor
+
+  // Filters are applied in memory, so keep fetching batches until the page is full
+  while (records.length < query.limit) {
+    let ref = getDb().ref(`users/${userId}/history`).orderByChild('startedAt');
+    if (cursor) ref = ref.endBefore(cursor.startedAt, cursor.id);
+    const snap = await ref.limitToLast(batchSize).once('value');
+    if (!snap.exists()) break;
 
-export async function getAllEnabledSchedules(): Promise<Schedule[]> {
+    // Same order as the database (startedAt, then key), reversed
+    const batch = Object.entries(snap.val() as Record<string, ExecutionRecord>)
+      .sort(([aId, a], [bId, b]) => b.startedAt - a.startedAt || (bId < aId ? -1 : bId > aId ? 1 : 0));
+
+    // A short batch is the oldest there is
+    hasMore = batch.length === batchSize;
+    for (const [index, [id, record]] of batch.entries()) {
+      cursor = { startedAt: record.startedAt, id };
+      if (matches(record)) {
+        records.push(record);
+        if (records.length === query.limit) {
+          hasMore ||= index < batch.length - 1;
+          break;
+        }
+      }
+    }
+
+    if (batch.length < batchSize) break;
+  }
+
+  return {
+    records,
+    nextCursor: records.length === query.limit && hasMore && cursor ? `${cursor.startedAt}:${cursor.id}` : null,
+  };
+}
+
+// ── Vacation mode ──
+// Stored under vacations/{uid} (not users/) so the scheduler can read them all cheaply
+
+export async function getVacation(userId: string): Promise<VacationMode | null> {
+  const snap = await getDb().ref(`vacations/${userId}`).once('value');
+  return snap.exists() ? (snap.val() as VacationMode) : null;
+}
+
+export async function getActiveVacations(): Promise<VacationMode[]> {
+  const snap = await getDb().ref('vacations').once('value');
+  if (!snap.exists()) return [];
+  return Object.values(snap.val() as Record<string, VacationMode>).filter(v => v.active);
+}
+
+export async function saveVacation(vacation: VacationMode): Promise<void> {
+  await getDb().ref(`vacations/${vacation.userId}`).set(vacation);
+}
+
+// ── Gradual transitions ──
+// Stored under transitions/{deviceId}: a device has at most one running transition
+
+export async function getTransitions(): Promise<ActiveTransition[]> {
+  const snap = await getDb().ref('transitions').once('value');
+  if (!snap.exists()) return [];
+  return Object.values(snap.val() as Record<string, ActiveTransition>);
+}
+
+export async function getTransition(deviceId: string): Promise<ActiveTransition | null> {
+  const snap = await getDb().ref(`transitions/${deviceId}`).once('value');
+  return snap.exists() ? (snap.val() as ActiveTransition) : null;
+}
+
+export async function saveTransition(transition: ActiveTransition): Promise<void> {
+  await getDb().ref(`transitions/${transition.deviceId}`).set(transition);
+}
+
+export async function deleteTransition(deviceId: string): Promise<void> {
+  await getDb().ref(`transitions/${deviceId}`).remove();
+}
+
+// ── Climate control ──
+// Stored under climate/{deviceId}: a device is held by at most one climate loop
+
+export async function getClimateLoops(): Promise<ActiveClimate[]> {
+  const snap = await getDb().ref('climate').once('value');
+  if (!snap.exists()) return [];
+  return Object.values(snap.val() as Record<string, ActiveClimate>);
+}
+
+export async function getClimateLoop(deviceId: string): Promise<ActiveClimate | null> {
+  const snap = await getDb().ref(`climate/${deviceId}`).once('value');
+  return snap.exists() ? (snap.val() as ActiveClimate) : null;
+}
+
+export async function saveClimateLoop(loop: ActiveClimate): Promise<void> {
+  await getDb().ref(`climate/${loop.deviceId}`).set(loop);
+}
+
+export async function deleteClimateLoop(deviceId: string): Promise<void> {
+  await getDb().ref(`climate/${deviceId}`).remove();
+}
+
+// ── Manual holds ──
+// Stored under users/{uid}/holds/{deviceId}
+
+export async function getHolds(userId: string): Promise<DeviceHold[]> {
+  const snap = await getDb().ref(`users/${userId}/holds`).once('value');
+  if (!snap.exists()) return [];
+  return Object.values(snap.val() as Record<string, DeviceHold>);
+}
+
+export async function getHold(userId: string, deviceId: string): Promise<DeviceHold | null> {
+  const snap = await getDb().ref(`users/${userId}/holds/${deviceId}`).once('value');
+  return snap.exists() ? (snap.val() as DeviceHold) : null;
+}
+
+export async function saveHold(hold: DeviceHold): Promise<void> {
+  await getDb().ref(`users/${hold.userId}/holds/${hold.deviceId}`).set(hold);
+}
+
+export async function deleteHold(userId: string, deviceId: string): Promise<void> {
+  await getDb().ref(`users/${userId}/holds/${deviceId}`).remove();
+}
+
+// ── Last device readings ──
+// Latest successful status read per device, for conditions that fall back to it
+
+export async function getLastReading(deviceId: string): Promise<DeviceReading | null> {
+  const snap = await getDb().ref(`lastReadings/${deviceId}`).once('value');
+  return snap.exists() ? (snap.val() as DeviceReading) : null;
+}
+
+export async function saveLastReading(deviceId: string, reading: DeviceReading): Promise<void> {
+  await getDb().ref(`lastReadings/${deviceId}`).set(reading);
+}
+
+// ── Schedule index ──
+// Users with schedules are listed under scheduleOwners, so the scheduler can
+// watch just their schedules instead of reading the whole users tree
+
+export async function getScheduleOwners(): Promise<string[]> {
+  const snap = await getDb().ref('scheduleOwners').once('value');
+  return snap.exists() ? Object.keys(snap.val() as Record<string, true>) : [];
+}
+
+/**
+ * Register the owners of schedules saved before scheduleOwners existed.
+ * Reads the whole users tree, so it only runs while the list is empty.
+ */
+export async function backfillScheduleOwners(): Promise<string[]> {
   const snap = await getDb().ref('users').once('value');
   if (!snap.exists()) return [];
 
-  const allSchedules: Schedule[] = [];
   const users = snap.val() as Record<string, any>;
+  const owners = Object.keys(users).filter(userId => users[userId]?.schedules);
+  if (owners.length > 0) {
+    await getDb().ref('scheduleOwners').update(Object.fromEntries(owners.map(userId => [userId, true])));
+  }
+  return owners;
+}
 
-  for (const userData of Object.values(users)) {
-    if (!userData.schedules) continue;
-    for (const schedule of Object.values(userData.schedules) as Schedule[]) {
-      if (schedule.enabled) {
-        allSchedules.push(schedule);
-      }
+/**
+ * Watch the list of schedule owners (existing ones are reported first).
+ * Returns a function that stops watching.
+ */
+export function watchScheduleOwners(onAdded: (userId: string) => void, onRemoved: (userId: string) => void): () => void {
+  const ref = getDb().ref('scheduleOwners');
+  const added = ref.on('child_added', snap => onAdded(snap.key!));
+  const removed = ref.on('child_removed', snap => onRemoved(snap.key!));
+  return () => {
+    ref.off('child_added', added);
+    ref.off('child_removed', removed);
+  };
+}
+
+/**
+ * Watch one user's schedules (existing ones are reported first, then every
+ * change). Returns a function that stops watching.
+ */
+export function watchUserSchedules(
+  userId: string,
+  onChanged: (schedule: Schedule) => void,
+  onRemoved: (scheduleId: string) => void
+): () => void {
+  const ref = getDb().ref(`users/${userId}/schedules`);
+  const added = ref.on('child_added', snap => onChanged(snap.val() as Schedule));
+  const changed = ref.on('child_changed', snap => onChanged(snap.val() as Schedule));
+  const removed = ref.on('child_removed', snap => onRemoved(snap.key!));
+  return () => {
+    ref.off('child_added', added);
+    ref.off('child_changed', changed);
+    ref.off('child_removed', removed);
+  };
+}
+
+// ── Scheduler state ──
+
+export async function getLastTick(): Promise<number | null> {
+  const snap = await getDb().ref('scheduler/lastTick').once('value');
+  return snap.exists() ? (snap.val() as number) : null;
+}
+
+export async function saveLastTick(at: number): Promise<void> {
+  await getDb().ref('scheduler/lastTick').set(at);
+}
+
+export async function getExecutedOccurrences(): Promise<Record<string, number>> {
+  const snap = await getDb().ref('scheduler/executed').once('value');
+  return snap.exists() ? (snap.val() as Record<string, number>) : {};
+}
+
+export async function saveExecutedOccurrence(key: string, at: number): Promise<void> {
+  await getDb().ref(`scheduler/executed/${key}`).set(at);
+}
+
+export async function deleteExecutedOccurrences(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  const updates: Record<string, null> = {};
+  for (const key of keys) updates[key] = null;
+  await getDb().ref('scheduler/executed').update(updates);
+}
+
+// Trigger edge state, by scheduleId-triggerId
+
+export async function getTriggerStates(): Promise<Record<string, TriggerState>> {
+  const snap = await getDb().ref('scheduler/triggers').once('value');
+  return snap.exists() ? (snap.val() as Record<string, TriggerState>) : {};
+}
+
+export async function saveTriggerState(key: string, state: TriggerState): Promise<void> {
+  await getDb().ref(`scheduler/triggers/${key}`).set(state);
+}
+
+export async function deleteTriggerStates(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  const updates: Record<string, null> = {};
+  for (const key of keys) updates[key] = null;
+  await getDb().ref('scheduler/triggers').update(updates);
+}
+
+// Leader lease: only the holder runs the scheduler. Taken in a transaction
+// when free, expired or already ours, so two instances can't both win.
+
+export async function getLease(): Promise<SchedulerLease | null> {
+  const snap = await getDb().ref('scheduler/lease').once('value');
+  return snap.exists() ? (snap.val() as SchedulerLease) : null;
+}
+
+export async function tryAcquireLease(lease: SchedulerLease, now: number): Promise<boolean> {
+  const result = await getDb().ref('scheduler/lease').transaction((current: SchedulerLease | null) => {
+    if (current && current.holderId !== lease.holderId && current.expiresAt > now) {
+      return; // Held by another instance: abort
     }
-  }
+    return lease;
+  });
+  return result.committed;
+}
 
-  return allSchedules;
+export async function releaseLease(holderId: string): Promise<void> {
+  await getDb().ref('scheduler/lease').transaction((current: SchedulerLease | null) => {
+    if (current?.holderId !== holderId) return;
+    return null;
+  });
 }
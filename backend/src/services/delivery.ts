@@ -0,0 +1,148 @@
+/**
+ * Command delivery
+ * Sends Tuya commands with retries and exponential backoff, optionally
+ * reading the device status back afterwards and re-sending if the reported
+ * DP values don't match (IR devices behind a hub often miss commands)
+ */
+
+import { sendCommand, getDeviceStatus } from './tuya.js';
+import type { DeliveryOptions, Verification } from '../types/index.js';
+
+type TuyaCommand = { code: string; value: any };
+
+// Defaults for schedules that don't set their own delivery options
+const DEFAULT_RETRIES = Number(process.env.COMMAND_RETRIES ?? 2);
+const DEFAULT_VERIFY = process.env.VERIFY_COMMANDS === 'true';
+
+// First retry waits this long; each further retry doubles it
+const RETRY_BASE_DELAY_MS = Number(process.env.COMMAND_RETRY_DELAY_MS ?? 2000);
+
+// Time given to a device to apply a command before its status is read back
+const VERIFY_DELAY_MS = Number(process.env.VERIFY_DELAY_MS ?? 3000);
+
+/** Upper bound on retries a schedule may ask for */
+export const MAX_RETRIES = 5;
+
+export interface DeliveryResult {
+  success: boolean;
+  attempts: number;
+  verification?: Verification;
+  error?: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Compare a sent DP value with the reported one (JSON strings such as
+ * colour_data_v2 are compared by content)
+ */
+function valuesMatch(sent: unknown, reported: unknown): boolean {
+  const normalize = (value: unknown) => {
+    if (typeof value === 'string' && value.startsWith('{')) {
+      try {
+        return JSON.stringify(JSON.parse(value));
+      } catch {
+        return value;
+      }
+    }
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+    return String(value);
+  };
+  return normalize(sent) === normalize(reported);
+}
+
+/**
+ * Read the device status back and list the sent DPs it doesn't report as set.
+ * DPs the device doesn't report at all are ignored (e.g. the fallback switch
+ * codes sent to devices of unknown category). Returns null if unreadable.
+ */
+async function findMismatches(deviceId: string, commands: TuyaCommand[]): Promise<string[] | null> {
+  try {
+    const result = await getDeviceStatus(deviceId);
+    if (!result.success || !result.status) return null;
+
+    const status = result.status;
+    // Only the last value sent for each code counts (work_mode can appear twice)
+    const expected: Map<string, unknown> = new Map(commands.map(c => [c.code, c.value]));
+    const mismatches: string[] = [];
+    for (const [code, value] of expected) {
+      if (status[code] === undefined) continue;
+      if (!valuesMatch(value, status[code])) {
+        mismatches.push(`${code} is ${JSON.stringify(status[code])}, expected ${JSON.stringify(value)}`);
+      }
+    }
+    return mismatches;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a schedule's delivery options against the server defaults
+ */
+export function resolveDeliveryOptions(options?: DeliveryOptions): Required<DeliveryOptions> {
+  return {
+    retries: Math.min(Math.max(Math.round(options?.retries ?? DEFAULT_RETRIES), 0), MAX_RETRIES),
+    verify: options?.verify ?? DEFAULT_VERIFY,
+  };
+}
+
+/**
+ * Send commands to a device, retrying failed sends (and, with verification,
+ * sends the device didn't apply) up to the configured number of retries
+ */
+export async function deliverCommands(
+  deviceId: string,
+  commands: TuyaCommand[],
+  options?: DeliveryOptions
+): Promise<DeliveryResult> {
+  const { retries, verify } = resolveDeliveryOptions(options);
+  let error = 'Command failed';
+  let verification: Verification | undefined;
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (attempt > 1) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 2);
+      console.log(`[Delivery]   Retrying ${deviceId} in ${delay / 1000}s (attempt ${attempt}/${retries + 1}): ${error}`);
+      await sleep(delay);
+    }
+
+    try {
+      const result = await sendCommand(deviceId, commands);
+      if (!result.success) {
+        error = result.error || 'Command failed';
+        continue;
+      }
+    } catch (err) {
+      error = (err as Error).message;
+      continue;
+    }
+
+    if (!verify) {
+      return { success: true, attempts: attempt };
+    }
+
+    await sleep(VERIFY_DELAY_MS);
+    const mismatches = await findMismatches(deviceId, commands);
+
+    if (mismatches === null) {
+      // Delivered but can't be confirmed; re-sending wouldn't tell us more
+      return { success: true, attempts: attempt, verification: 'unreadable' };
+    }
+    if (mismatches.length === 0) {
+      return { success: true, attempts: attempt, verification: 'verified' };
+    }
+
+    verification = 'mismatch';
+    error = `Device didn't apply the command: ${mismatches.join(', ')}`;
+  }
+
+  return {
+    success: false,
+    attempts: retries + 1,
+    ...(verification && { verification }),
+    error,
+  };
+}
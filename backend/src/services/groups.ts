@@ -0,0 +1,144 @@
+/**
+ * Group Actions
+ * A schedule action can target a device group instead of a device. The
+ * group's members are looked up each time the action runs, so editing the
+ * group changes what its schedules control, and each member is sent the
+ * commands for its own Tuya category.
+ */
+
+import { getGroups } from './db.js';
+import type { DeviceGroup } from './db.js';
+import { getDeviceInfo } from './tuya.js';
+import type { DeviceClaim } from './scheduler.js';
+import type { DeviceAction, DeviceCommand } from '../types/index.js';
+
+// Member names and categories barely change, so they're re-read hourly
+const MEMBER_INFO_TTL_MS = 60 * 60 * 1000;
+
+// Tuya categories that support more than switching
+const LIGHT_CATEGORIES = ['dj', 'dd', 'fwd', 'dc', 'xdd'];
+const CLIMATE_CATEGORIES = ['kt', 'qt', 'wnykq', 'wk', 'infrared_ac'];
+const FAN_CATEGORIES = ['fs', 'kt', 'qt', 'wnykq', 'infrared_ac'];
+
+const memberInfo: Map<string, { name: string; category?: string; fetchedAt: number }> = new Map();
+
+/**
+ * Look up a member's name and category (the last known ones, or its id,
+ * if Tuya can't be reached)
+ */
+async function getMemberInfo(deviceId: string): Promise<{ name: string; category?: string }> {
+  const cached = memberInfo.get(deviceId);
+  if (cached && Date.now() - cached.fetchedAt < MEMBER_INFO_TTL_MS) return cached;
+
+  try {
+    const result = await getDeviceInfo(deviceId);
+    if (result.success && result.device) {
+      const info = {
+        name: result.device.name || deviceId,
+        ...(result.device.category && { category: result.device.category as string }),
+        fetchedAt: Date.now(),
+      };
+      memberInfo.set(deviceId, info);
+      return info;
+    }
+  } catch (error) {
+    console.error(`[Groups] Failed to look up ${deviceId}:`, error);
+  }
+  return cached ?? { name: deviceId };
+}
+
+/**
+ * The categories a command needs (null: any device can take it)
+ */
+function getCommandCategories(command: DeviceCommand): string[] | null {
+  switch (command.type) {
+    case 'Brightness':
+    case 'ColorTemperature':
+    case 'ColorRGB':
+    case 'TuyaLight':
+    case 'GradualBrightness':
+      return LIGHT_CATEGORIES;
+    case 'Thermostat':
+    case 'TuyaAC':
+    case 'Climate':
+      return CLIMATE_CATEGORIES;
+    case 'FanSpeed':
+      return FAN_CATEGORIES;
+    case 'Ramp':
+      if (command.target === 'acTemperature') return CLIMATE_CATEGORIES;
+      return command.target === 'fanSpeed' ? FAN_CATEGORIES : LIGHT_CATEGORIES;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Translate a group's command for one member: a member that can't take it
+ * (e.g. a plug in a group of lights given a brightness) is just switched on,
+ * or off for a thermostat "off". Members of unknown category get it as is.
+ */
+function commandForMember(command: DeviceCommand, category?: string): DeviceCommand {
+  const categories = getCommandCategories(command);
+  if (!categories || !category || categories.includes(category)) return command;
+  return { type: 'OnOff', on: !(command.type === 'Thermostat' && command.mode === 'off') };
+}
+
+/**
+ * One action per member of a group, with the command each will be sent
+ */
+async function getMemberActions(group: DeviceGroup, action: DeviceAction): Promise<DeviceAction[]> {
+  const members: DeviceAction[] = [];
+  for (const deviceId of group.deviceIds || []) {
+    const info = await getMemberInfo(deviceId);
+    members.push({
+      deviceId,
+      deviceName: info.name,
+      ...(info.category && { deviceCategory: info.category }),
+      command: commandForMember(action.command, info.category),
+    });
+  }
+  return members;
+}
+
+/**
+ * Expand a group action into one action per current member of the group
+ * (null if the group no longer exists). The group action's condition has
+ * already been checked, so members don't carry it.
+ */
+export async function expandGroupAction(userId: string, action: DeviceAction): Promise<DeviceAction[] | null> {
+  const group = (await getGroups(userId)).find(g => g.id === action.groupId);
+  return group ? getMemberActions(group, action) : null;
+}
+
+/**
+ * Expand claims made by group actions into a claim per current member, so
+ * priorities and conflicts are settled per device. Each owner's groups are
+ * read once; claims of a group that's gone (or unreadable) are dropped.
+ */
+export async function expandGroupClaims(claims: DeviceClaim[]): Promise<DeviceClaim[]> {
+  const owners = new Set(claims.filter(claim => claim.action.groupId).map(claim => claim.schedule.userId));
+  if (owners.size === 0) return claims;
+
+  const groupsByOwner: Map<string, DeviceGroup[]> = new Map();
+  for (const userId of owners) {
+    try {
+      groupsByOwner.set(userId, await getGroups(userId));
+    } catch (error) {
+      console.error(`[Groups] Failed to read groups of ${userId}:`, error);
+    }
+  }
+
+  const expanded: DeviceClaim[] = [];
+  for (const claim of claims) {
+    if (!claim.action.groupId) {
+      expanded.push(claim);
+      continue;
+    }
+    const group = groupsByOwner.get(claim.schedule.userId)?.find(g => g.id === claim.action.groupId);
+    if (!group) continue;
+    for (const action of await getMemberActions(group, claim.action)) {
+      expanded.push({ ...claim, action });
+    }
+  }
+  return expanded;
+}
@@ -0,0 +1,117 @@
+/**
+ * Manual Holds
+ * When someone controls a device by hand, a hold stops automation from
+ * undoing it: held devices are skipped by time slots and triggers, running
+ * ramps on them stop and climate loops pause. A hold lasts until the next
+ * time slot actually changes the device (vacation events don't count), for a
+ * number of hours, or until it's cleared.
+ */
+
+import { getHolds, getHold, saveHold, deleteHold } from './db.js';
+import type { DeviceHold, HoldMode } from '../types/index.js';
+
+export const HOLD_MODES: HoldMode[] = ['next_slot', 'duration', 'until_cleared'];
+export const MAX_HOLD_HOURS = 72;
+
+// What a manual command asks for (false: no hold)
+export type HoldRequest = { mode: HoldMode; hours?: number } | false;
+
+const DEFAULT_HOLD: HoldRequest = { mode: 'next_slot' };
+
+/**
+ * Validate a hold request from a request body (undefined means the default
+ * next-slot hold), returning an error message if invalid
+ */
+export function parseHoldRequest(raw: unknown): { hold: HoldRequest } | { error: string } {
+  if (raw === undefined) return { hold: DEFAULT_HOLD };
+  if (raw === false) return { hold: false };
+
+  const request = raw as { mode?: HoldMode; hours?: number };
+  if (!request || !HOLD_MODES.includes(request.mode as HoldMode)) {
+    return { error: `hold.mode must be one of ${HOLD_MODES.join(', ')}` };
+  }
+  if (request.mode === 'duration') {
+    if (typeof request.hours !== 'number' || request.hours <= 0 || request.hours > MAX_HOLD_HOURS) {
+      return { error: `hold.hours must be more than 0 and at most ${MAX_HOLD_HOURS}` };
+    }
+    return { hold: { mode: 'duration', hours: request.hours } };
+  }
+  return { hold: { mode: request.mode as HoldMode } };
+}
+
+/**
+ * Whether a hold still applies (duration holds run out)
+ */
+export function isHoldActive(hold: DeviceHold, now: number): boolean {
+  return hold.mode !== 'duration' || (hold.until ?? 0) > now;
+}
+
+/**
+ * Put a device on hold, replacing any hold it already has
+ */
+export async function placeHold(userId: string, deviceId: string, request: HoldRequest): Promise<DeviceHold | null> {
+  if (!request) return null;
+
+  const now = Date.now();
+  const hold: DeviceHold = {
+    deviceId,
+    userId,
+    mode: request.mode,
+    setAt: now,
+    ...(request.mode === 'duration' && { until: now + (request.hours ?? 1) * 60 * 60 * 1000 }),
+  };
+  await saveHold(hold);
+  const length = request.mode === 'duration' ? `for ${request.hours}h` : request.mode === 'next_slot' ? 'until its next slot' : 'until cleared';
+  console.log(`[Holds] ${deviceId} held ${length}`);
+  return hold;
+}
+
+/**
+ * Hold a device after a manual command went through (a failed hold doesn't
+ * fail the command)
+ */
+export async function holdAfterManualCommand(userId: string, deviceId: string, request: HoldRequest): Promise<DeviceHold | null> {
+  try {
+    return await placeHold(userId, deviceId, request);
+  } catch (error) {
+    console.error(`[Holds] Failed to hold ${deviceId} after manual command:`, error);
+    return null;
+  }
+}
+
+/**
+ * Clear a device's hold
+ */
+export async function releaseHold(userId: string, deviceId: string): Promise<void> {
+  await deleteHold(userId, deviceId);
+  console.log(`[Holds] Released ${deviceId}`);
+}
+
+/**
+ * A user's holds that still apply, by device (expired ones are cleaned up)
+ */
+export async function getActiveHolds(userId: string, now = Date.now()): Promise<Map<string, DeviceHold>> {
+  const active: Map<string, DeviceHold> = new Map();
+  for (const hold of await getHolds(userId)) {
+    if (isHoldActive(hold, now)) {
+      active.set(hold.deviceId, hold);
+    } else {
+      deleteHold(userId, hold.deviceId).catch(() => {});
+    }
+  }
+  return active;
+}
+
+/**
+ * Whether a device is on hold right now (read failures count as not held,
+ * so a database hiccup doesn't stall automation)
+ */
+export async function isDeviceHeld(userId: string, deviceId: string, now = Date.now()): Promise<boolean> {
+  try {
+    const hold = await getHold(userId, deviceId);
+    return hold != null && isHoldActive(hold, now);
+  } catch (error) {
+    console.error(`[Holds] Failed to read hold for ${deviceId}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Slot jitter
+ * Random per-day offsets for slots with jitterMinutes. The offset is derived
+ * from a hash of the schedule, slot and date, so it is picked once per day and
+ * stays the same on every tick and across restarts without being stored.
+ */
+
+/** Largest jitter window a slot may ask for (± minutes) */
+export const MAX_JITTER_MINUTES = 120;
+
+/**
+ * 32-bit FNV-1a hash with a final avalanche step so similar keys spread evenly
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Get a slot's offset in whole minutes (within ±jitterMinutes) on a local date
+ */
+export function getJitterOffset(scheduleId: string, slotId: string, date: string, jitterMinutes?: number): number {
+  const range = Math.min(Math.round(jitterMinutes || 0), MAX_JITTER_MINUTES);
+  if (range <= 0) return 0;
+  return (hashString(`${scheduleId}|${slotId}|${date}`) % (2 * range + 1)) - range;
+}
@@ -0,0 +1,146 @@
+/**
+ * Leader Election
+ * Several backend instances can run at once (replicas, overlapping deploys),
+ * but only one may execute schedules, triggers and vacation events. Instances
+ * compete for a lease in the database; the holder renews it with a heartbeat
+ * and another instance takes over once it expires.
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { getLease, tryAcquireLease, releaseLease } from './db.js';
+import type { SchedulerLease } from '../types/index.js';
+
+// A lease not renewed within this time can be taken over
+const LEASE_TTL_MS = Number(process.env.LEASE_TTL_SECONDS ?? 45) * 1000;
+
+// How often the holder renews (and others retry)
+const HEARTBEAT_MS = Math.max(1000, Math.floor(LEASE_TTL_MS / 3));
+
+// Names the instance in logs and status; the platform's replica id when it
+// provides one
+export const INSTANCE_ID = process.env.INSTANCE_ID
+  || process.env.RAILWAY_REPLICA_ID
+  || hostname();
+
+// Who holds the lease: unique to this process, so two processes that share
+// an INSTANCE_ID (a service-wide variable, an overlapping deploy of the same
+// replica) can't both renew it. A restarted process waits for the old lease
+// to be released or to expire.
+const HOLDER_ID = `${INSTANCE_ID}-${randomUUID()}`;
+
+let leader = false;
+let leaseExpiresAt = 0;
+let acquiredAt = 0;
+let heartbeat: NodeJS.Timeout | null = null;
+
+type LeadershipListener = (isLeader: boolean) => void | Promise<void>;
+const listeners: LeadershipListener[] = [];
+
+/**
+ * Whether this instance currently holds the lease
+ */
+export function isLeader(): boolean {
+  // Without a successful renewal we can't be sure nobody else has taken over
+  return leader && Date.now() < leaseExpiresAt;
+}
+
+/**
+ * Be told when this instance gains or loses the lease
+ */
+export function onLeadershipChange(listener: LeadershipListener): void {
+  listeners.push(listener);
+}
+
+async function setLeader(value: boolean): Promise<void> {
+  if (leader === value) return;
+  leader = value;
+  console.log(`[Leader] ${HOLDER_ID} ${value ? 'acquired' : 'lost'} the scheduler lease`);
+
+  for (const listener of listeners) {
+    try {
+      await listener(value);
+    } catch (error) {
+      console.error('[Leader] Leadership listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Acquire or renew the lease
+ */
+async function renew(): Promise<void> {
+  const now = Date.now();
+  if (!leader) acquiredAt = now;
+
+  const lease: SchedulerLease = {
+    holderId: HOLDER_ID,
+    hostname: hostname(),
+    pid: process.pid,
+    acquiredAt,
+    heartbeatAt: now,
+    expiresAt: now + LEASE_TTL_MS,
+  };
+
+  try {
+    const held = await tryAcquireLease(lease, now);
+    if (held) leaseExpiresAt = lease.expiresAt;
+    await setLeader(held);
+  } catch (error) {
+    console.error('[Leader] Failed to renew lease:', error);
+    // Keep leading until our last lease runs out, then step down
+    if (leader && now >= leaseExpiresAt) {
+      await setLeader(false);
+    }
+  }
+}
+
+/**
+ * Start competing for the lease (renews every TTL/3)
+ */
+export async function startLeaderElection(): Promise<void> {
+  console.log(`[Leader] Instance ${HOLDER_ID} joining leader election (lease ${LEASE_TTL_MS / 1000}s)`);
+
+  await renew();
+  heartbeat = setInterval(() => {
+    renew();
+  }, HEARTBEAT_MS);
+}
+
+/**
+ * Give the lease up (on shutdown) so another instance can take over at once
+ */
+export async function stopLeaderElection(): Promise<void> {
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+  if (!leader) return;
+
+  try {
+    await releaseLease(HOLDER_ID);
+  } catch (error) {
+    console.error('[Leader] Failed to release lease:', error);
+  }
+  await setLeader(false);
+}
+
+/**
+ * Current lease and this instance's view of it
+ */
+export async function getLeaderStatus(): Promise<{
+  instanceId: string;
+  holderId: string;
+  isLeader: boolean;
+  lease: SchedulerLease | null;
+  leaseExpired: boolean;
+}> {
+  const lease = await getLease();
+  return {
+    instanceId: INSTANCE_ID,
+    holderId: HOLDER_ID,
+    isLeader: isLeader(),
+    lease,
+    leaseExpired: !lease || lease.expiresAt <= Date.now(),
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Schedule Index
+ * Keeps every enabled schedule in memory, kept current by database child
+ * listeners, so the scheduler and trigger engine never download the users
+ * tree. Slots are also indexed by the local minute of the week they can fall
+ * due at, so each check only looks at schedules with something due.
+ */
+
+import { getScheduleOwners, backfillScheduleOwners, watchScheduleOwners, watchUserSchedules, getSchedules } from './db.js';
+import { resolveTimeZone, getZonedTime, parseTime } from './timezone.js';
+import { MAX_JITTER_MINUTES } from './jitter.js';
+import type { Schedule, DayOfWeek } from '../types/index.js';
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_IN_DAY = 24 * 60;
+const MINUTES_IN_WEEK = 7 * MINUTES_IN_DAY;
+
+// Longest wall-clock jump (DST) whose skipped minutes still count as covered
+const MAX_CLOCK_JUMP_MINUTES = 3 * 60;
+
+const DAY_INDEX: Record<DayOfWeek, number> = {
+  monday: 0,
+  tuesday: 1,
+  wednesday: 2,
+  thursday: 3,
+  friday: 4,
+  saturday: 5,
+  sunday: 6,
+};
+
+interface IndexEntry {
+  schedule: Schedule;
+  timeZone: string;
+  minutes: number[];  // Local minutes of the week a start or end can fall on
+  dynamic: boolean;   // Has sun-relative or cycling slots, checked every time
+}
+
+// Enabled schedules by id
+const entries: Map<string, IndexEntry> = new Map();
+
+// timezone → local minute of the week → ids of schedules with a slot then
+const byMinute: Map<string, Map<number, Set<string>>> = new Map();
+
+// Schedules that are checked every time (sun-relative or cycling slots)
+const dynamicIds: Set<string> = new Set();
+
+// Schedule listeners per owner
+const watchers: Map<string, () => void> = new Map();
+
+// Schedule ids per owner, to drop them when the owner goes
+const ownedIds: Map<string, Set<string>> = new Map();
+
+let started: Promise<void> | null = null;
+let watchingOwners = false;
+
+/**
+ * Local minutes of the week at which a schedule's slots can start or end,
+ * widened by their jitter window. Sun-relative slots make it dynamic, and so
+ * do cycling slots, whose cycles run on elapsed time across DST changes.
+ */
+function getSlotMinutes(schedule: Schedule): { minutes: number[]; dynamic: boolean } {
+  // Extra dates can fall on any day of the week
+  const days = schedule.extraDates?.length
+    ? Object.values(DAY_INDEX)
+    : (schedule.daysOfWeek || []).map(day => DAY_INDEX[day]).filter(day => day != null);
+
+  const minutes: Set<number> = new Set();
+  let dynamic = false;
+
+  const add = (minute: number, jitter: number) => {
+    for (let offset = -jitter; offset <= jitter; offset++) {
+      minutes.add((((minute + offset) % MINUTES_IN_WEEK) + MINUTES_IN_WEEK) % MINUTES_IN_WEEK);
+    }
+  };
+
+  for (const slot of schedule.timeSlots || []) {
+    if (slot.solar || slot.cycle) {
+      dynamic = true;
+      continue;
+    }
+
+    const jitter = Math.min(Math.round(slot.jitterMinutes || 0), MAX_JITTER_MINUTES);
+    const start = parseTime(slot.startTime);
+    const end = slot.endTime ? parseTime(slot.endTime) : null;
+
+    for (const day of days) {
+      add(day * MINUTES_IN_DAY + start, jitter);
+      if (end !== null) {
+        // Ranges ending earlier than they start end the next day
+        add((end <= start ? day + 1 : day) * MINUTES_IN_DAY + end, jitter);
+      }
+    }
+  }
+
+  return { minutes: [...minutes], dynamic };
+}
+
+/**
+ * Local minutes of the week covered by (from, to] in a zone. Minutes skipped
+ * by a DST jump count as covered, since slots in the gap fire just after it.
+ */
+function getWindowMinutes(from: number, to: number, timeZone: string): Set<number> {
+  const covered: Set<number> = new Set();
+  let previous: number | null = null;
+
+  for (let instant = Math.floor(from / MINUTE_MS) * MINUTE_MS + MINUTE_MS; instant <= to; instant += MINUTE_MS) {
+    const zoned = getZonedTime(instant, timeZone);
+    const minute = DAY_INDEX[zoned.day] * MINUTES_IN_DAY + zoned.minutes;
+
+    if (previous !== null) {
+      const step = (minute - previous + MINUTES_IN_WEEK) % MINUTES_IN_WEEK;
+      if (step > 1 && step <= MAX_CLOCK_JUMP_MINUTES) {
+        for (let skipped = 1; skipped < step; skipped++) {
+          covered.add((previous + skipped) % MINUTES_IN_WEEK);
+        }
+      }
+    }
+    covered.add(minute);
+    previous = minute;
+  }
+
+  return covered;
+}
+
+function removeSchedule(scheduleId: string): void {
+  const entry = entries.get(scheduleId);
+  if (!entry) return;
+
+  const zoneIndex = byMinute.get(entry.timeZone);
+  for (const minute of entry.minutes) {
+    const ids = zoneIndex?.get(minute);
+    ids?.delete(scheduleId);
+    if (ids && ids.size === 0) zoneIndex!.delete(minute);
+  }
+  dynamicIds.delete(scheduleId);
+  entries.delete(scheduleId);
+}
+
+function upsertSchedule(userId: string, schedule: Schedule): void {
+  if (!schedule?.id) return;
+  removeSchedule(schedule.id);
+
+  const owned = ownedIds.get(userId) || new Set();
+  owned.add(schedule.id);
+  ownedIds.set(userId, owned);
+
+  // Disabled schedules never run, so they aren't indexed
+  if (!schedule.enabled) return;
+
+  const timeZone = resolveTimeZone(schedule.timezone);
+  const { minutes, dynamic } = getSlotMinutes(schedule);
+  entries.set(schedule.id, { schedule, timeZone, minutes, dynamic });
+
+  const zoneIndex = byMinute.get(timeZone) || new Map<number, Set<string>>();
+  for (const minute of minutes) {
+    const ids = zoneIndex.get(minute) || new Set();
+    ids.add(schedule.id);
+    zoneIndex.set(minute, ids);
+  }
+  byMinute.set(timeZone, zoneIndex);
+  if (dynamic) dynamicIds.add(schedule.id);
+}
+
+function watchOwner(userId: string): void {
+  if (watchers.has(userId)) return;
+  watchers.set(userId, watchUserSchedules(
+    userId,
+    schedule => upsertSchedule(userId, schedule),
+    scheduleId => {
+      removeSchedule(scheduleId);
+      ownedIds.get(userId)?.delete(scheduleId);
+    }
+  ));
+}
+
+function unwatchOwner(userId: string): void {
+  watchers.get(userId)?.();
+  watchers.delete(userId);
+  for (const scheduleId of ownedIds.get(userId) || []) {
+    removeSchedule(scheduleId);
+  }
+  ownedIds.delete(userId);
+}
+
+/**
+ * Start watching every owner's schedules. Resolves once the initial
+ * schedules are loaded; later changes arrive through the listeners. Safe to
+ * call repeatedly; a failed start is retried on the next call.
+ */
+export function startScheduleIndex(): Promise<void> {
+  if (!started) {
+    started = (async () => {
+      // One-off migration for databases from before scheduleOwners
+      let owners = await getScheduleOwners();
+      if (owners.length === 0) {
+        owners = await backfillScheduleOwners();
+      }
+
+      if (!watchingOwners) {
+        watchScheduleOwners(watchOwner, unwatchOwner);
+        watchingOwners = true;
+      }
+
+      // Child events for existing data arrive before these reads resolve
+      await Promise.all(owners.map(userId => {
+        watchOwner(userId);
+        return getSchedules(userId);
+      }));
+
+      console.log(`[Index] Watching ${entries.size} enabled schedules of ${watchers.size} users`);
+    })().catch(error => {
+      started = null;
+      throw error;
+    });
+  }
+  return started;
+}
+
+/**
+ * All enabled schedules
+ */
+export function getIndexedSchedules(): Schedule[] {
+  return [...entries.values()].map(entry => entry.schedule);
+}
+
+/**
+ * An enabled schedule by id
+ */
+export function getIndexedSchedule(scheduleId: string): Schedule | null {
+  return entries.get(scheduleId)?.schedule ?? null;
+}
+
+/**
+ * Enabled schedules that may have a slot start or end within (from, to]:
+ * those indexed at a local minute the window covers, plus those with
+ * sun-relative or cycling slots. The caller still works out exactly what is
+ * due.
+ */
+export function getCandidateSchedules(from: number, to: number): Schedule[] {
+  const ids: Set<string> = new Set(dynamicIds);
+
+  for (const [timeZone, zoneIndex] of byMinute) {
+    for (const minute of getWindowMinutes(from, to, timeZone)) {
+      for (const id of zoneIndex.get(minute) || []) ids.add(id);
+    }
+  }
+
+  return [...ids].map(id => entries.get(id)!.schedule);
+}
@@ -1,66 +1,320 @@
-import { sendCommand, getDeviceStatus } from './tuya.js';
-import { getAllEnabledSchedules, getSchedule as dbGetSchedule } from './db.js';
-import type { Schedule, TimeSlot, DayOfWeek, DeviceCommand, ActionCondition } from '../types/index.js';
+import {
+  getSchedule as dbGetSchedule,
+  getLastTick,
+  saveLastTick,
+  getExecutedOccurrences,
+  saveExecutedOccurrence,
+  deleteExecutedOccurrences,
+  saveExecution,
+  deleteExecutionsBefore,
+  getActiveVacations,
+  getScene,
+} from './db.js';
+import type {
+  Schedule,
+  TimeSlot,
+  DeviceAction,
+  DeviceCommand,
+  DeliveryOptions,
+  DeviceHold,
+  Scene,
+  ActionRecord,
+  ExecutionRecord,
+  ExecutionOutcome,
+  ExecutionSource,
+  SlotPhase,
+  PreviewEntry,
+} from '../types/index.js';
+import { resolveTimeZone, getZonedTime, zonedTimeToInstant, parseTime, addDays, DEFAULT_TIMEZONE } from './timezone.js';
+import { getSolarEventMinutes } from './solar.js';
+import { isScheduleActiveOn } from './calendar.js';
+import { getJitterOffset } from './jitter.js';
+import { deliverCommands } from './delivery.js';
+import { checkCondition, describeCondition } from './conditions.js';
+import { startTransition, cancelTransition, resumeTransitions, suspendTransitions, toRamp } from './transitions.js';
+import { startClimate, cancelClimate, stopSlotClimate, resumeClimate, suspendClimate } from './climate.js';
+import { getActiveHolds, releaseHold } from './holds.js';
+import { expandGroupAction, expandGroupClaims } from './groups.js';
+import { isLeader, onLeadershipChange } from './leader.js';
+import { startScheduleIndex, getIndexedSchedules, getIndexedSchedule, getCandidateSchedules } from './scheduleIndex.js';
 
-// Track last execution to prevent duplicate runs
-const lastExecutionTimes: Map<string, number> = new Map();
+// Track executed slot occurrences (scheduleId-slotId-localDate) to prevent duplicate runs.
+// Mirrored to the database so restarts never re-run a slot.
+const executedOccurrences: Map<string, number> = new Map();
 
-// Active gradual transitions (deviceId → interval timer)
-const activeTransitions: Map<string, NodeJS.Timeout> = new Map();
+// End of the window covered by the previous check (persisted as scheduler/lastTick)
+let lastCheckAt: number | null = null;
 
-// Day mapping
-const DAY_MAP: Record<number, DayOfWeek> = {
-  0: 'sunday',
-  1: 'monday',
-  2: 'tuesday',
-  3: 'wednesday',
-  4: 'thursday',
-  5: 'friday',
-  6: 'saturday'
-};
+// Guard against overlapping checks when a tick runs long
+let checking = false;
+
+// Missed slots older than this are never caught up, whatever the schedule says
+const MAX_CATCH_UP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Default max age (minutes) for catching up a missed slot
+const DEFAULT_CATCH_UP_MINUTES = Number(process.env.DEFAULT_CATCH_UP_MINUTES ?? 15);
+
+// A slot executed later than this after its due time counts as "missed"
+const ON_TIME_TOLERANCE_MS = 2 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+// Execution history older than this many days is pruned
+const HISTORY_RETENTION_MS = Number(process.env.HISTORY_RETENTION_DAYS ?? 30) * 24 * 60 * 60 * 1000;
+
+// Each user's history is pruned at most this often (when a record is saved)
+const HISTORY_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const historyPrunedAt: Map<string, number> = new Map();
+
+// Longest on or off period of a cycling slot
+export const MAX_CYCLE_MINUTES = 12 * 60;
+
+export interface DueSlot {
+  slot: TimeSlot;
+  phase: SlotPhase;
+  date: string;   // local date the slot starts on (YYYY-MM-DD)
+  at: number;     // UTC instant the slot (or its end) falls due
+  cycle?: number; // which on/off cycle of a cycling slot
+}
 
 /**
- * Get current time in HH:MM format
+ * Resolve a slot's start time (minutes since local midnight) on a local date.
+ * Solar slots are computed from the schedule's location, and an offset can
+ * take them past midnight (below 0 or past 24:00, i.e. the previous or next
+ * day); returns null if the solar event doesn't occur that day (polar regions).
  */
-function getCurrentTime(): string {
-  const now = new Date();
-  const hours = now.getHours().toString().padStart(2, '0');
-  const minutes = now.getMinutes().toString().padStart(2, '0');
-  return `${hours}:${minutes}`;
+function getSlotStartMinutes(slot: TimeSlot, schedule: Schedule, date: string, timeZone: string): number | null {
+  if (slot.solar && schedule.location) {
+    const eventMinutes = getSolarEventMinutes(date, slot.solar.event, schedule.location, timeZone);
+    if (eventMinutes === null) return null;
+    return eventMinutes + (slot.solar.offsetMinutes || 0);
+  }
+  return parseTime(slot.startTime);
+}
+
+export interface SlotTimes {
+  start: number; // UTC instant the slot fires on its local date
+  end?: number;  // UTC instant its end actions fire (slots with an endTime)
 }
 
 /**
- * Get current day of week
+ * Resolve when a slot actually fires on a local date: solar times, the
+ * endTime (next day when the range crosses midnight) and the day's jitter
+ * offset, which shifts the whole range. Returns null if it doesn't fire.
  */
-function getCurrentDay(): DayOfWeek {
-  return DAY_MAP[new Date().getDay()];
+export function getSlotTimes(schedule: Schedule, slot: TimeSlot, date: string): SlotTimes | null {
+  const timeZone = resolveTimeZone(schedule.timezone);
+  const minutes = getSlotStartMinutes(slot, schedule, date, timeZone);
+  if (minutes === null) return null;
+
+  const offset = getJitterOffset(schedule.id, slot.id, date, slot.jitterMinutes) * MINUTE_MS;
+  const times: SlotTimes = { start: zonedTimeToInstant(date, minutes, timeZone) + offset };
+
+  if (slot.endTime) {
+    // On the day the slot starts, or the next when the range crosses midnight
+    const dayMinutes = 24 * 60;
+    let endMinutes = Math.floor(minutes / dayMinutes) * dayMinutes + parseTime(slot.endTime);
+    if (endMinutes <= minutes) endMinutes += dayMinutes;
+    times.end = zonedTimeToInstant(date, endMinutes, timeZone) + offset;
+  }
+
+  return times;
+}
+
+/**
+ * A point at which a slot occurrence acts, and until when it holds the
+ * devices (for settling conflicts)
+ */
+export interface SlotTick {
+  phase: SlotPhase;
+  at: number;
+  until: number;
+  cycle?: number;
+}
+
+/**
+ * Get the points at which a slot occurrence acts: its start and end, or for
+ * a cycling slot each cycle's start and end within the window followed by
+ * the window's end (which takes over a cycle end that would fall after it)
+ */
+export function getSlotTicks(slot: TimeSlot, times: SlotTimes): SlotTick[] {
+  const onMs = (slot.cycle?.onMinutes ?? 0) * MINUTE_MS;
+  const periodMs = onMs + (slot.cycle?.offMinutes ?? 0) * MINUTE_MS;
+
+  if (times.end == null) {
+    return [{ phase: 'start', at: times.start, until: times.start + MINUTE_MS }];
+  }
+  if (!slot.cycle || onMs <= 0 || periodMs <= onMs) {
+    return [
+      { phase: 'start', at: times.start, until: times.end },
+      { phase: 'end', at: times.end, until: times.end + MINUTE_MS },
+    ];
+  }
+
+  const ticks: SlotTick[] = [];
+  for (let cycle = 0, on = times.start; on < times.end; cycle++, on += periodMs) {
+    const off = on + onMs;
+    ticks.push({ phase: 'start', at: on, until: Math.min(off, times.end), cycle });
+    if (off < times.end) ticks.push({ phase: 'end', at: off, until: off + MINUTE_MS, cycle });
+  }
+  ticks.push({ phase: 'end', at: times.end, until: times.end + MINUTE_MS });
+  return ticks;
 }
 
 /**
- * Check if a time slot should be executed now
+ * Find the time slots of a schedule that fall due within (from, to].
+ * Days and times are evaluated in the schedule's timezone. A slot with an
+ * endTime also falls due at its end, which is on the next day when the
+ * range crosses midnight, and a cycling slot at each of its cycles; active
+ * days only apply to the start.
  */
-function shouldExecuteSlot(slot: TimeSlot, schedule: Schedule): boolean {
-  const currentTime = getCurrentTime();
-  const currentDay = getCurrentDay();
+export function findDueSlots(schedule: Schedule, from: number, to: number): DueSlot[] {
+  const timeZone = resolveTimeZone(schedule.timezone);
+  // A day either side: ranges started yesterday can end inside the window,
+  // and jitter can move a slot across midnight
+  const lastDate = addDays(getZonedTime(to, timeZone).date, 1);
+  const due: DueSlot[] = [];
 
-  // Check if today is an active day
-  if (!schedule.daysOfWeek.includes(currentDay)) {
-    return false;
+  for (let date = addDays(getZonedTime(from, timeZone).date, -1); date <= lastDate; date = addDays(date, 1)) {
+    // Check if the schedule runs on this date
+    if (!isScheduleActiveOn(schedule, date)) continue;
+
+    for (const slot of schedule.timeSlots || []) {
+      const times = getSlotTimes(schedule, slot, date);
+      if (!times) continue;
+
+      for (const tick of getSlotTicks(slot, times)) {
+        if (tick.at > from && tick.at <= to) {
+          due.push({ slot, phase: tick.phase, date, at: tick.at, ...(tick.cycle != null && { cycle: tick.cycle }) });
+        }
+      }
+    }
   }
 
-  // Check if current time matches slot time
-  if (slot.startTime !== currentTime) {
-    return false;
+  return due.sort((a, b) => a.at - b.at);
+}
+
+function getOccurrenceKey(schedule: Schedule, due: DueSlot): string {
+  const base = `${schedule.id}-${due.slot.id}-${due.date}${due.cycle != null ? `-c${due.cycle}` : ''}`;
+  return due.phase === 'end' ? `${base}-end` : base;
+}
+
+/**
+ * Get the actions to run when a slot ends: its explicit endActions, or the
+ * inverse of its start actions (on → off, anything else that turns a device
+ * on → off, off → on)
+ */
+function getEndActions(slot: TimeSlot): DeviceAction[] {
+  if (slot.endActions && slot.endActions.length > 0) {
+    return slot.endActions;
   }
 
-  // Check if we already executed this slot recently (within last 2 minutes)
-  const executionKey = `${schedule.id}-${slot.id}`;
-  const lastExecution = lastExecutionTimes.get(executionKey);
-  if (lastExecution && Date.now() - lastExecution < 2 * 60 * 1000) {
-    return false;
+  return (slot.actions || []).map(action => ({
+    deviceId: action.deviceId,
+    deviceName: action.deviceName,
+    ...(action.deviceCategory && { deviceCategory: action.deviceCategory }),
+    ...(action.groupId && { groupId: action.groupId }),
+    command: action.command.type === 'Scene'
+      ? { ...action.command, deactivate: !action.command.deactivate }
+      : {
+          type: 'OnOff' as const,
+          on: action.command.type === 'OnOff' ? !action.command.on : false,
+        },
+  }));
+}
+
+/**
+ * Check if a due slot occurrence has not been executed yet
+ */
+function shouldExecuteSlot(schedule: Schedule, due: DueSlot): boolean {
+  return !executedOccurrences.has(getOccurrenceKey(schedule, due));
+}
+
+/**
+ * A device action of one slot occurrence and the time it holds the device
+ * for: the start actions of a slot with an end time until that end (or a
+ * cycle's end), everything else for its minute
+ */
+export interface DeviceClaim {
+  schedule: Schedule;
+  slotId: string;
+  phase: SlotPhase;
+  action: DeviceAction;
+  start: number;
+  end: number;
+}
+
+/**
+ * Get the device claims of a schedule that overlap [from, to)
+ */
+export function getDeviceClaims(schedule: Schedule, from: number, to: number): DeviceClaim[] {
+  const timeZone = resolveTimeZone(schedule.timezone);
+  const lastDate = addDays(getZonedTime(to, timeZone).date, 1);
+  const claims: DeviceClaim[] = [];
+
+  for (let date = addDays(getZonedTime(from, timeZone).date, -1); date <= lastDate; date = addDays(date, 1)) {
+    if (!isScheduleActiveOn(schedule, date)) continue;
+
+    for (const slot of schedule.timeSlots || []) {
+      const times = getSlotTimes(schedule, slot, date);
+      if (!times) continue;
+
+      for (const { phase, at: start, until: end } of getSlotTicks(slot, times)) {
+        if (start >= to || end <= from) continue;
+        for (const action of phase === 'end' ? getEndActions(slot) : slot.actions || []) {
+          claims.push({ schedule, slotId: slot.id, phase, action, start, end });
+        }
+      }
+    }
   }
 
-  return true;
+  return claims;
+}
+
+/**
+ * Whether two commands are the same (key order doesn't matter)
+ */
+export function isSameCommand(a: DeviceCommand, b: DeviceCommand): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, normalize((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+type ClaimRank = Pick<DeviceClaim, 'schedule' | 'start'>;
+
+/**
+ * Decide which of two conflicting claims wins: the higher-priority schedule,
+ * or for equal priorities in the same minute the schedule with the lower id,
+ * so the outcome never depends on execution order. Returns null for an
+ * equal-priority overlap, where each command simply applies in turn.
+ */
+export function getWinningClaim<A extends ClaimRank, B extends ClaimRank>(a: A, b: B): A | B | null {
+  const priorityA = a.schedule.priority ?? 0;
+  const priorityB = b.schedule.priority ?? 0;
+  if (priorityA !== priorityB) return priorityA > priorityB ? a : b;
+  if (Math.floor(a.start / MINUTE_MS) === Math.floor(b.start / MINUTE_MS)) {
+    return a.schedule.id < b.schedule.id ? a : b;
+  }
+  return null;
+}
+
+/**
+ * Find another schedule's claim that overrides an action due at a given time
+ */
+function findOverride(schedule: Schedule, action: DeviceAction, at: number, claims: DeviceClaim[]): DeviceClaim | undefined {
+  const own: ClaimRank = { schedule, start: at };
+  return claims.find(claim =>
+    claim.schedule.id !== schedule.id &&
+    claim.action.deviceId === action.deviceId &&
+    claim.start < at + MINUTE_MS && at < claim.end &&
+    !isSameCommand(claim.action.command, action.command) &&
+    getWinningClaim(own, claim) === claim
+  );
 }
 
 /**
@@ -135,7 +389,14 @@ function convertToTuyaCommands(command: DeviceCommand, deviceCategory?: string):
       return [{ code: 'fan', value: speed }];
     }
     case 'GradualBrightness':
-      // Handled specially in executeTimeSlot via startGradualTransition
+    case 'Ramp':
+      // Handled specially in executeActions via startTransition
+      return [];
+    case 'Climate':
+      // Handled specially in executeActions via startClimate
+      return [];
+    case 'Scene':
+      // Handled specially in executeActions via activateScene
       return [];
     default:
       console.warn('[Scheduler] Unknown command type:', (command as any).type);
@@ -179,236 +440,641 @@ function rgbToHsv(r: number, g: number, b: number): { h: number; s: number; v: n
 }
 
 /**
- * Check if a sensor condition is met
+ * Work out the overall outcome of a slot or trigger from its action outcomes
  */
-async function checkCondition(condition: ActionCondition): Promise<boolean> {
-  try {
-    const result = await getDeviceStatus(condition.sensorDeviceId);
-    if (!result.success || !result.status) {
-      console.log(`[Scheduler]   Could not read sensor ${condition.sensorDeviceId}, executing anyway`);
-      return true; // Fail open
-    }
-
-    let sensorValue: number | null = null;
-    if (condition.metric === 'temperature') {
-      const raw = result.status.va_temperature;
-      sensorValue = raw != null ? Number(raw) / 10 : null;
-    } else if (condition.metric === 'humidity') {
-      const raw = result.status.va_humidity;
-      sensorValue = raw != null ? Number(raw) : null;
-    }
-
-    if (sensorValue === null) {
-      console.log(`[Scheduler]   Sensor value not available, executing anyway`);
-      return true;
-    }
-
-    console.log(`[Scheduler]   Sensor ${condition.metric}: ${sensorValue} ${condition.operator} ${condition.value}`);
+export function summarizeOutcome(actions: ActionRecord[]): ExecutionOutcome {
+  const attempted = actions.filter(a => a.outcome !== 'skipped');
+  if (attempted.length === 0) return 'skipped';
+  const succeeded = attempted.filter(a => a.outcome === 'success').length;
+  if (succeeded === attempted.length) return 'success';
+  return succeeded > 0 ? 'partial' : 'failed';
+}
 
-    switch (condition.operator) {
-      case '>':  return sensorValue > condition.value;
-      case '<':  return sensorValue < condition.value;
-      case '>=': return sensorValue >= condition.value;
-      case '<=': return sensorValue <= condition.value;
-      default:   return true;
-    }
+/**
+ * Save an execution record (history is best-effort and never blocks execution)
+ */
+export async function recordExecution(record: ExecutionRecord): Promise<void> {
+  try {
+    await saveExecution(record.userId, record);
   } catch (error) {
-    console.error(`[Scheduler]   Error checking condition:`, error);
-    return true; // Fail open
+    console.error('[Scheduler] Failed to save execution record:', error);
   }
+  await pruneHistory(record.userId);
 }
 
 /**
- * Cancel any active gradual transition for a device
+ * Drop a user's execution records older than the retention period
  */
-function cancelTransition(deviceId: string): void {
-  const existing = activeTransitions.get(deviceId);
-  if (existing) {
-    clearInterval(existing);
-    activeTransitions.delete(deviceId);
-    console.log(`[Scheduler]   Cancelled active gradual transition for ${deviceId}`);
+async function pruneHistory(userId: string): Promise<void> {
+  const now = Date.now();
+  if (now - (historyPrunedAt.get(userId) ?? 0) < HISTORY_PRUNE_INTERVAL_MS) return;
+  historyPrunedAt.set(userId, now);
+
+  try {
+    const deleted = await deleteExecutionsBefore(userId, now - HISTORY_RETENTION_MS);
+    if (deleted > 0) {
+      console.log(`[Scheduler] Pruned ${deleted} execution record(s) older than the retention period for ${userId}`);
+    }
+  } catch (error) {
+    console.error('[Scheduler] Failed to prune execution history:', error);
   }
 }
 
 /**
- * Start a gradual brightness transition (stepped every 30s)
+ * Send an action's Tuya commands (with retries and optional read-back) and
+ * fill in its record
  */
-async function startGradualTransition(
+async function deliverAction(
   deviceId: string,
-  deviceName: string,
-  targetBrightness: number,
-  durationMinutes: number
+  tuyaCommands: Array<{ code: string; value: any }>,
+  record: ActionRecord,
+  delivery?: DeliveryOptions
 ): Promise<void> {
-  cancelTransition(deviceId);
+  if (tuyaCommands.length === 0) {
+    console.log(`[Scheduler]     ✗ No Tuya commands for this action type`);
+    record.outcome = 'skipped';
+    record.error = 'No Tuya commands for this action type';
+    return;
+  }
 
-  // Try to read current brightness
-  let currentBright = targetBrightness > 50 ? 0 : 100;
-  try {
-    const status = await getDeviceStatus(deviceId);
-    if (status.success && status.status) {
-      const raw = status.status.bright_value_v2;
-      if (raw != null) {
-        currentBright = Math.round(Number(raw) / 10);
-      }
-    }
-  } catch {
-    // Use default
+  console.log(`[Scheduler]     Tuya commands:`, tuyaCommands);
+  record.tuyaCommands = tuyaCommands;
+
+  const result = await deliverCommands(deviceId, tuyaCommands, delivery);
+  record.attempts = result.attempts;
+  if (result.verification) record.verification = result.verification;
+
+  if (result.success) {
+    console.log(`[Scheduler]     ✓ Success${result.attempts > 1 ? ` after ${result.attempts} attempts` : ''}${result.verification ? ` (${result.verification})` : ''}`);
+  } else {
+    console.log(`[Scheduler]     ✗ Failed: ${result.error}`);
+    record.outcome = 'failed';
+    record.error = result.error || 'Command failed';
   }
+}
 
-  const totalSteps = Math.max(1, durationMinutes * 2);
-  const stepSize = (targetBrightness - currentBright) / totalSteps;
-  let step = 0;
+// Manual holds for a run of actions
+interface HoldCheck {
+  // The hold that keeps the device from being changed, if any
+  find(deviceId: string): DeviceHold | undefined;
+  // Call once a command reached the device: ends an "until next slot" hold
+  delivered(deviceId: string): Promise<void>;
+}
 
-  console.log(`[Scheduler]   Starting gradual: ${currentBright}% → ${targetBrightness}% over ${durationMinutes}m (${totalSteps} steps)`);
+/**
+ * Look up manual holds for a run of actions. Held devices are skipped, except
+ * that a time slot runs devices on "until next slot" holds, ending the hold
+ * once it has actually changed the device.
+ */
+async function getHoldCheck(userId: string, endsNextSlotHolds: boolean): Promise<HoldCheck> {
+  let holds: Map<string, DeviceHold>;
+  try {
+    holds = await getActiveHolds(userId);
+  } catch (error) {
+    console.error('[Scheduler] Failed to load manual holds, running without them:', error);
+    holds = new Map();
+  }
 
-  // Send first step immediately
-  step++;
-  const firstBright = Math.round(currentBright + stepSize * step);
-  const firstTuya = Math.max(10, Math.round(firstBright * 10));
-  await sendCommand(deviceId, [
-    { code: 'switch_led', value: true },
-    { code: 'bright_value_v2', value: firstTuya },
-  ]);
+  const endsHere = (hold: DeviceHold | undefined) => endsNextSlotHolds && hold?.mode === 'next_slot';
 
-  if (totalSteps <= 1) return;
+  return {
+    find: (deviceId: string) => {
+      const hold = holds.get(deviceId);
+      return endsHere(hold) ? undefined : hold;
+    },
+    delivered: async (deviceId: string) => {
+      if (!endsHere(holds.get(deviceId))) return;
+      holds.delete(deviceId);
+      try {
+        await releaseHold(userId, deviceId);
+      } catch (error) {
+        console.error(`[Scheduler] Failed to release manual hold on ${deviceId}:`, error);
+      }
+    },
+  };
+}
 
-  const interval = setInterval(async () => {
-    step++;
-    const brightness = Math.round(currentBright + stepSize * step);
-    const tuyaBright = Math.max(10, Math.round(brightness * 10));
+/**
+ * Apply a scene's device states (or switch its devices off), on demand or
+ * from a schedule. Devices that getOverride matches to a higher-priority
+ * schedule, or that checkHold finds held, are skipped.
+ */
+export async function activateScene(
+  scene: Scene,
+  delivery?: DeliveryOptions,
+  getOverride?: (action: DeviceAction) => DeviceClaim | undefined,
+  deactivate = false,
+  checkHold?: HoldCheck
+): Promise<ActionRecord[]> {
+  console.log(`[Scenes] ${deactivate ? 'Deactivating' : 'Activating'} "${scene.name}" (${(scene.devices || []).length} devices)`);
+  const records: ActionRecord[] = [];
 
-    console.log(`[Scheduler]   Gradual step ${step}/${totalSteps} for ${deviceName}: ${brightness}%`);
+  for (const device of scene.devices || []) {
+    const commands: DeviceCommand[] = deactivate ? [{ type: 'OnOff', on: false }] : device.commands || [];
+    const record: ActionRecord = {
+      deviceId: device.deviceId,
+      deviceName: device.deviceName,
+      // The most specific command (e.g. the TuyaLight after an OnOff)
+      command: commands[commands.length - 1] ?? { type: 'Scene', sceneId: scene.id, sceneName: scene.name },
+      outcome: 'success',
+    };
+    records.push(record);
 
     try {
-      await sendCommand(deviceId, [{ code: 'bright_value_v2', value: tuyaBright }]);
-    } catch (err) {
-      console.error(`[Scheduler]   Gradual step failed for ${deviceName}:`, err);
-    }
+      const hold = checkHold?.find(device.deviceId);
+      if (hold) {
+        console.log(`[Scheduler]   - Skipping ${device.deviceName}: on manual hold`);
+        record.outcome = 'skipped';
+        record.heldSince = hold.setAt;
+        continue;
+      }
+
+      const override = getOverride?.({ deviceId: device.deviceId, deviceName: device.deviceName, command: record.command });
+      if (override) {
+        console.log(`[Scheduler]   - Skipping ${device.deviceName}: overridden by "${override.schedule.name}" (priority ${override.schedule.priority ?? 0})`);
+        record.outcome = 'skipped';
+        record.overriddenBy = { scheduleId: override.schedule.id, scheduleName: override.schedule.name };
+        continue;
+      }
 
-    if (step >= totalSteps) {
-      clearInterval(interval);
-      activeTransitions.delete(deviceId);
-      console.log(`[Scheduler]   Gradual transition complete for ${deviceName}`);
+      // A scene takes over from any transition or climate loop on the device
+      await cancelTransition(device.deviceId);
+      await cancelClimate(device.deviceId);
+
+      console.log(`[Scheduler]   - Setting ${device.deviceName}:`, commands);
+      await deliverAction(
+        device.deviceId,
+        commands.flatMap(command => convertToTuyaCommands(command, device.deviceCategory)),
+        record,
+        delivery
+      );
+      if (record.outcome === 'success') await checkHold?.delivered(device.deviceId);
+    } catch (error) {
+      console.error(`[Scheduler]     ✗ Error applying scene device:`, error);
+      record.outcome = 'error';
+      record.error = (error as Error).message;
     }
-  }, 30_000);
+  }
 
-  activeTransitions.set(deviceId, interval);
+  return records;
 }
 
 /**
- * Execute actions for a time slot
+ * Fill in a scene or group action's record from its devices' results: any
+ * device failing fails the action
  */
-async function executeTimeSlot(
+function summarizeDevices(record: ActionRecord, results: ActionRecord[], kind: 'scene' | 'group'): void {
+  const outcome = summarizeOutcome(results);
+  if (outcome === 'skipped') record.outcome = 'skipped';
+  if (outcome === 'partial' || outcome === 'failed') {
+    const failed = results.filter(r => r.outcome === 'failed' || r.outcome === 'error').length;
+    record.outcome = 'failed';
+    record.error = `${failed} of ${results.length} ${kind} devices failed`;
+  }
+}
+
+/**
+ * Execute a list of device actions (shared by time slots and triggers).
+ * Actions that getOverride matches to a higher-priority schedule, or on
+ * devices held after manual control, are skipped. Time slots pass their
+ * occurrence, which climate actions need the end of, and whether it counts
+ * as the "next slot" that ends a hold (vacation events don't).
+ */
+export async function executeActions(
+  actions: DeviceAction[],
   schedule: Schedule,
-  slot: TimeSlot
-): Promise<void> {
-  console.log(`[Scheduler] Executing time slot ${slot.id} for schedule "${schedule.name}"`);
+  getOverride?: (action: DeviceAction) => DeviceClaim | undefined,
+  occurrence?: { slotId: string; endsAt: number | null; endsHolds: boolean }
+): Promise<ActionRecord[]> {
+  const actionRecords: ActionRecord[] = [];
+  const delivery = schedule.delivery;
+  const checkHold = await getHoldCheck(schedule.userId, occurrence?.endsHolds ?? false);
 
-  const executionKey = `${schedule.id}-${slot.id}`;
-  lastExecutionTimes.set(executionKey, Date.now());
+  for (const action of actions) {
+    const record: ActionRecord = {
+      deviceId: action.deviceId,
+      deviceName: action.deviceName,
+      command: action.command,
+      outcome: 'success',
+    };
+    actionRecords.push(record);
 
-  for (const action of slot.actions) {
     try {
+      // Someone controlled the device by hand
+      const hold = checkHold.find(action.deviceId);
+      if (hold) {
+        console.log(`[Scheduler]   - Skipping ${action.deviceName}: on manual hold since ${new Date(hold.setAt).toISOString()}`);
+        record.outcome = 'skipped';
+        record.heldSince = hold.setAt;
+        continue;
+      }
+
+      // Another schedule has priority on this device right now
+      const override = getOverride?.(action);
+      if (override) {
+        console.log(`[Scheduler]   - Skipping ${action.deviceName}: overridden by "${override.schedule.name}" (priority ${override.schedule.priority ?? 0})`);
+        record.outcome = 'skipped';
+        record.overriddenBy = { scheduleId: override.schedule.id, scheduleName: override.schedule.name };
+        continue;
+      }
+
       // Check condition before executing
       if (action.condition) {
-        const conditionMet = await checkCondition(action.condition);
-        if (!conditionMet) {
-          console.log(`[Scheduler]   - Skipping ${action.deviceName}: condition not met (${action.condition.metric} ${action.condition.operator} ${action.condition.value})`);
+        record.condition = await checkCondition(action.condition, resolveTimeZone(schedule.timezone));
+        if (!record.condition.met) {
+          console.log(`[Scheduler]   - Skipping ${action.deviceName}: condition not met (${describeCondition(action.condition)})`);
+          record.outcome = 'skipped';
           continue;
         }
         console.log(`[Scheduler]   - Condition met for ${action.deviceName}`);
       }
 
-      // Cancel any active gradual transition for this device before sending new commands
-      cancelTransition(action.deviceId);
-
-      console.log(`[Scheduler]   - Executing action on ${action.deviceName}:`, action.command);
-
-      // Handle GradualBrightness specially
-      if (action.command.type === 'GradualBrightness') {
-        await startGradualTransition(
-          action.deviceId,
-          action.deviceName,
-          action.command.targetBrightness,
-          action.command.durationMinutes
-        );
+      // Scenes expand into their devices' commands
+      if (action.command.type === 'Scene') {
+        const scene = await getScene(schedule.userId, action.command.sceneId);
+        if (!scene) {
+          console.log(`[Scheduler]     ✗ Scene "${action.command.sceneName}" not found`);
+          record.outcome = 'failed';
+          record.error = 'Scene not found';
+          continue;
+        }
+        record.sceneDevices = await activateScene(scene, delivery, getOverride, action.command.deactivate, checkHold);
+        summarizeDevices(record, record.sceneDevices, 'scene');
         continue;
       }
 
-      // Convert our command to Tuya format
-      const tuyaCommands = convertToTuyaCommands(action.command, action.deviceCategory);
-
-      if (tuyaCommands.length === 0) {
-        console.log(`[Scheduler]     ✗ No Tuya commands for this action type`);
+      // Groups run the action on each of their current members
+      if (action.groupId) {
+        const members = await expandGroupAction(schedule.userId, action);
+        if (!members) {
+          console.log(`[Scheduler]     ✗ Group "${action.deviceName}" not found`);
+          record.outcome = 'failed';
+          record.error = 'Group not found';
+          continue;
+        }
+        console.log(`[Scheduler]   - Running on group "${action.deviceName}" (${members.length} devices)`);
+        record.groupDevices = await executeActions(members, schedule, getOverride, occurrence);
+        summarizeDevices(record, record.groupDevices, 'group');
         continue;
       }
 
-      console.log(`[Scheduler]     Tuya commands:`, tuyaCommands);
+      // Cancel any active gradual transition or climate loop for this device before sending new commands
+      await cancelTransition(action.deviceId);
+      await cancelClimate(action.deviceId);
 
-      // Send command to Tuya
-      const result = await sendCommand(action.deviceId, tuyaCommands);
+      console.log(`[Scheduler]   - Executing action on ${action.deviceName}:`, action.command);
+
+      // Ramps (and legacy GradualBrightness) run as stepped transitions
+      const ramp = toRamp(action.command);
+      if (ramp) {
+        const firstStep = await startTransition(schedule, action, ramp);
+        record.tuyaCommands = firstStep.commands;
+        if (firstStep.success) {
+          await checkHold.delivered(action.deviceId);
+        } else {
+          record.outcome = 'failed';
+          record.error = `First ramp step failed: ${firstStep.error}`;
+        }
+        continue;
+      }
 
-      if (result.success) {
-        console.log(`[Scheduler]     ✓ Success`);
-      } else {
-        console.log(`[Scheduler]     ✗ Failed: ${result.error}`);
+      // Climate control runs as a loop until the slot ends
+      if (action.command.type === 'Climate') {
+        if (occurrence?.endsAt == null) {
+          console.log(`[Scheduler]     ✗ Climate control only runs within a time slot's range`);
+          record.outcome = 'skipped';
+          record.error = 'Climate control only runs within a time slot\'s range';
+          continue;
+        }
+        await startClimate(schedule, occurrence.slotId, action, action.command, occurrence.endsAt);
+        await checkHold.delivered(action.deviceId);
+        continue;
       }
+
+      // Convert our command to Tuya format and send it
+      await deliverAction(action.deviceId, convertToTuyaCommands(action.command, action.deviceCategory), record, delivery);
+      if (record.outcome === 'success') await checkHold.delivered(action.deviceId);
     } catch (error) {
       console.error(`[Scheduler]     ✗ Error executing action:`, error);
+      record.outcome = 'error';
+      record.error = (error as Error).message;
     }
   }
+
+  return actionRecords;
 }
 
 /**
- * Check all schedules and execute any that should run now
+ * Find when the occurrence of a slot running at a given time ends (null if
+ * it has no end time, or isn't running then)
  */
-async function checkSchedules(): Promise<void> {
+function getOccurrenceEnd(schedule: Schedule, slot: TimeSlot, at: number): number | null {
+  if (!slot.endTime) return null;
+  const date = getZonedTime(at, resolveTimeZone(schedule.timezone)).date;
+
+  for (const day of [addDays(date, -1), date, addDays(date, 1)]) {
+    const times = getSlotTimes(schedule, slot, day);
+    if (times?.end != null && times.start < at + MINUTE_MS && at < times.end) return times.end;
+  }
+  return null;
+}
+
+/**
+ * Execute actions for a time slot (or its end actions)
+ */
+export async function executeTimeSlot(
+  schedule: Schedule,
+  slot: TimeSlot,
+  source: ExecutionSource,
+  scheduledFor?: number,
+  phase: SlotPhase = 'start',
+  getOverride?: (action: DeviceAction) => DeviceClaim | undefined,
+  cycle?: number
+): Promise<ExecutionRecord> {
+  const isEnd = phase === 'end';
+  const cycleLabel = cycle != null ? ` (cycle ${cycle + 1})` : '';
+  console.log(`[Scheduler] Executing ${isEnd ? 'end of ' : ''}time slot ${slot.id}${cycleLabel} for schedule "${schedule.name}"`);
+
+  const startedAt = Date.now();
+
+  // The slot's climate loops stop at its end, whatever the end actions are
+  if (isEnd) await stopSlotClimate(schedule.id, slot.id);
+  const endsAt = isEnd ? null : getOccurrenceEnd(schedule, slot, scheduledFor ?? startedAt);
+
+  const actionRecords = await executeActions(
+    isEnd ? getEndActions(slot) : slot.actions || [],
+    schedule,
+    getOverride,
+    { slotId: slot.id, endsAt, endsHolds: source !== 'vacation' }
+  );
+
+  const execution: ExecutionRecord = {
+    id: `exec-${startedAt}-${slot.id}${isEnd ? '-end' : ''}`,
+    userId: schedule.userId,
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    slotId: slot.id,
+    ...(isEnd && { phase }),
+    ...(cycle != null && { cycle }),
+    source,
+    ...(scheduledFor != null && { scheduledFor }),
+    startedAt,
+    finishedAt: Date.now(),
+    outcome: summarizeOutcome(actionRecords),
+    actions: actionRecords,
+  };
+  await recordExecution(execution);
+  return execution;
+}
+
+/**
+ * Get the users whose vacation mode is active (their non-essential schedules pause)
+ */
+export async function getVacationingUsers(now: number): Promise<Set<string>> {
   try {
-    // Get all enabled schedules from Firebase RTDB
-    const schedules = await getAllEnabledSchedules();
+    const vacations = await getActiveVacations();
+    return new Set(vacations.filter(v => v.returnAt > now).map(v => v.userId));
+  } catch (error) {
+    console.error('[Scheduler] Failed to read vacation state:', error);
+    return new Set();
+  }
+}
 
-    if (schedules.length === 0) {
-      return;
+/**
+ * Record a slot occurrence as executed (in memory and in the database)
+ */
+async function markExecuted(key: string, at: number): Promise<void> {
+  executedOccurrences.set(key, at);
+  try {
+    await saveExecutedOccurrence(key, at);
+  } catch (error) {
+    console.error('[Scheduler] Failed to persist executed slot:', error);
+  }
+}
+
+/**
+ * Forget executed occurrences older than the catch-up window
+ */
+async function pruneExecutedOccurrences(now: number): Promise<void> {
+  const stale: string[] = [];
+  for (const [key, at] of executedOccurrences) {
+    if (now - at > 2 * MAX_CATCH_UP_WINDOW_MS) {
+      executedOccurrences.delete(key);
+      stale.push(key);
     }
+  }
+  await deleteExecutedOccurrences(stale);
+}
 
-    const currentTime = getCurrentTime();
-    const currentDay = getCurrentDay();
+/**
+ * Run a schedule's slots that fell due within (from, now], catching up
+ * missed ones younger than its catchUpMinutes
+ */
+async function runDueSlots(schedule: Schedule, from: number, now: number, ownerClaims: DeviceClaim[]): Promise<void> {
+  const dueSlots = findDueSlots(schedule, from, now);
+  for (const due of dueSlots) {
+    if (!shouldExecuteSlot(schedule, due)) continue;
+
+    // Of a cycling slot's missed cycles only the latest matters
+    if (due.cycle != null && dueSlots.some(later => later.slot.id === due.slot.id && later.at > due.at)) {
+      await markExecuted(getOccurrenceKey(schedule, due), due.at);
+      continue;
+    }
+
+    const lateBy = now - due.at;
+    const missed = lateBy > ON_TIME_TOLERANCE_MS;
+    if (missed) {
+      const maxAge = (schedule.catchUpMinutes ?? DEFAULT_CATCH_UP_MINUTES) * 60 * 1000;
+      if (lateBy > maxAge) {
+        console.log(`[Scheduler] Skipping missed slot ${due.slot.id} of "${schedule.name}" (${Math.round(lateBy / 60000)}m late)`);
+        await markExecuted(getOccurrenceKey(schedule, due), due.at);
+        await recordExecution({
+          id: `exec-${now}-${due.slot.id}${due.phase === 'end' ? '-end' : ''}`,
+          userId: schedule.userId,
+          scheduleId: schedule.id,
+          scheduleName: schedule.name,
+          slotId: due.slot.id,
+          ...(due.phase === 'end' && { phase: due.phase }),
+          ...(due.cycle != null && { cycle: due.cycle }),
+          source: 'catch_up',
+          scheduledFor: due.at,
+          startedAt: now,
+          finishedAt: now,
+          outcome: 'skipped',
+          actions: [],
+          note: `Missed by ${Math.round(lateBy / 60000)}m, older than the catch-up limit`,
+        });
+        continue;
+      }
+      console.log(`[Scheduler] Catching up missed slot ${due.slot.id} of "${schedule.name}" (${Math.round(lateBy / 60000)}m late)`);
+    }
+
+    // Mark before executing so a crash mid-slot can't cause a second run
+    await markExecuted(getOccurrenceKey(schedule, due), due.at);
+    await executeTimeSlot(
+      schedule, due.slot, missed ? 'catch_up' : 'schedule', due.at, due.phase,
+      action => findOverride(schedule, action, due.at, ownerClaims),
+      due.cycle
+    );
+  }
+}
+
+/**
+ * Check all schedules and execute every slot that fell due since the last check.
+ * Slots missed during downtime or a slow tick are caught up if they are younger
+ * than the schedule's catchUpMinutes.
+ */
+async function checkSchedules(): Promise<void> {
+  // Only the lease holder runs schedules
+  if (checking || !isLeader()) return;
+  checking = true;
+
+  const now = Date.now();
+  const from = Math.max(lastCheckAt ?? now - 60 * 1000, now - MAX_CATCH_UP_WINDOW_MS);
+
+  try {
+    // Loaded at startup; retried here if that failed
+    await startScheduleIndex();
+
+    // Only the schedules with a slot indexed in this window (from memory)
+    const candidates = getCandidateSchedules(from, now);
 
     // Only log every 5 minutes to reduce noise
-    const minute = new Date().getMinutes();
-    if (minute % 5 === 0) {
-      console.log(`[Scheduler] Checking ${schedules.length} schedules at ${currentTime} (${currentDay})`);
+    const current = getZonedTime(now, DEFAULT_TIMEZONE);
+    if (current.minutes % 5 === 0) {
+      console.log(`[Scheduler] Checking ${candidates.length} of ${getIndexedSchedules().length} schedules at ${current.time} (${current.day}, ${DEFAULT_TIMEZONE})`);
     }
 
-    for (const schedule of schedules) {
-      // Check each time slot
-      for (const slot of schedule.timeSlots || []) {
-        if (shouldExecuteSlot(slot, schedule)) {
-          await executeTimeSlot(schedule, slot);
+    // Non-essential schedules pause while their owner is on vacation
+    const vacationing = candidates.length > 0 ? await getVacationingUsers(now) : new Set<string>();
+    const isRunning = (s: Schedule) => !vacationing.has(s.userId) || !!s.essential;
+    const running = candidates.filter(isRunning);
+
+    // What the owners' schedules ask of each device, to settle conflicts by priority
+    const owners = new Set(running.map(s => s.userId));
+    // (group actions claim each of their members)
+    const claims = await expandGroupClaims(getIndexedSchedules()
+      .filter(s => owners.has(s.userId) && isRunning(s))
+      .flatMap(s => {
+        try {
+          return getDeviceClaims(s, from, now + MINUTE_MS);
+        } catch (error) {
+          console.error(`[Scheduler] Failed to work out device claims of "${s.name}" (${s.id}):`, error);
+          return [];
         }
+      }));
+
+    // One bad schedule must not hold up everyone else's
+    for (const schedule of running) {
+      try {
+        await runDueSlots(schedule, from, now, claims.filter(c => c.schedule.userId === schedule.userId));
+      } catch (error) {
+        console.error(`[Scheduler] Error running schedule "${schedule.name}" (${schedule.id}):`, error);
       }
     }
+
+    lastCheckAt = now;
+    await saveLastTick(now);
+    await pruneExecutedOccurrences(now);
   } catch (error) {
     console.error('[Scheduler] Error checking schedules:', error);
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Restore the last processed tick and executed slots after a restart
+ */
+async function restoreState(): Promise<void> {
+  try {
+    lastCheckAt = await getLastTick();
+    const executed = await getExecutedOccurrences();
+    executedOccurrences.clear();
+    for (const [key, at] of Object.entries(executed)) {
+      executedOccurrences.set(key, at);
+    }
+    if (lastCheckAt) {
+      const downMinutes = Math.round((Date.now() - lastCheckAt) / 60000);
+      console.log(`[Scheduler] Last tick was ${downMinutes}m ago, checking missed slots`);
+    }
+  } catch (error) {
+    console.error('[Scheduler] Failed to restore scheduler state:', error);
   }
 }
 
 /**
  * Start the scheduler
- * Runs every minute to check for schedules that need to be executed
+ * Runs every minute to check for schedules that need to be executed, while
+ * this instance holds the leader lease
  */
-export function startScheduler(): void {
+export async function startScheduler(): Promise<void> {
   console.log('[Scheduler] Starting schedule checker...');
 
-  // Run immediately
-  checkSchedules();
+  onLeadershipChange(async (leader) => {
+    if (!leader) {
+      // The new leader resumes our transitions and climate loops
+      suspendTransitions();
+      suspendClimate();
+      return;
+    }
+
+    // Another instance may have run schedules since we last led
+    await restoreState();
+
+    // Pick up gradual transitions and climate loops interrupted by a restart or takeover
+    await resumeTransitions();
+    await resumeClimate();
+
+    // Run immediately (catches up anything missed while nobody was leading)
+    checkSchedules();
+  });
 
   // Then run every minute
   setInterval(() => {
     checkSchedules();
   }, 60 * 1000);
 
-  console.log('[Scheduler] Schedule checker started - checking every minute');
+  console.log('[Scheduler] Schedule checker started - checking every minute while leader');
+}
+
+/**
+ * Expand schedules into the individual device actions they will run within
+ * (from, to], in order. Uses the same due-slot logic as the scheduler, so
+ * solar times, jitter, date exceptions, end actions, vacation pauses and
+ * priority overrides are all reflected; occurrences already executed are
+ * left out.
+ */
+export async function previewExecutions(schedules: Schedule[], from: number, to: number): Promise<PreviewEntry[]> {
+  const vacationing = await getVacationingUsers(from);
+  const running = schedules.filter(s => s.enabled && (!vacationing.has(s.userId) || s.essential));
+  const claims = await expandGroupClaims(running.flatMap(s => getDeviceClaims(s, from, to + MINUTE_MS)));
+  const entries: PreviewEntry[] = [];
+
+  for (const schedule of running) {
+    for (const due of findDueSlots(schedule, from, to)) {
+      if (!shouldExecuteSlot(schedule, due)) continue;
+
+      const actions = due.phase === 'end' ? getEndActions(due.slot) : due.slot.actions || [];
+      for (const action of actions) {
+        if (findOverride(schedule, action, due.at, claims)) continue;
+
+        entries.push({
+          at: due.at,
+          scheduleId: schedule.id,
+          scheduleName: schedule.name,
+          slotId: due.slot.id,
+          phase: due.phase,
+          deviceId: action.deviceId,
+          deviceName: action.deviceName,
+          command: action.command,
+          ...(action.condition && { condition: action.condition }),
+        });
+      }
+    }
+  }
+
+  return entries.sort((a, b) => a.at - b.at);
 }
 
 /**
@@ -417,11 +1083,10 @@ export function startScheduler(): void {
 export async function triggerTimeSlot(
   scheduleId: string,
   slotId: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; execution?: ExecutionRecord; error?: string }> {
   try {
     // Find the schedule across all users
-    const allSchedules = await getAllEnabledSchedules();
-    const schedule = allSchedules.find(s => s.id === scheduleId);
+    const schedule = getIndexedSchedule(scheduleId);
 
     if (!schedule) {
       return { success: false, error: 'Schedule not found' };
@@ -433,8 +1098,8 @@ export async function triggerTimeSlot(
       return { success: false, error: 'Time slot not found' };
     }
 
-    await executeTimeSlot(schedule, slot);
-    return { success: true };
+    const execution = await executeTimeSlot(schedule, slot, 'manual');
+    return { success: true, execution };
   } catch (error) {
     return { success: false, error: (error as Error).message };
   }
@@ -0,0 +1,110 @@
+/**
+ * Scene Snapshots
+ * Reads devices' current Tuya data points and turns them back into our
+ * DeviceCommand form, so the way a room is set up right now can be saved
+ * as a scene and replayed later.
+ */
+
+import { getDeviceStatus, getDeviceInfo } from './tuya.js';
+import type { DeviceCommand, SceneDevice, TuyaACMode, TuyaACFan } from '../types/index.js';
+
+const AC_MODES: TuyaACMode[] = ['cold', 'heat', 'auto', 'wind_dry', 'dehumidification'];
+const AC_FANS: TuyaACFan[] = ['auto', 'low', 'mid', 'high'];
+
+export interface SnapshotFailure {
+  deviceId: string;
+  deviceName: string;
+  error: string;
+}
+
+/**
+ * Parse a colour_data_v2 value (a JSON string or object) into HSV
+ */
+function parseColour(raw: unknown): { h: number; s: number; v: number } | null {
+  try {
+    const hsv = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    if (hsv?.h == null || hsv?.s == null || hsv?.v == null) return null;
+    return { h: Number(hsv.h), s: Number(hsv.s), v: Number(hsv.v) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert raw Tuya status DPs into the commands that recreate them (an
+ * OnOff first, then the light or AC settings while the device is on). ACs
+ * that report no power switch (e.g. IR remotes) replay just their settings.
+ */
+export function statusToCommands(status: Record<string, any>): DeviceCommand[] {
+  const power = status.switch_led ?? status.switch ?? status.switch_1;
+  if (power === false) return [{ type: 'OnOff', on: false }];
+
+  const commands: DeviceCommand[] = [];
+
+  if (power === true) {
+    commands.push({ type: 'OnOff', on: true });
+
+    const colour = status.work_mode === 'colour' ? parseColour(status.colour_data_v2) : null;
+    if (colour) {
+      commands.push({ type: 'TuyaLight', workMode: 'colour', colorHSV: colour });
+    } else if (status.bright_value_v2 != null || status.temp_value_v2 != null) {
+      commands.push({
+        type: 'TuyaLight',
+        ...(status.work_mode === 'white' && { workMode: 'white' as const }),
+        ...(status.bright_value_v2 != null && { brightness: Math.max(1, Math.round(Number(status.bright_value_v2) / 10)) }),
+        ...(status.temp_value_v2 != null && { colorTemp: Number(status.temp_value_v2) }),
+      });
+    }
+  }
+
+  if (AC_MODES.includes(status.mode) && status.temp != null) {
+    commands.push({
+      type: 'TuyaAC',
+      mode: status.mode,
+      temperature: Number(status.temp),
+      fan: AC_FANS.includes(status.fan) ? status.fan : 'auto',
+    });
+  }
+
+  return commands;
+}
+
+/**
+ * Capture the current state of each device; devices that can't be read or
+ * report nothing we can replay are returned as failures
+ */
+export async function snapshotDevices(deviceIds: string[]): Promise<{
+  devices: SceneDevice[];
+  failed: SnapshotFailure[];
+}> {
+  const devices: SceneDevice[] = [];
+  const failed: SnapshotFailure[] = [];
+
+  for (const deviceId of deviceIds) {
+    // Name and category are nice to have; the status is what matters
+    const info = await getDeviceInfo(deviceId).catch(() => null);
+    const deviceName: string = info?.device?.name || deviceId;
+    const deviceCategory: string | undefined = info?.device?.category;
+
+    try {
+      const result = await getDeviceStatus(deviceId);
+      if (!result.success || !result.status) {
+        failed.push({ deviceId, deviceName, error: result.error || 'Status unavailable' });
+        continue;
+      }
+
+      const commands = statusToCommands(result.status);
+      if (commands.length === 0) {
+        failed.push({ deviceId, deviceName, error: 'No state that can be replayed' });
+        continue;
+      }
+
+      devices.push({ deviceId, deviceName, ...(deviceCategory && { deviceCategory }), commands });
+    } catch (error) {
+      failed.push({ deviceId, deviceName, error: (error as Error).message });
+    }
+  }
+
+  console.log(`[Scenes] Snapshot of ${deviceIds.length} devices: ${devices.length} captured, ${failed.length} failed`);
+  return { devices, failed };
+}
@@ -0,0 +1,131 @@
+/**
+ * Solar Time Service
+ * Offline sunrise/sunset and civil twilight calculation (NOAA-style sun position formulas)
+ */
+
+import type { GeoLocation, SolarEvent, SolarTime } from '../types/index.js';
+import { zonedTimeToInstant, getZonedTime } from './timezone.js';
+
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+
+// Sun altitude (degrees) at each event
+const EVENT_ALTITUDE: Record<SolarEvent, number> = {
+  sunrise: -0.833,
+  sunset: -0.833,
+  civil_dawn: -6,
+  civil_dusk: -6,
+};
+
+const RISING_EVENTS: SolarEvent[] = ['sunrise', 'civil_dawn'];
+
+// Furthest a slot can be offset from its sun event
+export const MAX_SOLAR_OFFSET_MINUTES = 3 * 60;
+
+// Resolved times cache (date|event|lat|lng|zone → minutes since local midnight)
+const cache: Map<string, number | null> = new Map();
+const MAX_CACHE_ENTRIES = 2000;
+
+function toDays(ms: number): number {
+  return ms / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(j: number): number {
+  return (j + 0.5 - J1970) * DAY_MS;
+}
+
+function solarMeanAnomaly(d: number): number {
+  return RAD * (357.5291 + 0.98560028 * d);
+}
+
+function eclipticLongitude(m: number): number {
+  const center = RAD * (1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+  const perihelion = RAD * 102.9372;
+  return m + center + perihelion + Math.PI;
+}
+
+function declination(l: number): number {
+  return Math.asin(Math.sin(OBLIQUITY) * Math.sin(l));
+}
+
+function approxTransit(hourAngle: number, lw: number, n: number): number {
+  return J0 + (hourAngle + lw) / (2 * Math.PI) + n;
+}
+
+function solarTransitJ(ds: number, m: number, l: number): number {
+  return J2000 + ds + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l);
+}
+
+/**
+ * Compute the UTC instant of a solar event on the solar day nearest to `around`.
+ * Returns null when the sun never reaches the event's altitude (polar day/night).
+ */
+export function getSolarEventInstant(around: number, event: SolarEvent, location: GeoLocation): number | null {
+  const lw = RAD * -location.longitude;
+  const phi = RAD * location.latitude;
+  const d = toDays(around);
+
+  const n = Math.round(d - J0 - lw / (2 * Math.PI));
+  const ds = approxTransit(0, lw, n);
+  const m = solarMeanAnomaly(ds);
+  const l = eclipticLongitude(m);
+  const dec = declination(l);
+  const jNoon = solarTransitJ(ds, m, l);
+
+  const h0 = RAD * EVENT_ALTITUDE[event];
+  const cosH = (Math.sin(h0) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+  if (cosH < -1 || cosH > 1) return null;
+
+  const jSet = solarTransitJ(approxTransit(Math.acos(cosH), lw, n), m, l);
+  const j = RISING_EVENTS.includes(event) ? jNoon - (jSet - jNoon) : jSet;
+  return fromJulian(j);
+}
+
+/**
+ * Get the local time (minutes since midnight) of a solar event on a local date,
+ * or null if the event doesn't happen that day
+ */
+export function getSolarEventMinutes(
+  date: string,
+  event: SolarEvent,
+  location: GeoLocation,
+  timeZone: string
+): number | null {
+  const key = `${date}|${event}|${location.latitude}|${location.longitude}|${timeZone}`;
+  if (cache.has(key)) return cache.get(key)!;
+
+  const localNoon = zonedTimeToInstant(date, 12 * 60, timeZone);
+  const instant = getSolarEventInstant(localNoon, event, location);
+  const minutes = instant == null ? null : getZonedTime(instant, timeZone).minutes;
+
+  if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+  cache.set(key, minutes);
+  return minutes;
+}
+
+/**
+ * Check if a location has valid coordinates
+ */
+export function isValidLocation(location: unknown): location is GeoLocation {
+  if (!location || typeof location !== 'object') return false;
+  const { latitude, longitude } = location as Record<string, unknown>;
+  return typeof latitude === 'number' && typeof longitude === 'number'
+    && latitude >= -90 && latitude <= 90
+    && longitude >= -180 && longitude <= 180;
+}
+
+/**
+ * Check if a sun-relative time has a known event and a whole-minute offset
+ * within range
+ */
+export function isValidSolarTime(solar: unknown): solar is SolarTime {
+  if (!solar || typeof solar !== 'object') return false;
+  const { event, offsetMinutes } = solar as Record<string, unknown>;
+  return typeof event === 'string' && Object.keys(EVENT_ALTITUDE).includes(event)
+    && Number.isInteger(offsetMinutes)
+    && Math.abs(offsetMinutes as number) <= MAX_SOLAR_OFFSET_MINUTES;
+}
@@ -0,0 +1,161 @@
+/**
+ * Timezone helpers
+ * Converts between UTC instants and wall-clock time in an IANA zone
+ */
+
+import type { DayOfWeek } from '../types/index.js';
+
+// Day mapping
+const DAY_MAP: Record<number, DayOfWeek> = {
+  0: 'sunday',
+  1: 'monday',
+  2: 'tuesday',
+  3: 'wednesday',
+  4: 'thursday',
+  5: 'friday',
+  6: 'saturday'
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Zone used for schedules that don't carry their own timezone */
+export const DEFAULT_TIMEZONE =
+  process.env.DEFAULT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export interface ZonedTime {
+  date: string;     // YYYY-MM-DD (local)
+  time: string;     // HH:MM (local)
+  minutes: number;  // minutes since local midnight
+  day: DayOfWeek;
+}
+
+// Formatter cache (constructing Intl formatters is expensive)
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is a valid IANA timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone || typeof timeZone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Use the given zone if valid, otherwise fall back to the default zone
+ */
+export function resolveTimeZone(timeZone?: string): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+// A valid 24-hour "HH:MM"
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ */
+export function parseTime(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+export function formatTime(minutes: number): string {
+  const h = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const m = (minutes % 60).toString().padStart(2, '0');
+  return `${h}:${m}`;
+}
+
+/**
+ * Get the day of week for a YYYY-MM-DD date
+ */
+export function getDayOfWeek(date: string): DayOfWeek {
+  const [y, m, d] = date.split('-').map(Number);
+  return DAY_MAP[new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
+}
+
+/**
+ * Add (or subtract) days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Wall-clock time of an instant, expressed as if it were a UTC timestamp
+ */
+function wallClockMs(instant: number, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+}
+
+/**
+ * Get the local date, time and day of week of an instant in a zone
+ */
+export function getZonedTime(instant: number, timeZone: string): ZonedTime {
+  const wall = wallClockMs(instant, timeZone);
+  const date = new Date(wall).toISOString().slice(0, 10);
+  const minutes = Math.floor((wall % DAY_MS) / MINUTE_MS);
+  return { date, time: formatTime(minutes), minutes, day: getDayOfWeek(date) };
+}
+
+/**
+ * Convert a local date + minutes-since-midnight in a zone to a UTC instant.
+ *
+ * DST is resolved deterministically:
+ * - a wall time skipped by a spring-forward jump maps to the first instant after the gap
+ * - a wall time repeated by a fall-back maps to its first (earlier) occurrence
+ */
+export function zonedTimeToInstant(date: string, minutes: number, timeZone: string): number {
+  const [y, m, d] = date.split('-').map(Number);
+  const target = Date.UTC(y, m - 1, d) + minutes * MINUTE_MS;
+
+  // Candidate instants using the offsets in effect a day before and a day after
+  const offsetBefore = wallClockMs(target - DAY_MS, timeZone) - (target - DAY_MS);
+  const offsetAfter = wallClockMs(target + DAY_MS, timeZone) - (target + DAY_MS);
+  const candidates = [target - offsetBefore, target - offsetAfter];
+
+  const valid = candidates.filter(c => wallClockMs(c, timeZone) === target);
+  if (valid.length > 0) {
+    return Math.min(...valid);
+  }
+
+  // Skipped by a DST gap — find the first minute whose wall time is past the target
+  let lo = Math.min(...candidates);
+  let hi = Math.max(...candidates);
+  while (hi - lo > MINUTE_MS) {
+    const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (wallClockMs(mid, timeZone) > target) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return hi;
+}
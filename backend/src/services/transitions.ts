@@ -0,0 +1,410 @@
+/**
+ * Gradual Transitions
+ * Ramps one value of a device (brightness, colour temperature, HSV colour,
+ * AC setpoint, fan speed) towards a target over a duration, with an easing
+ * curve. Active transitions are persisted, so after a restart they resume at
+ * the point they would have reached instead of leaving the device half-way.
+ */
+
+import { sendCommand, getDeviceStatus } from './tuya.js';
+import { getTransitions, getTransition, saveTransition, deleteTransition } from './db.js';
+import { isDeviceHeld } from './holds.js';
+import { MIN_CLIMATE_TEMPERATURE, MAX_CLIMATE_TEMPERATURE } from './climate.js';
+import type {
+  Schedule,
+  DeviceAction,
+  ActiveTransition,
+  RampCommand,
+  RampTarget,
+  RampValue,
+  Easing,
+  HSV,
+} from '../types/index.js';
+
+type TuyaCommand = { code: string; value: any };
+
+// What sending one step did
+export interface StepResult {
+  commands: TuyaCommand[];
+  success: boolean;
+  error?: string;
+}
+
+// How often a running transition sends the next value
+const STEP_INTERVAL_MS = 30 * 1000;
+
+// Step timers of running transitions (deviceId → interval)
+const timers: Map<string, NodeJS.Timeout> = new Map();
+
+// Last commands sent per device, so steps that round to the same value aren't re-sent
+const lastSent: Map<string, string> = new Map();
+
+// Categories whose fan speed is the AC-style low/mid/high enum
+const AC_CATEGORIES = ['infrared_ac', 'kt', 'qt'];
+
+// Starting points used when the device's current value can't be read
+const FALLBACK_FROM: Record<Exclude<RampTarget, 'colour'>, (to: number) => number> = {
+  brightness: to => (to > 50 ? 0 : 100),
+  colorTemp: to => (to > 500 ? 0 : 1000),
+  acTemperature: to => to,
+  fanSpeed: to => (to > 50 ? 0 : 100),
+};
+
+const FAN_LEVELS: Record<string, number> = { low: 20, mid: 50, high: 85 };
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t,
+  easeOut: t => 1 - (1 - t) * (1 - t),
+  easeInOut: t => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t)),
+};
+
+export const RAMP_EASINGS = Object.keys(EASINGS) as Easing[];
+
+// Values accepted for each numeric ramp target (colour ramps take HSV)
+export const RAMP_LIMITS: Record<Exclude<RampTarget, 'colour'>, { min: number; max: number }> = {
+  brightness: { min: 0, max: 100 },
+  colorTemp: { min: 0, max: 1000 },
+  acTemperature: { min: MIN_CLIMATE_TEMPERATURE, max: MAX_CLIMATE_TEMPERATURE },
+  fanSpeed: { min: 0, max: 100 },
+};
+
+function isHSV(value: RampValue | undefined): value is HSV {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Express the legacy GradualBrightness command as a ramp
+ */
+export function toRamp(command: DeviceAction['command']): RampCommand | null {
+  if (command.type === 'Ramp') return command;
+  if (command.type === 'GradualBrightness') {
+    return { type: 'Ramp', target: 'brightness', to: command.targetBrightness, durationMinutes: command.durationMinutes };
+  }
+  return null;
+}
+
+/**
+ * How far through a transition is at a given time (0–1, before easing)
+ */
+export function getTransitionProgress(transition: ActiveTransition, now: number): number {
+  const durationMs = transition.durationMinutes * 60 * 1000;
+  if (durationMs <= 0) return 1;
+  return Math.min(Math.max((now - transition.startedAt) / durationMs, 0), 1);
+}
+
+/**
+ * The value a transition should be at at a given time. Hue takes the
+ * shorter way round the colour wheel.
+ */
+export function getTransitionValue(transition: ActiveTransition, now: number): RampValue {
+  const t = EASINGS[transition.easing || 'linear'](getTransitionProgress(transition, now));
+  const { from, to } = transition;
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+
+  if (isHSV(from) && isHSV(to)) {
+    const hueDelta = ((to.h - from.h + 540) % 360) - 180;
+    return {
+      h: Math.round((from.h + hueDelta * t + 360) % 360),
+      s: Math.round(lerp(from.s, to.s)),
+      v: Math.round(lerp(from.v, to.v)),
+    };
+  }
+  if (isHSV(to)) return to;
+
+  return Math.round(lerp(Number(from), to));
+}
+
+/**
+ * Translate a ramp value into Tuya DP commands for the device's category
+ */
+function getRampCommands(target: RampTarget, value: RampValue, deviceCategory?: string): TuyaCommand[] {
+  switch (target) {
+    case 'brightness':
+      return [{ code: 'bright_value_v2', value: Math.max(10, Math.round(Number(value) * 10)) }];
+    case 'colorTemp':
+      return [{ code: 'temp_value_v2', value: Math.min(Math.max(Math.round(Number(value)), 0), 1000) }];
+    case 'colour':
+      return [{ code: 'colour_data_v2', value: JSON.stringify(value) }];
+    case 'acTemperature':
+      return [{ code: 'temp', value: Math.round(Number(value)) }];
+    case 'fanSpeed': {
+      const percent = Math.min(Math.max(Math.round(Number(value)), 0), 100);
+      if (deviceCategory && AC_CATEGORIES.includes(deviceCategory)) {
+        return [{ code: 'fan', value: percent > 66 ? 'high' : percent > 33 ? 'mid' : 'low' }];
+      }
+      return [{ code: 'fan_speed_percent', value: Math.max(1, percent) }];
+    }
+  }
+}
+
+/**
+ * Commands sent with the first step: switch the device on, in the right mode
+ */
+function getStartCommands(target: RampTarget): TuyaCommand[] {
+  switch (target) {
+    case 'brightness':
+      return [{ code: 'switch_led', value: true }];
+    case 'colorTemp':
+      return [{ code: 'switch_led', value: true }, { code: 'work_mode', value: 'white' }];
+    case 'colour':
+      return [{ code: 'switch_led', value: true }, { code: 'work_mode', value: 'colour' }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Read a device's current value for a ramp target, or null if not reported
+ */
+function readRampValue(target: RampTarget, status: Record<string, any>): RampValue | null {
+  switch (target) {
+    case 'brightness':
+      return status.bright_value_v2 != null ? Math.round(Number(status.bright_value_v2) / 10) : null;
+    case 'colorTemp':
+      return status.temp_value_v2 != null ? Number(status.temp_value_v2) : null;
+    case 'colour': {
+      const raw = status.colour_data_v2;
+      if (raw == null) return null;
+      try {
+        const hsv = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        return isHSV(hsv) ? { h: Number(hsv.h), s: Number(hsv.s), v: Number(hsv.v) } : null;
+      } catch {
+        return null;
+      }
+    }
+    case 'acTemperature':
+      return status.temp != null ? Number(status.temp) : null;
+    case 'fanSpeed':
+      if (status.fan_speed_percent != null) return Number(status.fan_speed_percent);
+      return FAN_LEVELS[status.fan] ?? null;
+  }
+}
+
+/**
+ * Send a transition's value at a given time (skipped, returning null, if
+ * unchanged since the last step). A step the device rejects isn't remembered
+ * as sent, so the next step sends it again.
+ */
+async function sendStep(transition: ActiveTransition, now: number, extra: TuyaCommand[] = []): Promise<StepResult | null> {
+  const target = transition.target || 'brightness';
+  const commands = [...extra, ...getRampCommands(target, getTransitionValue(transition, now), transition.deviceCategory)];
+  const key = JSON.stringify(commands);
+  if (lastSent.get(transition.deviceId) === key) return null;
+
+  console.log(`[Transitions] Step for ${transition.deviceName}:`, commands);
+  const result = await sendCommand(transition.deviceId, commands);
+  if (!result.success) {
+    console.error(`[Transitions] Step failed for ${transition.deviceName}: ${result.error || 'command rejected'}`);
+    return { commands, success: false, error: result.error || 'Command failed' };
+  }
+
+  lastSent.set(transition.deviceId, key);
+  return { commands, success: true };
+}
+
+/**
+ * Stop stepping a transition on this instance
+ */
+function stopTimer(deviceId: string): void {
+  const timer = timers.get(deviceId);
+  if (timer) {
+    clearInterval(timer);
+    timers.delete(deviceId);
+  }
+  lastSent.delete(deviceId);
+}
+
+/**
+ * Whether a transition is still the one on record. Any instance cancels a
+ * transition by deleting its record, so the one stepping it stops; a failed
+ * read counts as still running.
+ */
+async function isTransitionCurrent(transition: ActiveTransition): Promise<boolean> {
+  try {
+    const saved = await getTransition(transition.deviceId);
+    return saved?.startedAt === transition.startedAt;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Stop stepping a transition and forget it
+ */
+async function finishTransition(deviceId: string): Promise<void> {
+  stopTimer(deviceId);
+  try {
+    await deleteTransition(deviceId);
+  } catch (error) {
+    console.error(`[Transitions] Failed to delete transition for ${deviceId}:`, error);
+  }
+}
+
+/**
+ * Step a transition every interval until it reaches its target
+ */
+function runTransition(transition: ActiveTransition): void {
+  const interval = setInterval(async () => {
+    const now = Date.now();
+    const done = getTransitionProgress(transition, now) >= 1;
+
+    // Cancelled or replaced through another instance
+    if (!(await isTransitionCurrent(transition))) {
+      if (timers.get(transition.deviceId) === interval) stopTimer(transition.deviceId);
+      console.log(`[Transitions] Stopped ramp for ${transition.deviceName}: cancelled elsewhere`);
+      return;
+    }
+
+    // Someone took the device over by hand: leave it where they put it
+    if (await isDeviceHeld(transition.userId, transition.deviceId, now)) {
+      if (timers.get(transition.deviceId) !== interval) return;
+      await finishTransition(transition.deviceId);
+      console.log(`[Transitions] Stopped ramp for ${transition.deviceName}: device on manual hold`);
+      return;
+    }
+
+    try {
+      await sendStep(transition, now);
+    } catch (err) {
+      console.error(`[Transitions] Step failed for ${transition.deviceName}:`, err);
+    }
+
+    // Cancelled (or replaced) while the step was being sent
+    if (timers.get(transition.deviceId) !== interval) return;
+
+    if (done) {
+      await finishTransition(transition.deviceId);
+      console.log(`[Transitions] Transition complete for ${transition.deviceName}`);
+    }
+  }, STEP_INTERVAL_MS);
+
+  timers.set(transition.deviceId, interval);
+}
+
+/**
+ * Cancel a device's running transition, if it has one. Its record is
+ * removed even if another instance is stepping it, which makes that
+ * instance stop at its next step.
+ */
+export async function cancelTransition(deviceId: string): Promise<void> {
+  if (!timers.has(deviceId)) {
+    try {
+      await deleteTransition(deviceId);
+    } catch (error) {
+      console.error(`[Transitions] Failed to delete transition for ${deviceId}:`, error);
+    }
+    return;
+  }
+  await finishTransition(deviceId);
+  console.log(`[Transitions] Cancelled active gradual transition for ${deviceId}`);
+}
+
+/**
+ * Start ramping a device from its current value (or the ramp's explicit
+ * start) to the ramp's target. Returns how sending the first step went; a
+ * ramp whose first step failed still runs, and its next step retries.
+ */
+export async function startTransition(schedule: Schedule, action: DeviceAction, ramp: RampCommand): Promise<StepResult> {
+  const { deviceId, deviceName } = action;
+  await cancelTransition(deviceId);
+
+  let from = ramp.from;
+  if (from == null) {
+    try {
+      const status = await getDeviceStatus(deviceId);
+      if (status.success && status.status) {
+        from = readRampValue(ramp.target, status.status) ?? undefined;
+      }
+    } catch {
+      // Use fallback
+    }
+  }
+  if (from == null || isHSV(from) !== isHSV(ramp.to)) {
+    from = isHSV(ramp.to) ? { ...ramp.to, v: 0 } : FALLBACK_FROM[ramp.target as Exclude<RampTarget, 'colour'>](ramp.to);
+  }
+
+  const transition: ActiveTransition = {
+    deviceId,
+    deviceName,
+    userId: schedule.userId,
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    target: ramp.target,
+    ...(action.deviceCategory && { deviceCategory: action.deviceCategory }),
+    from,
+    to: ramp.to,
+    easing: ramp.easing || 'linear',
+    startedAt: Date.now(),
+    durationMinutes: Math.max(0, ramp.durationMinutes),
+  };
+
+  console.log(`[Transitions] Starting ${ramp.target} ramp for ${deviceName}: ${JSON.stringify(from)} → ${JSON.stringify(ramp.to)} over ${ramp.durationMinutes}m (${transition.easing})`);
+
+  // Send the first step immediately (transitions shorter than a step end there)
+  const firstStep = await sendStep(transition, transition.startedAt + STEP_INTERVAL_MS, getStartCommands(ramp.target))
+    ?? { commands: [], success: true };
+
+  if (transition.durationMinutes * 60 * 1000 <= STEP_INTERVAL_MS) {
+    lastSent.delete(deviceId);
+    return firstStep;
+  }
+
+  try {
+    await saveTransition(transition);
+  } catch (error) {
+    console.error(`[Transitions] Failed to persist transition for ${deviceName}, it won't survive a restart:`, error);
+  }
+  runTransition(transition);
+  return firstStep;
+}
+
+/**
+ * Stop stepping transitions without forgetting them (another instance took
+ * over and resumes them from the database)
+ */
+export function suspendTransitions(): void {
+  for (const timer of timers.values()) clearInterval(timer);
+  timers.clear();
+  lastSent.clear();
+}
+
+/**
+ * Resume the transitions that were running when the server stopped, at the
+ * value they should have reached by now (finished ones jump to their target)
+ */
+export async function resumeTransitions(): Promise<void> {
+  let transitions: ActiveTransition[];
+  try {
+    transitions = await getTransitions();
+  } catch (error) {
+    console.error('[Transitions] Failed to load active transitions:', error);
+    return;
+  }
+
+  const now = Date.now();
+  for (const transition of transitions) {
+    if (timers.has(transition.deviceId)) continue;
+    const done = getTransitionProgress(transition, now) >= 1;
+
+    if (await isDeviceHeld(transition.userId, transition.deviceId, now)) {
+      console.log(`[Transitions] Dropping ramp for ${transition.deviceName}: device on manual hold`);
+      await finishTransition(transition.deviceId);
+      continue;
+    }
+
+    console.log(`[Transitions] Resuming ${transition.target || 'brightness'} ramp for ${transition.deviceName}${done ? ' (finished while down)' : ''}`);
+
+    try {
+      await sendStep(transition, now);
+    } catch (err) {
+      console.error(`[Transitions] Resume failed for ${transition.deviceName}:`, err);
+    }
+
+    if (done) {
+      await finishTransition(transition.deviceId);
+    } else {
+      runTransition(transition);
+    }
+  }
+}
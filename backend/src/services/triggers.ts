@@ -0,0 +1,239 @@
+/**
+ * Trigger Engine
+ * Polls the source devices of schedule triggers and runs their actions when a
+ * condition becomes true (edge-triggered, so each crossing fires once). Each
+ * trigger's last state is saved, so a condition that became true while the
+ * server was down or leadership changed hands still fires; a trigger with no
+ * saved state (just added) takes its first reading as the baseline.
+ */
+
+import { getDeviceStatus } from './tuya.js';
+import { getTriggerStates, saveTriggerState, deleteTriggerStates } from './db.js';
+import { getIndexedSchedules } from './scheduleIndex.js';
+import { executeActions, summarizeOutcome, recordExecution, getVacationingUsers } from './scheduler.js';
+import { resolveTimeZone, getZonedTime } from './timezone.js';
+import { isScheduleActiveOn } from './calendar.js';
+import { isLeader, onLeadershipChange } from './leader.js';
+import type { Schedule, DeviceTrigger, TriggerCondition, TriggerState, ExecutionRecord } from '../types/index.js';
+
+// How often source devices are polled
+const POLL_INTERVAL_MS = Number(process.env.TRIGGER_POLL_SECONDS ?? 30) * 1000;
+
+// Last evaluated condition state per trigger (scheduleId-triggerId → matched)
+const lastMatched: Map<string, boolean> = new Map();
+
+// Last time each trigger fired (scheduleId-triggerId → timestamp), for cooldowns
+const lastFiredAt: Map<string, number> = new Map();
+
+// Whether the saved trigger states have been loaded since becoming leader
+let statesLoaded = false;
+
+// Guard against overlapping polls when Tuya is slow
+let polling = false;
+
+function getTriggerKey(schedule: Schedule, trigger: DeviceTrigger): string {
+  return `${schedule.id}-${trigger.id}`;
+}
+
+/**
+ * Check whether a device's current status satisfies a trigger condition.
+ * Returns null if the trait isn't reported by the device.
+ */
+function evaluateCondition(condition: TriggerCondition, status: Record<string, any>): boolean | null {
+  const raw = status[condition.trait];
+  if (raw === undefined || raw === null) return null;
+
+  if (condition.type === 'state_change') {
+    return String(raw) === String(condition.value);
+  }
+
+  const value = Number(raw);
+  if (Number.isNaN(value)) return null;
+
+  switch (condition.operator) {
+    case '>':  return value > condition.value;
+    case '<':  return value < condition.value;
+    case '>=': return value >= condition.value;
+    case '<=': return value <= condition.value;
+    case '=':  return value === condition.value;
+    default:   return null;
+  }
+}
+
+function describeCondition(condition: TriggerCondition, status: Record<string, any>): string {
+  const current = JSON.stringify(status[condition.trait]);
+  if (condition.type === 'state_change') {
+    return `${condition.trait} became ${JSON.stringify(condition.value)}`;
+  }
+  return `${condition.trait} ${condition.operator} ${condition.value} (read ${current})`;
+}
+
+/**
+ * Load the trigger states saved by the previous leader (or before a restart),
+ * keeping any this instance has read since
+ */
+async function loadTriggerStates(): Promise<void> {
+  try {
+    const saved = await getTriggerStates();
+    for (const [key, state] of Object.entries(saved)) {
+      if (!lastMatched.has(key)) lastMatched.set(key, state.matched);
+      if (state.firedAt != null && !lastFiredAt.has(key)) lastFiredAt.set(key, state.firedAt);
+    }
+    statesLoaded = true;
+  } catch (error) {
+    console.error('[Triggers] Failed to load saved trigger states, will retry:', error);
+  }
+}
+
+/**
+ * Save a trigger's current state (best-effort: a failed save only means a
+ * restart may miss one edge)
+ */
+async function persistTriggerState(key: string): Promise<void> {
+  const firedAt = lastFiredAt.get(key);
+  const state: TriggerState = { matched: lastMatched.get(key) ?? false, ...(firedAt != null && { firedAt }) };
+  try {
+    await saveTriggerState(key, state);
+  } catch (error) {
+    console.error(`[Triggers] Failed to save state of trigger ${key}:`, error);
+  }
+}
+
+/**
+ * Run a trigger's actions and record the execution in history
+ */
+async function fireTrigger(schedule: Schedule, trigger: DeviceTrigger, note: string): Promise<void> {
+  console.log(`[Triggers] Firing trigger ${trigger.id} of "${schedule.name}": ${note}`);
+
+  const startedAt = Date.now();
+  const actionRecords = await executeActions(trigger.actions || [], schedule);
+
+  const execution: ExecutionRecord = {
+    id: `exec-${startedAt}-${trigger.id}`,
+    userId: schedule.userId,
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    triggerId: trigger.id,
+    source: 'trigger',
+    startedAt,
+    finishedAt: Date.now(),
+    outcome: summarizeOutcome(actionRecords),
+    actions: actionRecords,
+    note: `${trigger.sourceDeviceName}: ${note}`,
+  };
+  await recordExecution(execution);
+}
+
+/**
+ * Poll every trigger source device once and fire triggers whose condition
+ * went from not met to met since the previous poll
+ */
+async function pollTriggers(): Promise<void> {
+  // Only the lease holder runs automations
+  if (polling || !isLeader()) return;
+  polling = true;
+
+  try {
+    if (!statesLoaded) await loadTriggerStates();
+
+    const schedules = getIndexedSchedules().filter(s => s.triggers && s.triggers.length > 0);
+    const activeKeys = new Set<string>();
+
+    // Read each source device once per poll, however many triggers watch it
+    const statuses: Map<string, Record<string, any> | null> = new Map();
+    for (const schedule of schedules) {
+      for (const trigger of schedule.triggers!) {
+        if (statuses.has(trigger.sourceDeviceId)) continue;
+        try {
+          const result = await getDeviceStatus(trigger.sourceDeviceId);
+          statuses.set(trigger.sourceDeviceId, result.success && result.status ? result.status : null);
+        } catch (error) {
+          console.error(`[Triggers] Error reading ${trigger.sourceDeviceId}:`, error);
+          statuses.set(trigger.sourceDeviceId, null);
+        }
+      }
+    }
+
+    const now = Date.now();
+    const vacationing = await getVacationingUsers(now);
+
+    for (const schedule of schedules) {
+      const paused = vacationing.has(schedule.userId) && !schedule.essential;
+      const today = getZonedTime(now, resolveTimeZone(schedule.timezone)).date;
+      const activeToday = isScheduleActiveOn(schedule, today);
+
+      for (const trigger of schedule.triggers!) {
+        const key = getTriggerKey(schedule, trigger);
+        activeKeys.add(key);
+
+        const status = statuses.get(trigger.sourceDeviceId);
+        if (!status) continue; // Unreadable — keep the previous state
+
+        const matched = evaluateCondition(trigger.condition, status);
+        if (matched === null) continue;
+
+        const previous = lastMatched.get(key);
+        lastMatched.set(key, matched);
+        if (previous !== matched) await persistTriggerState(key);
+
+        // Only a not-met → met edge fires; a trigger's first reading just sets the baseline
+        if (previous !== false || !matched) continue;
+
+        if (!activeToday) {
+          console.log(`[Triggers] Ignoring trigger ${trigger.id} of "${schedule.name}": not active on ${today}`);
+          continue;
+        }
+
+        if (paused) {
+          console.log(`[Triggers] Ignoring trigger ${trigger.id} of "${schedule.name}": paused for vacation`);
+          continue;
+        }
+
+        const cooldownMs = (trigger.cooldownMinutes ?? 0) * 60 * 1000;
+        const firedAt = lastFiredAt.get(key);
+        if (firedAt && now - firedAt < cooldownMs) {
+          console.log(`[Triggers] Ignoring trigger ${trigger.id} of "${schedule.name}": cooling down`);
+          continue;
+        }
+
+        lastFiredAt.set(key, now);
+        await persistTriggerState(key);
+        await fireTrigger(schedule, trigger, describeCondition(trigger.condition, status));
+      }
+    }
+
+    // Forget state for triggers that were removed or whose schedule was disabled
+    const removed = new Set([...lastMatched.keys(), ...lastFiredAt.keys()].filter(key => !activeKeys.has(key)));
+    for (const key of removed) {
+      lastMatched.delete(key);
+      lastFiredAt.delete(key);
+    }
+    await deleteTriggerStates([...removed]).catch(error => {
+      console.error('[Triggers] Failed to delete states of removed triggers:', error);
+    });
+  } catch (error) {
+    console.error('[Triggers] Error polling triggers:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start the trigger engine
+ */
+export function startTriggerEngine(): void {
+  console.log(`[Triggers] Starting trigger engine - polling every ${POLL_INTERVAL_MS / 1000}s`);
+
+  // The previous leader kept polling while we weren't: start from its states
+  onLeadershipChange((leader) => {
+    if (!leader) return;
+    lastMatched.clear();
+    lastFiredAt.clear();
+    statesLoaded = false;
+  });
+
+  pollTriggers();
+  setInterval(() => {
+    pollTriggers();
+  }, POLL_INTERVAL_MS);
+}
@@ -0,0 +1,254 @@
+/**
+ * Vacation Mode
+ * Simulates occupancy while the user is away: selected lights replay their
+ * usual on/off windows each evening with randomized offsets and durations,
+ * until the configured return time
+ */
+
+import { getActiveVacations, getSchedules, saveVacation } from './db.js';
+import { executeTimeSlot } from './scheduler.js';
+import { resolveTimeZone, getZonedTime, zonedTimeToInstant, parseTime, formatTime, addDays } from './timezone.js';
+import { isLeader } from './leader.js';
+import type { Schedule, TimeSlot, VacationMode, VacationDevice, VacationEvent } from '../types/index.js';
+
+const MINUTES_IN_DAY = 24 * 60;
+
+// Window used for lights that have no usual on/off pattern (18:30–22:30)
+const DEFAULT_WINDOW: OnWindow = { start: 18 * 60 + 30, end: 22 * 60 + 30 };
+
+// Longest simulated on-period; longer usual windows are trimmed
+const MAX_WINDOW_MINUTES = 6 * 60;
+
+// Randomization bounds
+const MAX_START_SHIFT_MINUTES = 30;
+const MIN_DURATION_FACTOR = 0.75;
+const MAX_DURATION_FACTOR = 1.25;
+const MIN_DURATION_MINUTES = 15;
+const SKIP_WINDOW_CHANCE = 0.1;
+
+// Guard against overlapping checks
+let checking = false;
+
+interface OnWindow {
+  start: number; // minutes since local midnight
+  end: number;   // may exceed a day for windows that cross midnight
+}
+
+function randomBetween(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+/**
+ * Work out when a light is usually on, from the user's normal schedules
+ */
+function getUsualWindows(deviceId: string, schedules: Schedule[]): OnWindow[] {
+  const changes: Array<{ minutes: number; on: boolean }> = [];
+
+  for (const schedule of schedules) {
+    for (const slot of schedule.timeSlots || []) {
+      const action = (slot.actions || []).find(a => a.deviceId === deviceId);
+      if (!action) continue;
+
+      const on = action.command.type === 'OnOff' ? action.command.on : true;
+      changes.push({ minutes: parseTime(slot.startTime), on });
+
+      if (slot.endTime) {
+        const endAction = slot.endActions?.find(a => a.deviceId === deviceId);
+        const endOn = endAction
+          ? endAction.command.type === 'OnOff' ? endAction.command.on : true
+          : !on;
+        changes.push({ minutes: parseTime(slot.endTime), on: endOn });
+      }
+    }
+  }
+
+  changes.sort((a, b) => a.minutes - b.minutes);
+
+  // Pair each "on" with the next "off", wrapping past midnight
+  const windows: OnWindow[] = [];
+  changes.forEach((change, i) => {
+    if (!change.on) return;
+    for (let j = 1; j <= changes.length; j++) {
+      const next = changes[(i + j) % changes.length];
+      if (next.on) continue;
+      const end = next.minutes + (i + j >= changes.length ? MINUTES_IN_DAY : 0);
+      if (end > change.minutes) {
+        windows.push({ start: change.minutes, end: Math.min(end, change.minutes + MAX_WINDOW_MINUTES) });
+      }
+      break;
+    }
+  });
+
+  // Merge overlapping windows (the same light in several schedules)
+  windows.sort((a, b) => a.start - b.start);
+  const merged: OnWindow[] = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Build a randomized on/off plan for one local date
+ */
+function buildDayPlan(vacation: VacationMode, schedules: Schedule[], date: string, timeZone: string): VacationEvent[] {
+  const events: VacationEvent[] = [];
+
+  const toInstant = (minutes: number) => {
+    const dayOffset = Math.floor(minutes / MINUTES_IN_DAY);
+    const local = ((minutes % MINUTES_IN_DAY) + MINUTES_IN_DAY) % MINUTES_IN_DAY;
+    return zonedTimeToInstant(addDays(date, dayOffset), local, timeZone);
+  };
+
+  for (const device of vacation.devices || []) {
+    const usual = getUsualWindows(device.deviceId, schedules);
+    const windows = usual.length > 0 ? usual : [DEFAULT_WINDOW];
+
+    for (const window of windows) {
+      // Occasionally leave a window out so days don't look identical
+      if (windows.length > 1 && Math.random() < SKIP_WINDOW_CHANCE) continue;
+
+      const start = Math.round(window.start + randomBetween(-MAX_START_SHIFT_MINUTES, MAX_START_SHIFT_MINUTES));
+      const duration = Math.max(
+        MIN_DURATION_MINUTES,
+        Math.round((window.end - window.start) * randomBetween(MIN_DURATION_FACTOR, MAX_DURATION_FACTOR))
+      );
+
+      events.push({ deviceId: device.deviceId, at: toInstant(start), on: true });
+      events.push({ deviceId: device.deviceId, at: toInstant(start + duration), on: false });
+    }
+  }
+
+  return events
+    .filter(e => e.at < vacation.returnAt)
+    .sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Switch one simulated light through the normal slot execution path
+ */
+async function runVacationEvent(vacation: VacationMode, device: VacationDevice, on: boolean, at: number): Promise<void> {
+  const timeZone = resolveTimeZone(vacation.timezone);
+
+  // Synthetic schedule and slot so the execution is recorded like any other
+  const schedule: Schedule = {
+    id: 'vacation',
+    name: 'Vacation mode',
+    enabled: true,
+    userId: vacation.userId,
+    daysOfWeek: [],
+    timeSlots: [],
+    createdAt: vacation.startedAt,
+    updatedAt: vacation.startedAt,
+  };
+  const slot: TimeSlot = {
+    id: `vacation-${device.deviceId}-${at}`,
+    startTime: formatTime(getZonedTime(at, timeZone).minutes),
+    actions: [{
+      deviceId: device.deviceId,
+      deviceName: device.deviceName,
+      ...(device.deviceCategory && { deviceCategory: device.deviceCategory }),
+      command: { type: 'OnOff', on },
+    }],
+  };
+
+  await executeTimeSlot(schedule, slot, 'vacation', at);
+}
+
+/**
+ * End vacation mode, switching off any light the simulation left on
+ */
+export async function endVacation(vacation: VacationMode, reason: string): Promise<VacationMode> {
+  console.log(`[Vacation] Ending vacation mode for ${vacation.userId}: ${reason}`);
+
+  const now = Date.now();
+  const events = (vacation.plan?.events || []).filter(e => e.done);
+  for (const device of vacation.devices || []) {
+    const last = events.filter(e => e.deviceId === device.deviceId).pop();
+    if (last?.on) {
+      await runVacationEvent(vacation, device, false, now);
+    }
+  }
+
+  const ended: VacationMode = { ...vacation, active: false, endedAt: now };
+  delete ended.plan;
+  await saveVacation(ended);
+  return ended;
+}
+
+/**
+ * Check every active vacation: end it at the return time, plan the day, and
+ * run any simulated on/off events that fell due
+ */
+async function checkVacations(): Promise<void> {
+  // Only the lease holder runs automations
+  if (checking || !isLeader()) return;
+  checking = true;
+
+  try {
+    const now = Date.now();
+
+    for (const vacation of await getActiveVacations()) {
+      if (now >= vacation.returnAt) {
+        await endVacation(vacation, 'return time reached');
+        continue;
+      }
+
+      const timeZone = resolveTimeZone(vacation.timezone);
+      const today = getZonedTime(now, timeZone).date;
+      let changed = false;
+
+      // New day: plan it, keeping yesterday's unfinished events (overnight windows)
+      if (vacation.plan?.date !== today) {
+        const schedules = await getSchedules(vacation.userId);
+        const pending = (vacation.plan?.events || []).filter(e => !e.done);
+        const events = [...pending, ...buildDayPlan(vacation, schedules, today, timeZone)].sort((a, b) => a.at - b.at);
+        vacation.plan = { date: today, events };
+        changed = true;
+        console.log(`[Vacation] Planned ${events.length} light events for ${vacation.userId} on ${today}`);
+      }
+
+      // Only the latest due event per light matters (several fall due after downtime)
+      const latest: Map<string, VacationEvent> = new Map();
+      for (const event of vacation.plan!.events) {
+        if (event.done || event.at > now) continue;
+        event.done = true;
+        changed = true;
+        latest.set(event.deviceId, event);
+      }
+
+      for (const event of latest.values()) {
+        const device = vacation.devices.find(d => d.deviceId === event.deviceId);
+        if (device) {
+          await runVacationEvent(vacation, device, event.on, event.at);
+        }
+      }
+
+      if (changed) {
+        await saveVacation(vacation);
+      }
+    }
+  } catch (error) {
+    console.error('[Vacation] Error checking vacations:', error);
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Start the vacation mode engine (checks every minute)
+ */
+export function startVacationEngine(): void {
+  console.log('[Vacation] Starting vacation mode engine');
+
+  checkVacations();
+  setInterval(() => {
+    checkVacations();
+  }, 60 * 1000);
+}
@@ -21,6 +21,26 @@ export interface Schedule {
   daysOfWeek: DayOfWeek[];
   timeSlots: TimeSlot[];
   triggers?: DeviceTrigger[];
+  timezone?: string; // IANA zone, e.g. "Australia/Sydney"
+  catchUpMinutes?: number; // Max age of a missed slot that is still executed after downtime
+  location?: GeoLocation;  // Used to resolve solar-relative slots
+  extraDates?: string[];   // YYYY-MM-DD dates it also runs on (one-off schedules use only these)
+  skipDates?: string[];    // YYYY-MM-DD dates it never runs on (e.g. public holidays)
+  validFrom?: string;      // YYYY-MM-DD, inclusive
+  validUntil?: string;     // YYYY-MM-DD, inclusive
+  essential?: boolean;     // Keeps running while vacation mode is active
+  delivery?: DeliveryOptions; // Retry/verification settings (server defaults otherwise)
+  priority?: number;       // Wins device conflicts with lower-priority schedules (default 0)
+}
+
+export interface DeliveryOptions {
+  retries?: number;  // Extra attempts after a failed (or unconfirmed) send
+  verify?: boolean;  // Read the device status back and re-send on mismatch
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
 }
 
 export type DayOfWeek =
@@ -34,9 +54,32 @@ export type DayOfWeek =
 
 export interface TimeSlot {
   id: string;
-  startTime: string; // HH:MM format
-  endTime?: string;
+  startTime: string; // HH:MM format (for solar slots: last computed time, used as fallback)
+  endTime?: string;  // HH:MM; earlier than the start means the next day
+  solar?: SolarTime;
   actions: DeviceAction[];
+  endActions?: DeviceAction[]; // Run at endTime (defaults to reverting actions)
+  jitterMinutes?: number; // Fire at a random offset within ± this, picked once per day
+  cycle?: SlotCycle;      // Repeat on/off from startTime until endTime instead of firing once
+  // Computed for API responses, never stored: today's actual times (HH:MM)
+  todayAt?: string;
+  todayEndAt?: string;
+}
+
+export type SlotPhase = 'start' | 'end';
+
+// A cycling slot runs its actions, then its end actions, every
+// onMinutes + offMinutes through its window (e.g. 20 on / 40 off, 08:00–18:00)
+export interface SlotCycle {
+  onMinutes: number;
+  offMinutes: number;
+}
+
+export type SolarEvent = 'sunrise' | 'sunset' | 'civil_dawn' | 'civil_dusk';
+
+export interface SolarTime {
+  event: SolarEvent;
+  offsetMinutes: number; // Negative = before the event
 }
 
 export interface DeviceAction {
@@ -45,6 +88,7 @@ export interface DeviceAction {
   command: DeviceCommand;
   deviceCategory?: string;
   condition?: ActionCondition;
+  groupId?: string; // Targets a device group (deviceId/deviceName hold the group's); members are looked up when it runs
 }
 
 export type TuyaACMode = 'cold' | 'heat' | 'auto' | 'wind_dry' | 'dehumidification';
@@ -59,14 +103,177 @@ export type DeviceCommand =
   | { type: 'FanSpeed'; speedPercent: number }
   | { type: 'TuyaAC'; mode: TuyaACMode; temperature: number; fan: TuyaACFan }
   | { type: 'TuyaLight'; brightness?: number; colorTemp?: number; colorHSV?: { h: number; s: number; v: number }; workMode?: 'white' | 'colour' }
-  | { type: 'GradualBrightness'; targetBrightness: number; durationMinutes: number };
+  | { type: 'GradualBrightness'; targetBrightness: number; durationMinutes: number }
+  | RampCommand
+  | ClimateCommand
+  | SceneCommand;
+
+// Interpolates one value of a device from `from` (default: its current value) to `to`
+export interface RampCommand {
+  type: 'Ramp';
+  target: RampTarget;
+  from?: RampValue;
+  to: RampValue;
+  durationMinutes: number;
+  easing?: Easing; // Default linear
+}
 
-export interface ActionCondition {
+// Keeps a room within targetTemperature ± hysteresis until its slot ends, by
+// switching an AC on and off from a sensor's temperature readings. Only valid
+// in time slots with an end time.
+export interface ClimateCommand {
+  type: 'Climate';
+  mode: 'cold' | 'heat';
+  targetTemperature: number; // °C, also sent as the AC setpoint
+  hysteresis: number;        // °C either side of the target before switching
+  fan: TuyaACFan;
+  sensorDeviceId: string;
+  sensorDeviceName: string;
+  minOffMinutes?: number;    // Compressor rest after switching off (default 5)
+}
+
+// Applies a scene's device states; in a schedule action the deviceId and
+// deviceName hold the scene's id and name. Deactivating switches its
+// devices off instead.
+export interface SceneCommand {
+  type: 'Scene';
+  sceneId: string;
+  sceneName: string;
+  deactivate?: boolean;
+}
+
+// A named set of device states applied together, e.g. "Movie night"
+export interface Scene {
+  id: string;
+  name: string;
+  userId: string;
+  devices: SceneDevice[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SceneDevice {
+  deviceId: string;
+  deviceName: string;
+  deviceCategory?: string;
+  commands: DeviceCommand[]; // Sent together; immediate commands only (no ramps, climate or scenes)
+}
+
+// Ramp values: brightness and fan speed in %, colorTemp on the Tuya 0–1000
+// (warm–cool) scale, acTemperature in °C, colour as Tuya HSV
+export type RampTarget = 'brightness' | 'colorTemp' | 'colour' | 'acTemperature' | 'fanSpeed';
+export type RampValue = number | HSV;
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface HSV {
+  h: number; // 0–360
+  s: number; // 0–1000
+  v: number; // 0–1000
+}
+
+// What an action is gated on: sensor, time, device-state, DP and online
+// checks combined with all/any/not (a lone sensor check is the original,
+// untyped form)
+export type ActionCondition =
+  | SensorCondition
+  | TimeWindowCondition
+  | DeviceStateCondition
+  | DpCondition
+  | OnlineCondition
+  | AllCondition
+  | AnyCondition
+  | NotCondition;
+
+export interface SensorCondition {
+  type?: 'sensor';
   sensorDeviceId: string;
   sensorDeviceName: string;
   metric: 'temperature' | 'humidity';
   operator: '>' | '<' | '>=' | '<=';
   value: number;
+  onFailure?: ConditionFailurePolicy; // Default: unknown, which lets the action run
+}
+
+// Local time in the schedule's timezone within [after, before) (crosses
+// midnight when before is earlier)
+export interface TimeWindowCondition {
+  type: 'time';
+  after: string;  // HH:MM
+  before: string; // HH:MM
+}
+
+// Another device is currently on or off
+export interface DeviceStateCondition {
+  type: 'device';
+  deviceId: string;
+  deviceName: string;
+  state: 'on' | 'off';
+  onFailure?: ConditionFailurePolicy;
+}
+
+// Any DP code in a device's status, e.g. switch_led = false, mode = 'cold' or
+// cur_power > 50. The value's type decides the comparison: booleans and enums
+// (strings) support = and !=, numbers all operators.
+export interface DpCondition {
+  type: 'dp';
+  deviceId: string;
+  deviceName: string;
+  code: string;
+  operator: DpOperator;
+  value: boolean | number | string;
+  onFailure?: ConditionFailurePolicy;
+}
+
+export type DpOperator = '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+// A device is (or isn't) connected to the Tuya cloud
+export interface OnlineCondition {
+  type: 'online';
+  deviceId: string;
+  deviceName: string;
+  online: boolean;
+  onFailure?: ConditionFailurePolicy; // lastKnown isn't available
+}
+
+// What a check does when its device can't be read: count as met (open) or
+// not met (closed), re-read it, or use its last good reading if recent enough.
+// Retry and last-known fall back to `then` (default open) if that fails too.
+export interface ConditionFailurePolicy {
+  mode: 'open' | 'closed' | 'retry' | 'lastKnown';
+  retries?: number;       // retry: extra reads
+  maxAgeMinutes?: number; // lastKnown: oldest reading accepted
+  then?: 'open' | 'closed';
+}
+
+// Which way a failure policy went, recorded in the execution log
+export type ConditionPolicyPath = 'retried' | 'last_known' | 'failed_open' | 'failed_closed';
+
+export interface ConditionFallback {
+  check: string;               // The check whose device couldn't be read
+  path: ConditionPolicyPath;
+  attempts?: number;           // Reads made, with the retry policy
+  readingAgeMinutes?: number;  // Age of the last known reading used
+}
+
+// A device's last successful status read
+export interface DeviceReading {
+  at: number;
+  status: Record<string, any>;
+}
+
+export interface AllCondition {
+  type: 'all';
+  conditions: ActionCondition[];
+}
+
+export interface AnyCondition {
+  type: 'any';
+  conditions: ActionCondition[];
+}
+
+export interface NotCondition {
+  type: 'not';
+  condition: ActionCondition;
 }
 
 export interface DeviceTrigger {
@@ -75,12 +282,185 @@ export interface DeviceTrigger {
   sourceDeviceName: string;
   condition: TriggerCondition;
   actions: DeviceAction[];
+  cooldownMinutes?: number; // Minimum time between firings
 }
 
 export type TriggerCondition =
   | { type: 'state_change'; trait: string; value: unknown }
   | { type: 'threshold'; trait: string; operator: '>' | '<' | '=' | '>=' | '<='; value: number };
 
+// Execution history
+export type ExecutionSource = 'schedule' | 'catch_up' | 'manual' | 'trigger' | 'vacation';
+export type ExecutionOutcome = 'success' | 'partial' | 'failed' | 'skipped';
+export type ActionOutcome = 'success' | 'failed' | 'skipped' | 'error';
+export type Verification = 'verified' | 'mismatch' | 'unreadable';
+
+export interface ConditionResult {
+  met: boolean;
+  sensorValue: number | null; // First sensor reading, if any
+  detail?: string;            // Each check evaluated, e.g. "humidity 70 > 65 ✓ AND AC is off ✓"
+  fallbacks?: ConditionFallback[]; // Failure policies applied to unreadable devices
+  note?: string;
+}
+
+export interface ActionRecord {
+  deviceId: string;
+  deviceName: string;
+  command: DeviceCommand;
+  condition?: ConditionResult;
+  tuyaCommands?: Array<{ code: string; value: any }>;
+  outcome: ActionOutcome;
+  attempts?: number;           // Sends made, including retries
+  verification?: Verification; // Read-back result, when verification is on
+  overriddenBy?: { scheduleId: string; scheduleName: string }; // Skipped for a higher-priority schedule
+  sceneDevices?: ActionRecord[]; // Per-device results of a scene action
+  groupDevices?: ActionRecord[]; // Per-member results of a group action
+  heldSince?: number;          // Skipped: on a manual hold set at this time
+  error?: string;
+}
+
+export interface ExecutionRecord {
+  id: string;
+  userId: string;
+  scheduleId: string;
+  scheduleName: string;
+  slotId?: string;
+  triggerId?: string;
+  phase?: SlotPhase;
+  cycle?: number;       // Which on/off cycle of a cycling slot (from 0)
+  source: ExecutionSource;
+  scheduledFor?: number;
+  startedAt: number;
+  finishedAt: number;
+  outcome: ExecutionOutcome;
+  actions: ActionRecord[];
+  note?: string;
+}
+
+// One device action a schedule will run (GET /api/schedules/preview)
+export interface PreviewEntry {
+  at: number;          // UTC instant
+  scheduleId: string;
+  scheduleName: string;
+  slotId: string;
+  phase: SlotPhase;
+  deviceId: string;
+  deviceName: string;
+  command: DeviceCommand;
+  condition?: ActionCondition;
+}
+
+// Two schedules giving a device different commands at the same or overlapping
+// times (GET /api/schedules/conflicts and save warnings)
+export type ConflictKind = 'same_time' | 'overlap';
+
+export interface ConflictingAction {
+  scheduleId: string;
+  scheduleName: string;
+  slotId: string;
+  phase: SlotPhase;
+  priority: number;
+  command: DeviceCommand;
+}
+
+export interface ScheduleConflict {
+  deviceId: string;
+  deviceName: string;
+  kind: ConflictKind;
+  at: number;          // First clash within the analysed window
+  occurrences: number; // Clashes within the window
+  actions: [ConflictingAction, ConflictingAction];
+  winnerScheduleId: string; // Whose command the device ends up with
+}
+
+// Gradual transitions in progress (persisted so they resume after a restart)
+export interface ActiveTransition {
+  deviceId: string;
+  deviceName: string;
+  userId: string;
+  scheduleId?: string;
+  scheduleName?: string;
+  target?: RampTarget;     // Absent on transitions saved before ramps: brightness
+  deviceCategory?: string;
+  from: RampValue;         // Value at the start
+  to: RampValue;
+  easing?: Easing;
+  startedAt: number;
+  durationMinutes: number;
+}
+
+// Climate control loops in progress (persisted so they resume after a restart)
+export interface ActiveClimate {
+  deviceId: string;
+  deviceName: string;
+  userId: string;
+  scheduleId: string;
+  scheduleName: string;
+  slotId: string;
+  deviceCategory?: string;
+  command: ClimateCommand;
+  startedAt: number;
+  endsAt: number;             // Backstop in case the slot's end never runs
+  acOn?: boolean;             // What the loop last switched the AC to
+  lastSwitchedAt?: number;
+  lastOffAt?: number;         // Start of the current compressor rest
+  lastTemperature?: number;   // Room reading (°C) at the last switch
+}
+
+// Manual override hold: after someone controls a device by hand, automation
+// leaves it alone until the next slot for it runs, for a while, or until
+// the hold is cleared
+export type HoldMode = 'next_slot' | 'duration' | 'until_cleared';
+
+export interface DeviceHold {
+  deviceId: string;
+  userId: string;
+  mode: HoldMode;
+  setAt: number;
+  until?: number;             // End of a duration hold
+}
+
+// Last known state of a device trigger, kept so edges survive restarts and takeovers
+export interface TriggerState {
+  matched: boolean;  // Whether its condition was met at the last reading
+  firedAt?: number;  // When it last fired (for cooldowns)
+}
+
+// Scheduler leader lease (one instance runs schedules at a time)
+export interface SchedulerLease {
+  holderId: string;   // Instance id of the leader plus a per-process token
+  hostname: string;
+  pid: number;
+  acquiredAt: number;
+  heartbeatAt: number;
+  expiresAt: number;  // Others may take over after this
+}
+
+// Vacation mode
+export interface VacationDevice {
+  deviceId: string;
+  deviceName: string;
+  deviceCategory?: string;
+}
+
+export interface VacationEvent {
+  deviceId: string;
+  at: number;   // UTC instant
+  on: boolean;
+  done?: boolean;
+}
+
+export interface VacationMode {
+  userId: string;
+  active: boolean;
+  devices: VacationDevice[];  // Lights that simulate occupancy
+  returnAt: number;           // Vacation ends automatically at this instant
+  timezone?: string;          // IANA zone the simulated evenings follow
+  startedAt: number;
+  endedAt?: number;
+  plan?: { date: string; events: VacationEvent[] }; // Today's randomized on/off plan
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
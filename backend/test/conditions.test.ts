@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { validateCondition, MAX_CONDITION_DEPTH } from '../src/services/conditions.js';
+
+const sensor = { sensorDeviceId: 'sensor-1', sensorDeviceName: 'Sensor', metric: 'humidity', operator: '>', value: 65 };
+const acOff = { type: 'device', deviceId: 'ac-1', deviceName: 'AC', state: 'off' };
+
+describe('validateCondition', () => {
+  it('accepts each kind of check', () => {
+    expect(validateCondition(sensor)).toBeNull();
+    expect(validateCondition({ ...sensor, type: 'sensor' })).toBeNull();
+    expect(validateCondition({ type: 'time', after: '22:00', before: '06:00' })).toBeNull();
+    expect(validateCondition(acOff)).toBeNull();
+    expect(validateCondition({ type: 'dp', deviceId: 'plug-1', deviceName: 'Plug', code: 'cur_power', operator: '>', value: 50 })).toBeNull();
+    expect(validateCondition({ type: 'online', deviceId: 'plug-1', deviceName: 'Plug', online: true })).toBeNull();
+  });
+
+  it('accepts all/any/not trees', () => {
+    expect(validateCondition({ type: 'all', conditions: [sensor, { type: 'not', condition: { type: 'any', conditions: [acOff] } }] })).toBeNull();
+  });
+
+  it('rejects empty groups and bad children', () => {
+    expect(validateCondition({ type: 'any', conditions: [] })).toMatch(/non-empty/);
+    expect(validateCondition({ type: 'all', conditions: [sensor, { ...acOff, state: 'dim' }] })).toMatch(/state of on or off/);
+    expect(validateCondition({ type: 'not' })).toMatch(/must be an object/);
+  });
+
+  it('limits nesting depth', () => {
+    let tree: object = sensor;
+    for (let i = 0; i <= MAX_CONDITION_DEPTH; i++) tree = { type: 'not', condition: tree };
+    expect(validateCondition(tree)).toMatch(/nested at most/);
+  });
+
+  it('only accepts real 24-hour times in time windows', () => {
+    expect(validateCondition({ type: 'time', after: '99:99', before: '06:00' })).toMatch(/HH:MM/);
+    expect(validateCondition({ type: 'time', after: '22:00', before: '24:61' })).toMatch(/HH:MM/);
+    expect(validateCondition({ type: 'time', after: '7:00', before: '08:00' })).toMatch(/HH:MM/);
+    expect(validateCondition({ type: 'time', after: '22:00' })).toMatch(/HH:MM/);
+  });
+
+  it('only compares numbers with ordering operators', () => {
+    const dp = { type: 'dp', deviceId: 'ac-1', deviceName: 'AC', code: 'mode' };
+    expect(validateCondition({ ...dp, operator: '!=', value: 'cold' })).toBeNull();
+    expect(validateCondition({ ...dp, operator: '>', value: 'cold' })).toMatch(/only be compared with = or !=/);
+    expect(validateCondition({ ...dp, operator: '~', value: 1 })).toMatch(/operator/);
+    expect(validateCondition({ ...dp, operator: '=', value: null })).toMatch(/boolean, number or string/);
+  });
+
+  it('validates failure policies', () => {
+    expect(validateCondition({ ...acOff, onFailure: { mode: 'retry', retries: 2, then: 'closed' } })).toBeNull();
+    expect(validateCondition({ ...acOff, onFailure: { mode: 'sometimes' } })).toMatch(/onFailure mode/);
+    expect(validateCondition({ ...acOff, onFailure: { mode: 'retry', retries: 0 } })).toMatch(/retries/);
+    expect(validateCondition({ type: 'online', deviceId: 'plug-1', deviceName: 'Plug', online: false, onFailure: { mode: 'lastKnown' } }))
+      .toMatch(/last known/);
+  });
+
+  it('rejects unknown types and non-objects', () => {
+    expect(validateCondition({ type: 'weather' })).toMatch(/Unknown condition type/);
+    expect(validateCondition(null)).toMatch(/must be an object/);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ExecutionRecord, ActionRecord } from '../src/types/index.js';
+
+// In-memory stand-in for the Realtime Database queries history uses
+const data: Record<string, Record<string, any>> = {};
+
+function query(path: string) {
+  let orderBy = '';
+  let end: { value: number; key?: string } | null = null;
+  let last = Infinity;
+
+  const q = {
+    orderByChild(child: string) { orderBy = child; return q; },
+    endBefore(value: number, key?: string) { end = { value, key }; return q; },
+    limitToLast(n: number) { last = n; return q; },
+    async once() {
+      let entries = Object.entries(data[path] || {})
+        .sort(([aKey, a], [bKey, b]) => a[orderBy] - b[orderBy] || (aKey < bKey ? -1 : aKey > bKey ? 1 : 0));
+      if (end) {
+        const { value, key } = end;
+        entries = entries.filter(([k, v]) => v[orderBy] < value || (key != null && v[orderBy] === value && k < key));
+      }
+      entries = entries.slice(Math.max(0, entries.length - last));
+      return { exists: () => entries.length > 0, val: () => Object.fromEntries(entries) };
+    },
+  };
+  return q;
+}
+
+vi.mock('../src/services/firebase.js', () => ({
+  getDb: () => ({ ref: (path: string) => query(path) }),
+}));
+
+const { queryExecutions } = await import('../src/services/db.js');
+
+const action = (deviceId: string, outcome: ActionRecord['outcome'], extra: Partial<ActionRecord> = {}): ActionRecord => ({
+  deviceId,
+  deviceName: deviceId,
+  command: { type: 'OnOff', on: true },
+  outcome,
+  ...extra,
+});
+
+function addRecord(id: string, startedAt: number, actions: ActionRecord[] = [action('lamp', 'success')]): void {
+  const record: ExecutionRecord = {
+    id,
+    userId: 'user-1',
+    scheduleId: 'sched-1',
+    scheduleName: 'Test',
+    source: 'schedule',
+    startedAt,
+    finishedAt: startedAt,
+    outcome: 'success',
+    actions,
+  };
+  (data['users/user-1/history'] ??= {})[id] = record;
+}
+
+const ids = (records: ExecutionRecord[]) => records.map(r => r.id);
+
+beforeEach(() => {
+  for (const key of Object.keys(data)) delete data[key];
+});
+
+describe('queryExecutions', () => {
+  it('pages newest first without skipping records that share a start time', async () => {
+    addRecord('exec-a', 1000);
+    addRecord('exec-b', 2000);
+    addRecord('exec-c', 2000);
+    addRecord('exec-d', 2000);
+    addRecord('exec-e', 3000);
+
+    const first = await queryExecutions('user-1', { limit: 2 });
+    expect(ids(first.records)).toEqual(['exec-e', 'exec-d']);
+    expect(first.nextCursor).toBe('2000:exec-d');
+
+    const second = await queryExecutions('user-1', { limit: 2, before: { startedAt: 2000, id: 'exec-d' } });
+    expect(ids(second.records)).toEqual(['exec-c', 'exec-b']);
+
+    const third = await queryExecutions('user-1', { limit: 2, before: { startedAt: 2000, id: 'exec-b' } });
+    expect(ids(third.records)).toEqual(['exec-a']);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('returns no cursor when a full page reaches the oldest record', async () => {
+    addRecord('exec-a', 1000);
+    addRecord('exec-b', 2000);
+
+    const page = await queryExecutions('user-1', { limit: 2 });
+    expect(ids(page.records)).toEqual(['exec-b', 'exec-a']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('accepts a bare timestamp cursor', async () => {
+    addRecord('exec-a', 1000);
+    addRecord('exec-b', 2000);
+    addRecord('exec-c', 3000);
+
+    const page = await queryExecutions('user-1', { limit: 5, before: { startedAt: 3000 } });
+    expect(ids(page.records)).toEqual(['exec-b', 'exec-a']);
+  });
+
+  it('fetches more batches until a filtered page is full', async () => {
+    for (let i = 0; i < 120; i++) {
+      addRecord(`exec-${String(i).padStart(3, '0')}`, i * 1000, [action(i % 60 === 0 ? 'fan' : 'lamp', 'success')]);
+    }
+
+    const page = await queryExecutions('user-1', { limit: 2, deviceId: 'fan' });
+    expect(ids(page.records)).toEqual(['exec-060', 'exec-000']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('matches devices run through groups and scenes, with their own outcome', async () => {
+    addRecord('exec-group', 3000, [action('group-1', 'failed', { groupDevices: [action('lamp', 'failed'), action('fan', 'success')] })]);
+    addRecord('exec-scene', 2000, [action('scene-1', 'success', { sceneDevices: [action('lamp', 'success')] })]);
+    addRecord('exec-other', 1000, [action('heater', 'success')]);
+
+    expect(ids((await queryExecutions('user-1', { limit: 10, deviceId: 'lamp' })).records)).toEqual(['exec-group', 'exec-scene']);
+    expect(ids((await queryExecutions('user-1', { limit: 10, deviceId: 'lamp', outcome: 'failed' })).records)).toEqual(['exec-group']);
+    expect(ids((await queryExecutions('user-1', { limit: 10, deviceId: 'fan', outcome: 'failed' })).records)).toEqual([]);
+  });
+});
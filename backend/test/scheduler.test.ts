@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { findDueSlots, getSlotTicks } from '../src/services/scheduler.js';
+import type { Schedule, TimeSlot } from '../src/types/index.js';
+
+const at = (iso: string) => Date.parse(iso);
+
+const makeSchedule = (slot: TimeSlot, overrides: Partial<Schedule> = {}): Schedule => ({
+  id: 'sched-1',
+  name: 'Test',
+  enabled: true,
+  userId: 'user-1',
+  createdAt: 0,
+  updatedAt: 0,
+  daysOfWeek: ['friday'],
+  timezone: 'UTC',
+  timeSlots: [slot],
+  ...overrides,
+});
+
+const summarize = (schedule: Schedule, from: string, to: string) =>
+  findDueSlots(schedule, at(from), at(to)).map(d => ({
+    phase: d.phase,
+    date: d.date,
+    at: new Date(d.at).toISOString(),
+    ...(d.cycle != null && { cycle: d.cycle }),
+  }));
+
+describe('findDueSlots: overnight ranges', () => {
+  const overnight: TimeSlot = { id: 'night', startTime: '22:00', endTime: '06:00', actions: [] };
+
+  it('ends a range that crosses midnight on the next morning', () => {
+    // 6 Jun 2025 is a Friday; Saturday isn't an active day, but the end still runs
+    expect(summarize(makeSchedule(overnight), '2025-06-06T21:00:00Z', '2025-06-07T07:00:00Z')).toEqual([
+      { phase: 'start', date: '2025-06-06', at: '2025-06-06T22:00:00.000Z' },
+      { phase: 'end', date: '2025-06-06', at: '2025-06-07T06:00:00.000Z' },
+    ]);
+  });
+
+  it('finds the end of a range started the day before the window', () => {
+    expect(summarize(makeSchedule(overnight), '2025-06-07T05:00:00Z', '2025-06-07T23:00:00Z')).toEqual([
+      { phase: 'end', date: '2025-06-06', at: '2025-06-07T06:00:00.000Z' },
+    ]);
+  });
+
+  it('treats the window as (from, to]', () => {
+    expect(summarize(makeSchedule(overnight), '2025-06-06T22:00:00Z', '2025-06-07T06:00:00Z')).toEqual([
+      { phase: 'end', date: '2025-06-06', at: '2025-06-07T06:00:00.000Z' },
+    ]);
+  });
+
+  it('keeps local times across a DST change overnight', () => {
+    // Sydney clocks go forward at 02:00 on Sunday 5 Oct 2025
+    const schedule = makeSchedule(overnight, { timezone: 'Australia/Sydney', daysOfWeek: ['saturday'] });
+    expect(summarize(schedule, '2025-10-04T11:00:00Z', '2025-10-04T20:00:00Z')).toEqual([
+      { phase: 'start', date: '2025-10-04', at: '2025-10-04T12:00:00.000Z' }, // 22:00 AEST
+      { phase: 'end', date: '2025-10-04', at: '2025-10-04T19:00:00.000Z' },   // 06:00 AEDT
+    ]);
+  });
+
+  it('runs a slot without an end time once', () => {
+    const slot: TimeSlot = { id: 'morning', startTime: '07:30', actions: [] };
+    expect(summarize(makeSchedule(slot), '2025-06-06T00:00:00Z', '2025-06-07T00:00:00Z')).toEqual([
+      { phase: 'start', date: '2025-06-06', at: '2025-06-06T07:30:00.000Z' },
+    ]);
+  });
+});
+
+describe('getSlotTicks: cycling slots', () => {
+  const MINUTE = 60 * 1000;
+  const times = { start: at('2025-06-06T08:00:00Z'), end: at('2025-06-06T10:00:00Z') };
+  const describeTicks = (slot: TimeSlot, slotTimes: { start: number; end?: number }) =>
+    getSlotTicks(slot, slotTimes).map(t => ({
+      phase: t.phase,
+      at: new Date(t.at).toISOString().slice(11, 16),
+      until: new Date(t.until).toISOString().slice(11, 16),
+      ...(t.cycle != null && { cycle: t.cycle }),
+    }));
+
+  it('turns on and off each period and ends at the window end', () => {
+    const slot: TimeSlot = { id: 'fan', startTime: '08:00', endTime: '10:00', cycle: { onMinutes: 20, offMinutes: 40 }, actions: [] };
+    expect(describeTicks(slot, times)).toEqual([
+      { phase: 'start', at: '08:00', until: '08:20', cycle: 0 },
+      { phase: 'end', at: '08:20', until: '08:21', cycle: 0 },
+      { phase: 'start', at: '09:00', until: '09:20', cycle: 1 },
+      { phase: 'end', at: '09:20', until: '09:21', cycle: 1 },
+      { phase: 'end', at: '10:00', until: '10:01' },
+    ]);
+  });
+
+  it('lets the window end take over a cycle cut short', () => {
+    const slot: TimeSlot = { id: 'fan', startTime: '08:00', endTime: '09:10', cycle: { onMinutes: 30, offMinutes: 30 }, actions: [] };
+    expect(describeTicks(slot, { start: times.start, end: times.start + 70 * MINUTE })).toEqual([
+      { phase: 'start', at: '08:00', until: '08:30', cycle: 0 },
+      { phase: 'end', at: '08:30', until: '08:31', cycle: 0 },
+      { phase: 'start', at: '09:00', until: '09:10', cycle: 1 },
+      { phase: 'end', at: '09:10', until: '09:11' },
+    ]);
+  });
+
+  it('runs a plain range once, holding the devices until its end', () => {
+    const slot: TimeSlot = { id: 'lamp', startTime: '08:00', endTime: '10:00', actions: [] };
+    expect(describeTicks(slot, times)).toEqual([
+      { phase: 'start', at: '08:00', until: '10:00' },
+      { phase: 'end', at: '10:00', until: '10:01' },
+    ]);
+  });
+
+  it('ignores a cycle on a slot without an end time', () => {
+    const slot: TimeSlot = { id: 'lamp', startTime: '08:00', cycle: { onMinutes: 10, offMinutes: 10 }, actions: [] };
+    expect(describeTicks(slot, { start: times.start })).toEqual([
+      { phase: 'start', at: '08:00', until: '08:01' },
+    ]);
+  });
+});
+
+describe('findDueSlots: cycling slots', () => {
+  it('reports each cycle of an overnight cycling slot with its index and start date', () => {
+    const slot: TimeSlot = { id: 'pump', startTime: '23:00', endTime: '01:00', cycle: { onMinutes: 15, offMinutes: 45 }, actions: [] };
+    expect(summarize(makeSchedule(slot), '2025-06-06T22:00:00Z', '2025-06-07T02:00:00Z')).toEqual([
+      { phase: 'start', date: '2025-06-06', at: '2025-06-06T23:00:00.000Z', cycle: 0 },
+      { phase: 'end', date: '2025-06-06', at: '2025-06-06T23:15:00.000Z', cycle: 0 },
+      { phase: 'start', date: '2025-06-06', at: '2025-06-07T00:00:00.000Z', cycle: 1 },
+      { phase: 'end', date: '2025-06-06', at: '2025-06-07T00:15:00.000Z', cycle: 1 },
+      { phase: 'end', date: '2025-06-06', at: '2025-06-07T01:00:00.000Z' },
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { statusToCommands } from '../src/services/snapshot.js';
+
+describe('statusToCommands', () => {
+  it('replays an off device as a single OnOff', () => {
+    expect(statusToCommands({ switch_led: false, bright_value_v2: 500 })).toEqual([{ type: 'OnOff', on: false }]);
+  });
+
+  it('replays a white light with its brightness and colour temperature', () => {
+    expect(statusToCommands({ switch_led: true, work_mode: 'white', bright_value_v2: 504, temp_value_v2: 300 })).toEqual([
+      { type: 'OnOff', on: true },
+      { type: 'TuyaLight', workMode: 'white', brightness: 50, colorTemp: 300 },
+    ]);
+  });
+
+  it('replays a colour light from its HSV data', () => {
+    expect(statusToCommands({ switch_led: true, work_mode: 'colour', colour_data_v2: '{"h":120,"s":1000,"v":800}' })).toEqual([
+      { type: 'OnOff', on: true },
+      { type: 'TuyaLight', workMode: 'colour', colorHSV: { h: 120, s: 1000, v: 800 } },
+    ]);
+  });
+
+  it('keeps a dimmed light at 1% or more', () => {
+    expect(statusToCommands({ switch_led: true, bright_value_v2: 2 })[1]).toMatchObject({ brightness: 1 });
+  });
+
+  it('replays a plug as just its switch', () => {
+    expect(statusToCommands({ switch_1: true, cur_power: 12 })).toEqual([{ type: 'OnOff', on: true }]);
+  });
+
+  it('replays an AC with a power switch', () => {
+    expect(statusToCommands({ switch: true, mode: 'cold', temp: 23, fan: 'low' })).toEqual([
+      { type: 'OnOff', on: true },
+      { type: 'TuyaAC', mode: 'cold', temperature: 23, fan: 'low' },
+    ]);
+  });
+
+  it('replays an AC that reports only mode, temperature and fan', () => {
+    expect(statusToCommands({ mode: 'heat', temp: '21', fan: 'turbo' })).toEqual([
+      { type: 'TuyaAC', mode: 'heat', temperature: 21, fan: 'auto' },
+    ]);
+  });
+
+  it('finds nothing to replay without a switch or AC settings', () => {
+    expect(statusToCommands({ va_temperature: 215, va_humidity: 60 })).toEqual([]);
+    expect(statusToCommands({ mode: 'cold' })).toEqual([]);
+  });
+});
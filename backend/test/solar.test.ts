@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { getSolarEventMinutes, isValidSolarTime, MAX_SOLAR_OFFSET_MINUTES } from '../src/services/solar.js';
+import { getSlotTimes } from '../src/services/scheduler.js';
+import type { Schedule } from '../src/types/index.js';
+
+const SYDNEY = { latitude: -33.87, longitude: 151.21 };
+const HELSINKI = { latitude: 60.17, longitude: 24.94 };
+const TROMSO = { latitude: 69.65, longitude: 18.96 };
+
+// Published times for these days are within a couple of minutes of the formulas
+const near = (actual: number | null, hours: number, minutes: number) => {
+  expect(actual).not.toBeNull();
+  expect(Math.abs(actual! - (hours * 60 + minutes))).toBeLessThanOrEqual(3);
+};
+
+describe('getSolarEventMinutes', () => {
+  it('finds the sun times of a winter day in Sydney', () => {
+    near(getSolarEventMinutes('2025-06-21', 'sunrise', SYDNEY, 'Australia/Sydney'), 7, 0);
+    near(getSolarEventMinutes('2025-06-21', 'sunset', SYDNEY, 'Australia/Sydney'), 16, 54);
+    near(getSolarEventMinutes('2025-06-21', 'civil_dawn', SYDNEY, 'Australia/Sydney'), 6, 33);
+    near(getSolarEventMinutes('2025-06-21', 'civil_dusk', SYDNEY, 'Australia/Sydney'), 17, 22);
+  });
+
+  it('follows daylight saving time', () => {
+    near(getSolarEventMinutes('2025-12-21', 'sunrise', SYDNEY, 'Australia/Sydney'), 5, 41);
+    near(getSolarEventMinutes('2025-12-21', 'sunset', SYDNEY, 'Australia/Sydney'), 20, 5);
+  });
+
+  it('returns null when the event does not happen that day', () => {
+    expect(getSolarEventMinutes('2025-06-21', 'sunset', TROMSO, 'Europe/Oslo')).toBeNull();
+    expect(getSolarEventMinutes('2025-12-21', 'sunrise', TROMSO, 'Europe/Oslo')).toBeNull();
+  });
+});
+
+describe('isValidSolarTime', () => {
+  it('accepts known events with whole-minute offsets within the limit', () => {
+    expect(isValidSolarTime({ event: 'sunset', offsetMinutes: 0 })).toBe(true);
+    expect(isValidSolarTime({ event: 'civil_dawn', offsetMinutes: -MAX_SOLAR_OFFSET_MINUTES })).toBe(true);
+  });
+
+  it('rejects unknown events and bad offsets', () => {
+    expect(isValidSolarTime({ event: 'noon', offsetMinutes: 0 })).toBe(false);
+    expect(isValidSolarTime({ event: 'toString', offsetMinutes: 0 })).toBe(false);
+    expect(isValidSolarTime({ event: 'sunset', offsetMinutes: 1.5 })).toBe(false);
+    expect(isValidSolarTime({ event: 'sunset', offsetMinutes: MAX_SOLAR_OFFSET_MINUTES + 1 })).toBe(false);
+  });
+});
+
+describe('solar slots', () => {
+  const schedule = (location: typeof HELSINKI, timezone: string, offsetMinutes: number): Schedule => ({
+    id: 'sched-1',
+    name: 'Sun',
+    enabled: true,
+    userId: 'user-1',
+    createdAt: 0,
+    updatedAt: 0,
+    daysOfWeek: [],
+    timezone,
+    location,
+    timeSlots: [{ id: 'slot-1', startTime: '00:00', solar: { event: 'sunset', offsetMinutes }, actions: [] }],
+  });
+
+  it('runs an offset past midnight early on the next day instead of clamping it', () => {
+    const s = schedule(HELSINKI, 'Europe/Helsinki', 90);
+    const times = getSlotTimes(s, s.timeSlots[0], '2025-06-21');
+    const local = getSolarEventMinutes('2025-06-21', 'sunset', HELSINKI, 'Europe/Helsinki')! + 90 - 24 * 60;
+    expect(times?.start).toBe(Date.parse('2025-06-22T00:00:00+03:00') + local * 60 * 1000);
+  });
+
+  it('ends a sun-relative range on the day it actually starts', () => {
+    const s = schedule(HELSINKI, 'Europe/Helsinki', 90);
+    const slot = { ...s.timeSlots[0], endTime: '02:00' };
+    const times = getSlotTimes(s, slot, '2025-06-21')!;
+    expect(times.end).toBe(Date.parse('2025-06-22T02:00:00+03:00'));
+    expect(times.end! - times.start).toBeLessThan(2 * 60 * 60 * 1000);
+  });
+
+  it('does not fire when the event does not happen', () => {
+    const s = schedule(TROMSO, 'Europe/Oslo', 0);
+    expect(getSlotTimes(s, s.timeSlots[0], '2025-06-21')).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { zonedTimeToInstant, getZonedTime, addDays, parseTime, TIME_PATTERN } from '../src/services/timezone.js';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('zonedTimeToInstant', () => {
+  it('converts a local time using the offset in effect that day', () => {
+    expect(zonedTimeToInstant('2025-06-01', 8 * 60, 'Australia/Sydney')).toBe(at('2025-05-31T22:00:00Z'));
+    expect(zonedTimeToInstant('2025-01-15', 8 * 60, 'Australia/Sydney')).toBe(at('2025-01-14T21:00:00Z'));
+  });
+
+  it('maps a time skipped by spring-forward to the first instant after the gap', () => {
+    // Sydney jumps 02:00 → 03:00 on 5 Oct 2025
+    expect(zonedTimeToInstant('2025-10-05', 2 * 60 + 30, 'Australia/Sydney')).toBe(at('2025-10-04T16:00:00Z'));
+    // New York jumps 02:00 → 03:00 on 9 Mar 2025
+    expect(zonedTimeToInstant('2025-03-09', 2 * 60 + 30, 'America/New_York')).toBe(at('2025-03-09T07:00:00Z'));
+  });
+
+  it('maps a time repeated by fall-back to its first occurrence', () => {
+    // Sydney repeats 02:00–03:00 on 6 Apr 2025 (AEDT first)
+    expect(zonedTimeToInstant('2025-04-06', 2 * 60 + 30, 'Australia/Sydney')).toBe(at('2025-04-05T15:30:00Z'));
+    // New York repeats 01:00–02:00 on 2 Nov 2025 (EDT first)
+    expect(zonedTimeToInstant('2025-11-02', 60 + 30, 'America/New_York')).toBe(at('2025-11-02T05:30:00Z'));
+  });
+
+  it('keeps local times either side of a change on the right offset', () => {
+    expect(zonedTimeToInstant('2025-10-05', 60, 'Australia/Sydney')).toBe(at('2025-10-04T15:00:00Z'));
+    expect(zonedTimeToInstant('2025-10-05', 4 * 60, 'Australia/Sydney')).toBe(at('2025-10-04T17:00:00Z'));
+  });
+
+  it('rolls minutes outside the day over to the adjacent date', () => {
+    expect(zonedTimeToInstant('2025-06-01', 24 * 60 + 30, 'UTC')).toBe(at('2025-06-02T00:30:00Z'));
+    expect(zonedTimeToInstant('2025-06-01', -30, 'UTC')).toBe(at('2025-05-31T23:30:00Z'));
+  });
+
+  it('round-trips with getZonedTime', () => {
+    const instant = zonedTimeToInstant('2025-11-02', 23 * 60 + 45, 'America/New_York');
+    expect(getZonedTime(instant, 'America/New_York')).toEqual({
+      date: '2025-11-02',
+      time: '23:45',
+      minutes: 23 * 60 + 45,
+      day: 'sunday',
+    });
+  });
+});
+
+describe('date and time helpers', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('parses HH:MM and only accepts real 24-hour times', () => {
+    expect(parseTime('07:45')).toBe(465);
+    expect(TIME_PATTERN.test('23:59')).toBe(true);
+    expect(TIME_PATTERN.test('24:00')).toBe(false);
+    expect(TIME_PATTERN.test('99:99')).toBe(false);
+    expect(TIME_PATTERN.test('7:45')).toBe(false);
+  });
+});
@@ -1,5 +1,5 @@
 import { auth } from './firebase';
-import type { Schedule, Device, DeviceGroup } from '../types';
+import type { Schedule, Device, DeviceGroup, Scene, SceneDevice, ActionRecord, ExecutionOutcome, ExecutionRecord, HistoryFilters, VacationMode, VacationDevice, ActiveTransition, DeviceHold, HoldMode, PreviewEntry, ScheduleConflict } from '../types';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3005/api';
 
@@ -34,6 +34,15 @@ async function apiRequest<T>(
   return data;
 }
 
+function toQueryString(params: object): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  }
+  const str = query.toString();
+  return str ? `?${str}` : '';
+}
+
 // Device API (backed by Tuya)
 export const deviceApi = {
   list: async (): Promise<Device[]> => {
@@ -86,11 +95,13 @@ export const tuyaApi = {
     return response.data;
   },
 
-  sendCommand: async (deviceId: string, commands: Array<{ code: string; value: unknown }>): Promise<void> => {
-    await apiRequest<{ success: boolean }>(`/tuya/devices/${deviceId}/command`, {
+  // Manual commands put the device on hold until its next slot
+  sendCommand: async (deviceId: string, commands: Array<{ code: string; value: unknown }>): Promise<DeviceHold | null> => {
+    const response = await apiRequest<{ success: boolean; hold?: DeviceHold }>(`/tuya/devices/${deviceId}/command`, {
       method: 'POST',
       body: JSON.stringify({ commands })
     });
+    return response.hold ?? null;
   }
 };
 
@@ -122,6 +133,58 @@ export const groupApi = {
   },
 };
 
+// Scene API
+export const sceneApi = {
+  list: async (): Promise<Scene[]> => {
+    const response = await apiRequest<{ success: boolean; data: Scene[] }>('/scenes');
+    return response.data;
+  },
+
+  create: async (name: string, devices: SceneDevice[]): Promise<Scene> => {
+    const response = await apiRequest<{ success: boolean; data: Scene }>('/scenes', {
+      method: 'POST',
+      body: JSON.stringify({ name, devices }),
+    });
+    return response.data;
+  },
+
+  update: async (id: string, data: { name?: string; devices?: SceneDevice[] }): Promise<Scene> => {
+    const response = await apiRequest<{ success: boolean; data: Scene }>(`/scenes/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+    return response.data;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await apiRequest<{ success: boolean }>(`/scenes/${id}`, { method: 'DELETE' });
+  },
+
+  // Current states of devices (or a group's), ready to save as a scene
+  snapshot: async (target: { deviceIds?: string[]; groupId?: string }): Promise<{
+    devices: SceneDevice[];
+    failed: Array<{ deviceId: string; deviceName: string; error: string }>;
+  }> => {
+    const response = await apiRequest<{
+      success: boolean;
+      data: SceneDevice[];
+      failed: Array<{ deviceId: string; deviceName: string; error: string }>;
+    }>('/scenes/snapshot', {
+      method: 'POST',
+      body: JSON.stringify(target),
+    });
+    return { devices: response.data, failed: response.failed };
+  },
+
+  activate: async (id: string): Promise<{ outcome: ExecutionOutcome; results: ActionRecord[] }> => {
+    const response = await apiRequest<{ success: boolean; outcome: ExecutionOutcome; data: ActionRecord[] }>(
+      `/scenes/${id}/activate`,
+      { method: 'POST' }
+    );
+    return { outcome: response.outcome, results: response.data };
+  },
+};
+
 // Schedule API
 export const scheduleApi = {
   list: async (): Promise<Schedule[]> => {
@@ -134,20 +197,34 @@ export const scheduleApi = {
     return response.data;
   },
 
-  create: async (schedule: Omit<Schedule, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<Schedule> => {
-    const response = await apiRequest<{ success: boolean; data: Schedule }>('/schedules', {
+  preview: async (range: { from?: number; to?: number } = {}): Promise<PreviewEntry[]> => {
+    const response = await apiRequest<{ success: boolean; data: PreviewEntry[] }>(
+      `/schedules/preview${toQueryString(range)}`
+    );
+    return response.data;
+  },
+
+  conflicts: async (range: { from?: number; to?: number } = {}): Promise<ScheduleConflict[]> => {
+    const response = await apiRequest<{ success: boolean; data: ScheduleConflict[] }>(
+      `/schedules/conflicts${toQueryString(range)}`
+    );
+    return response.data;
+  },
+
+  create: async (schedule: Omit<Schedule, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<{ schedule: Schedule; warnings: ScheduleConflict[] }> => {
+    const response = await apiRequest<{ success: boolean; data: Schedule; warnings?: ScheduleConflict[] }>('/schedules', {
       method: 'POST',
       body: JSON.stringify(schedule)
     });
-    return response.data;
+    return { schedule: response.data, warnings: response.warnings || [] };
   },
 
-  update: async (id: string, schedule: Partial<Schedule>): Promise<Schedule> => {
-    const response = await apiRequest<{ success: boolean; data: Schedule }>(`/schedules/${id}`, {
+  update: async (id: string, schedule: Partial<Schedule>): Promise<{ schedule: Schedule; warnings: ScheduleConflict[] }> => {
+    const response = await apiRequest<{ success: boolean; data: Schedule; warnings?: ScheduleConflict[] }>(`/schedules/${id}`, {
       method: 'PUT',
       body: JSON.stringify(schedule)
     });
-    return response.data;
+    return { schedule: response.data, warnings: response.warnings || [] };
   },
 
   delete: async (id: string): Promise<void> => {
@@ -169,5 +246,75 @@ export const scheduleApi = {
       method: 'POST',
       body: JSON.stringify({ slotId })
     });
+  },
+
+  history: async (id: string, filters: HistoryFilters = {}): Promise<{ records: ExecutionRecord[]; nextCursor: string | null }> => {
+    const response = await apiRequest<{ success: boolean; data: ExecutionRecord[]; nextCursor: string | null }>(
+      `/schedules/${id}/history${toQueryString(filters)}`
+    );
+    return { records: response.data, nextCursor: response.nextCursor };
   }
 };
+
+// Execution history API
+export const historyApi = {
+  list: async (filters: HistoryFilters = {}): Promise<{ records: ExecutionRecord[]; nextCursor: string | null }> => {
+    const response = await apiRequest<{ success: boolean; data: ExecutionRecord[]; nextCursor: string | null }>(
+      `/history${toQueryString(filters)}`
+    );
+    return { records: response.data, nextCursor: response.nextCursor };
+  },
+};
+
+// Vacation mode API
+export const vacationApi = {
+  get: async (): Promise<VacationMode | null> => {
+    const response = await apiRequest<{ success: boolean; data: VacationMode | null }>('/vacation');
+    return response.data;
+  },
+
+  start: async (data: { devices: VacationDevice[]; returnAt: number; timezone: string }): Promise<VacationMode> => {
+    const response = await apiRequest<{ success: boolean; data: VacationMode }>('/vacation', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+    return response.data;
+  },
+
+  end: async (): Promise<VacationMode> => {
+    const response = await apiRequest<{ success: boolean; data: VacationMode }>('/vacation', { method: 'DELETE' });
+    return response.data;
+  },
+};
+
+// Gradual transitions API
+export const transitionApi = {
+  list: async (): Promise<ActiveTransition[]> => {
+    const response = await apiRequest<{ success: boolean; data: ActiveTransition[] }>('/transitions');
+    return response.data;
+  },
+
+  cancel: async (deviceId: string): Promise<void> => {
+    await apiRequest<{ success: boolean }>(`/transitions/${deviceId}`, { method: 'DELETE' });
+  },
+};
+
+// Manual holds API
+export const holdApi = {
+  list: async (): Promise<DeviceHold[]> => {
+    const response = await apiRequest<{ success: boolean; data: DeviceHold[] }>('/holds');
+    return response.data;
+  },
+
+  set: async (deviceId: string, hold: { mode: HoldMode; hours?: number }): Promise<DeviceHold> => {
+    const response = await apiRequest<{ success: boolean; data: DeviceHold }>(`/holds/${deviceId}`, {
+      method: 'PUT',
+      body: JSON.stringify(hold),
+    });
+    return response.data;
+  },
+
+  clear: async (deviceId: string): Promise<void> => {
+    await apiRequest<{ success: boolean }>(`/holds/${deviceId}`, { method: 'DELETE' });
+  },
+};
@@ -0,0 +1,58 @@
+import type { GeoLocation, SolarEvent, SolarTime } from '../types';
+
+// Offline sun position formulas (mirrors backend/src/services/solar.ts)
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTES_IN_DAY = 24 * 60;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+
+const EVENT_ALTITUDE: Record<SolarEvent, number> = {
+  sunrise: -0.833,
+  sunset: -0.833,
+  civil_dawn: -6,
+  civil_dusk: -6,
+};
+
+function solarTransitJ(ds: number, m: number, l: number): number {
+  return J2000 + ds + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l);
+}
+
+/**
+ * Time of a solar event on the given day (browser local), or null in polar day/night
+ */
+export function getSolarEventTime(day: Date, event: SolarEvent, location: GeoLocation): Date | null {
+  const noon = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 12).getTime();
+  const lw = RAD * -location.longitude;
+  const phi = RAD * location.latitude;
+  const d = noon / DAY_MS - 0.5 + J1970 - J2000;
+
+  const n = Math.round(d - J0 - lw / (2 * Math.PI));
+  const ds = J0 + lw / (2 * Math.PI) + n;
+  const m = RAD * (357.5291 + 0.98560028 * ds);
+  const l = m + RAD * (1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m)) + RAD * 102.9372 + Math.PI;
+  const dec = Math.asin(Math.sin(OBLIQUITY) * Math.sin(l));
+  const jNoon = solarTransitJ(ds, m, l);
+
+  const h0 = RAD * EVENT_ALTITUDE[event];
+  const cosH = (Math.sin(h0) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+  if (cosH < -1 || cosH > 1) return null;
+
+  const jSet = solarTransitJ(J0 + (Math.acos(cosH) + lw) / (2 * Math.PI) + n, m, l);
+  const rising = event === 'sunrise' || event === 'civil_dawn';
+  const j = rising ? jNoon - (jSet - jNoon) : jSet;
+  return new Date((j + 0.5 - J1970) * DAY_MS);
+}
+
+/**
+ * Minutes since local midnight a solar slot fires on the given day (offset
+ * applied, wrapping past midnight as the scheduler does)
+ */
+export function getSolarSlotMinutes(solar: SolarTime, location: GeoLocation, day: Date = new Date()): number | null {
+  const time = getSolarEventTime(day, solar.event, location);
+  if (!time) return null;
+  const minutes = time.getHours() * 60 + time.getMinutes() + (solar.offsetMinutes || 0);
+  return ((minutes % MINUTES_IN_DAY) + MINUTES_IN_DAY) % MINUTES_IN_DAY;
+}
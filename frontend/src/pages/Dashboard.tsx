@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format, parseISO, addDays, isToday } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import {
   Timer,
@@ -23,10 +24,16 @@ import {
   Layers,
   Edit3,
   Check,
+  History,
+  Plane,
+  TrendingUp,
+  Clock,
+  Sparkles,
+  Hand,
 } from 'lucide-react';
-import type { Schedule, Device, DeviceGroup } from '../types';
-import { getDeviceDisplayName, getDeviceTypeShort, PRESET_COLORS, AC_MODES, AC_FAN_SPEEDS } from '../types';
-import { scheduleApi, tuyaApi, groupApi } from '../lib/api';
+import type { Schedule, Device, DeviceGroup, Scene, SceneDevice, DeviceCommand, TuyaACMode, TuyaACFan, ActionRecord, VacationMode, ActiveTransition, DeviceHold, HoldMode, PreviewEntry } from '../types';
+import { getDeviceDisplayName, getDeviceTypeShort, PRESET_COLORS, AC_MODES, AC_FAN_SPEEDS, formatRampValue, describeCommand } from '../types';
+import { scheduleApi, tuyaApi, groupApi, sceneApi, vacationApi, transitionApi, holdApi } from '../lib/api';
 
 function getDeviceIcon(device: Device) {
   const type = getDeviceTypeShort(device);
@@ -46,8 +53,102 @@ function formatDays(days: string[]): string {
   return days.map(d => d.charAt(0).toUpperCase() + d.slice(1, 3)).join(', ');
 }
 
+function formatDate(date: string): string {
+  return format(parseISO(date), 'd MMM');
+}
+
+function formatRecurrence(schedule: Schedule): string {
+  const days = schedule.daysOfWeek || [];
+  const extra = schedule.extraDates || [];
+  if (days.length === 0) {
+    if (extra.length === 1) return `Once on ${formatDate(extra[0])}`;
+    return extra.length > 0 ? `On ${extra.length} dates` : 'No days';
+  }
+
+  const parts = [formatDays(days)];
+  if (schedule.validFrom && schedule.validUntil) parts.push(`${formatDate(schedule.validFrom)} – ${formatDate(schedule.validUntil)}`);
+  else if (schedule.validFrom) parts.push(`from ${formatDate(schedule.validFrom)}`);
+  else if (schedule.validUntil) parts.push(`until ${formatDate(schedule.validUntil)}`);
+  if (extra.length > 0) parts.push(`+${extra.length} date${extra.length !== 1 ? 's' : ''}`);
+  if (schedule.skipDates?.length) parts.push(`${schedule.skipDates.length} skipped`);
+  return parts.join(' · ');
+}
+
+// ─── Manual Hold ─────────────────────────────────────────────────────
+const HOLD_OPTIONS: { label: string; mode: HoldMode; hours?: number }[] = [
+  { label: 'Next slot', mode: 'next_slot' },
+  { label: '2h', mode: 'duration', hours: 2 },
+  { label: '8h', mode: 'duration', hours: 8 },
+  { label: 'Until resumed', mode: 'until_cleared' },
+];
+
+function describeHold(hold: DeviceHold): string {
+  switch (hold.mode) {
+    case 'next_slot': return 'until its next scheduled event';
+    case 'duration': return `until ${format(hold.until ?? hold.setAt, 'HH:mm')}`;
+    case 'until_cleared': return 'until you resume it';
+  }
+}
+
+function isSelectedHold(hold: DeviceHold, option: { mode: HoldMode; hours?: number }): boolean {
+  if (hold.mode !== option.mode) return false;
+  return hold.mode !== 'duration' || Math.round(((hold.until ?? hold.setAt) - hold.setAt) / 3600000) === option.hours;
+}
+
+function HoldBanner({ hold, onChange }: { hold: DeviceHold; onChange: (hold: DeviceHold | null) => void }) {
+  const [busy, setBusy] = useState(false);
+
+  const update = async (action: () => Promise<DeviceHold | null>) => {
+    setBusy(true);
+    try {
+      onChange(await action());
+    } catch { /* keep the current hold */ } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-amber-950/30 border border-amber-800/50 rounded-xl space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Hand className="h-4 w-4 text-amber-400 flex-shrink-0" />
+          <p className="text-xs text-amber-300">Schedules paused {describeHold(hold)}</p>
+        </div>
+        <button
+          onClick={() => update(async () => { await holdApi.clear(hold.deviceId); return null; })}
+          disabled={busy}
+          className="px-2.5 py-1 rounded-lg text-[11px] font-medium bg-amber-600/80 text-white hover:bg-amber-600 disabled:opacity-50 flex-shrink-0"
+        >Resume</button>
+      </div>
+      <div className="grid grid-cols-4 gap-1.5">
+        {HOLD_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => update(() => holdApi.set(hold.deviceId, { mode: option.mode, ...(option.hours && { hours: option.hours }) }))}
+            disabled={busy}
+            className={`py-1.5 rounded-lg text-[11px] font-medium transition-all disabled:opacity-50 ${
+              isSelectedHold(hold, option)
+                ? 'bg-amber-600/80 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ─── Device Control Panel ────────────────────────────────────────────
-function DeviceControl({ device, allDevices, schedules, onClose }: { device: Device; allDevices: Device[]; schedules: Schedule[]; onClose: () => void }) {
+function DeviceControl({ device, allDevices, schedules, hold, onHoldChange, onClose }: {
+  device: Device;
+  allDevices: Device[];
+  schedules: Schedule[];
+  hold: DeviceHold | null;
+  onHoldChange: (hold: DeviceHold | null) => void;
+  onClose: () => void;
+}) {
   const navigate = useNavigate();
   const [status, setStatus] = useState<Record<string, any> | null>(null);
   const [sensorData, setSensorData] = useState<{ temp: number | null; humidity: number | null }>({ temp: null, humidity: null });
@@ -104,7 +205,8 @@ function DeviceControl({ device, allDevices, schedules, onClose }: { device: Dev
     try {
       setSending(true);
       setError(null);
-      await tuyaApi.sendCommand(device.id, commands);
+      const newHold = await tuyaApi.sendCommand(device.id, commands);
+      if (newHold) onHoldChange(newHold);
       // Refresh status
       const s = await tuyaApi.getDeviceStatus(device.id);
       setStatus(s);
@@ -162,6 +264,8 @@ function DeviceControl({ device, allDevices, schedules, onClose }: { device: Dev
                 <div className="p-2 bg-red-900/30 border border-red-800 rounded-lg text-red-400 text-xs">{error}</div>
               )}
 
+              {hold && <HoldBanner hold={hold} onChange={onHoldChange} />}
+
               {/* ─── IR Hub Sensor Display ─────────────────── */}
               {isIRHub && (sensorData.temp != null || sensorData.humidity != null) && (
                 <div className="flex items-center gap-4 p-5 bg-gradient-to-r from-blue-950/40 to-cyan-950/40 border border-blue-900/40 rounded-xl">
@@ -594,6 +698,365 @@ function GroupModal({
   );
 }
 
+// ─── Scene Modal ─────────────────────────────────────────────────────
+// Lights get a brightness and warmth, ACs a mode, setpoint and fan
+function getDefaultSceneCommands(device: Device): DeviceCommand[] {
+  const type = getDeviceTypeShort(device);
+  if (type === 'LIGHT') {
+    return [{ type: 'OnOff', on: true }, { type: 'TuyaLight', workMode: 'white', brightness: 100, colorTemp: 500 }];
+  }
+  if (type === 'AC_UNIT' || type === 'THERMOSTAT') {
+    return [{ type: 'OnOff', on: true }, { type: 'TuyaAC', mode: 'cold', temperature: 24, fan: 'auto' }];
+  }
+  return [{ type: 'OnOff', on: true }];
+}
+
+function SceneDeviceEditor({ sceneDevice, device, onChange }: {
+  sceneDevice: SceneDevice;
+  device?: Device;
+  onChange: (commands: DeviceCommand[]) => void;
+}) {
+  const { commands } = sceneDevice;
+  const on = commands.some(c => c.type !== 'OnOff' || c.on);
+  const light = commands.find(c => c.type === 'TuyaLight');
+  const ac = commands.find(c => c.type === 'TuyaAC');
+  const replace = (command: DeviceCommand) =>
+    onChange(commands.map(c => c.type === command.type ? command : c));
+
+  return (
+    <div className="p-2.5 bg-gray-800/40 border border-gray-800 rounded-lg space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-300 truncate">{sceneDevice.deviceName}</span>
+        <div className="flex gap-1">
+          <button
+            onClick={() => !on && onChange(device ? getDefaultSceneCommands(device) : [{ type: 'OnOff', on: true }])}
+            className={`px-2.5 py-1 rounded text-[11px] font-medium ${on ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-400'}`}
+          >On</button>
+          <button
+            onClick={() => onChange([{ type: 'OnOff', on: false }])}
+            className={`px-2.5 py-1 rounded text-[11px] font-medium ${!on ? 'bg-red-600/80 text-white' : 'bg-gray-700 text-gray-400'}`}
+          >Off</button>
+        </div>
+      </div>
+      {light?.colorHSV && (
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-gray-500 w-16">Colour</span>
+          <span
+            className="w-4 h-4 rounded-full border border-gray-700"
+            style={{ backgroundColor: `hsl(${light.colorHSV.h}, ${light.colorHSV.s / 10}%, 50%)` }}
+          />
+          <span className="text-[10px] text-gray-400 font-mono">{light.colorHSV.h}° · {Math.round(light.colorHSV.v / 10)}%</span>
+        </div>
+      )}
+      {light && !light.colorHSV && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-gray-500 w-16">Brightness</span>
+            <input
+              type="range" min="1" max="100" step="1"
+              value={light.brightness ?? 100}
+              onChange={e => replace({ ...light, brightness: parseInt(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="text-[10px] text-gray-400 font-mono w-8 text-right">{light.brightness ?? 100}%</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-gray-500 w-16">Warm–cool</span>
+            <input
+              type="range" min="0" max="1000" step="10"
+              value={light.colorTemp ?? 500}
+              onChange={e => replace({ ...light, colorTemp: parseInt(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="text-[10px] text-gray-400 font-mono w-8 text-right">{light.colorTemp ?? 500}</span>
+          </div>
+        </>
+      )}
+      {ac && (
+        <div className="flex items-center gap-1.5">
+          <select
+            value={ac.mode}
+            onChange={e => replace({ ...ac, mode: e.target.value as TuyaACMode })}
+            className="flex-1 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-[11px] text-gray-300"
+          >
+            {AC_MODES.map(m => <option key={m.value} value={m.value}>{m.icon} {m.label}</option>)}
+          </select>
+          <select
+            value={ac.temperature}
+            onChange={e => replace({ ...ac, temperature: parseInt(e.target.value) })}
+            className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-[11px] text-gray-300"
+          >
+            {Array.from({ length: 15 }, (_, i) => 16 + i).map(t => <option key={t} value={t}>{t}°C</option>)}
+          </select>
+          <select
+            value={ac.fan}
+            onChange={e => replace({ ...ac, fan: e.target.value as TuyaACFan })}
+            className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-[11px] text-gray-300"
+          >
+            {AC_FAN_SPEEDS.map(f => <option key={f.value} value={f.value}>Fan {f.label}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SceneModal({
+  devices,
+  groups,
+  existing,
+  onSave,
+  onClose,
+}: {
+  devices: Device[];
+  groups: DeviceGroup[];
+  existing: Scene | null;
+  onSave: (name: string, sceneDevices: SceneDevice[]) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(existing?.name ?? '');
+  const [selected, setSelected] = useState<SceneDevice[]>(existing?.devices ?? []);
+  const [capturing, setCapturing] = useState(false);
+  const [captureErrors, setCaptureErrors] = useState<string[]>([]);
+  // IR hubs only report readings, so there's nothing to set
+  const controllable = devices.filter(d => d.attributes?.category !== 'wnykq');
+
+  const toggle = (device: Device) => {
+    setSelected(prev => prev.some(d => d.deviceId === device.id)
+      ? prev.filter(d => d.deviceId !== device.id)
+      : [...prev, {
+          deviceId: device.id,
+          deviceName: getDeviceDisplayName(device),
+          ...(typeof device.attributes?.category === 'string' && { deviceCategory: device.attributes.category }),
+          commands: getDefaultSceneCommands(device),
+        }]);
+  };
+
+  const setCommands = (deviceId: string, commands: DeviceCommand[]) => {
+    setSelected(prev => prev.map(d => d.deviceId === deviceId ? { ...d, commands } : d));
+  };
+
+  // Fill in states from how the devices are set right now; a group replaces the selection
+  const capture = async (target: { deviceIds?: string[]; groupId?: string }) => {
+    setCapturing(true);
+    setCaptureErrors([]);
+    try {
+      const { devices: captured, failed } = await sceneApi.snapshot(target);
+      setSelected(prev => target.groupId
+        ? captured
+        : prev.map(d => captured.find(c => c.deviceId === d.deviceId) ?? d));
+      setCaptureErrors(failed.map(f => `${f.deviceName}: ${f.error}`));
+    } catch (err) {
+      setCaptureErrors([err instanceof Error ? err.message : 'Failed to read devices']);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-gray-900 border border-gray-800 rounded-t-2xl sm:rounded-2xl w-full sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-semibold text-gray-200">{existing ? 'Edit Scene' : 'New Scene'}</h3>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-300 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Scene Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Movie Night"
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-600"
+              autoFocus
+            />
+          </div>
+          {groups.length > 0 && (
+            <div>
+              <label className="text-xs text-gray-500 mb-2 block">Capture a group as it is now</label>
+              <div className="flex flex-wrap gap-1.5">
+                {groups.map(group => (
+                  <button
+                    key={group.id}
+                    onClick={() => capture({ groupId: group.id })}
+                    disabled={capturing}
+                    className="px-2.5 py-1.5 rounded-lg border text-xs bg-purple-900/10 border-purple-800/50 text-purple-300 hover:border-purple-700 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <Layers className="h-3 w-3" /> {group.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="text-xs text-gray-500 mb-2 block">Devices</label>
+            <div className="flex flex-wrap gap-1.5">
+              {controllable.map((device) => {
+                const isSelected = selected.some(d => d.deviceId === device.id);
+                return (
+                  <button
+                    key={device.id}
+                    onClick={() => toggle(device)}
+                    className={`px-2.5 py-1.5 rounded-lg border text-xs transition-all ${
+                      isSelected
+                        ? 'bg-amber-600/10 border-amber-700 text-amber-300'
+                        : 'bg-gray-800/40 border-gray-800 text-gray-400 hover:border-gray-700'
+                    }`}
+                  >
+                    {getDeviceDisplayName(device)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          {captureErrors.length > 0 && (
+            <div className="space-y-0.5">
+              {captureErrors.map(message => (
+                <p key={message} className="text-[11px] text-amber-500/80">{message}</p>
+              ))}
+            </div>
+          )}
+          {selected.length > 0 && (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <label className="text-xs text-gray-500">States</label>
+                <button
+                  onClick={() => capture({ deviceIds: selected.map(d => d.deviceId) })}
+                  disabled={capturing}
+                  className="text-xs text-blue-500 hover:text-blue-400 flex items-center gap-1 disabled:opacity-50"
+                >
+                  {capturing ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+                  Use current states
+                </button>
+              </div>
+              {selected.map(sceneDevice => (
+                <SceneDeviceEditor
+                  key={sceneDevice.deviceId}
+                  sceneDevice={sceneDevice}
+                  device={devices.find(d => d.id === sceneDevice.deviceId)}
+                  onChange={commands => setCommands(sceneDevice.deviceId, commands)}
+                />
+              ))}
+            </div>
+          )}
+          <button
+            onClick={() => {
+              if (name.trim() && selected.length > 0) {
+                onSave(name.trim(), selected);
+              }
+            }}
+            disabled={!name.trim() || selected.length === 0}
+            className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed active:scale-[0.98] transition-all"
+          >
+            {existing ? 'Save Changes' : 'Create Scene'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ─── Vacation Mode Modal ─────────────────────────────────────────────
+function VacationModal({
+  devices,
+  existing,
+  onStart,
+  onClose,
+}: {
+  devices: Device[];
+  existing: VacationMode | null;
+  onStart: (deviceIds: string[], returnAt: number) => void;
+  onClose: () => void;
+}) {
+  const lights = devices.filter(d => getDeviceTypeShort(d) === 'LIGHT');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    new Set(existing?.active ? existing.devices.map(d => d.deviceId) : lights.map(d => d.id))
+  );
+  const [returnAt, setReturnAt] = useState(() => format(
+    existing?.active ? new Date(existing.returnAt) : addDays(new Date(), 7),
+    "yyyy-MM-dd'T'HH:mm"
+  ));
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const returnTime = new Date(returnAt).getTime();
+  const valid = selectedIds.size > 0 && !Number.isNaN(returnTime);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-gray-900 border border-gray-800 rounded-t-2xl sm:rounded-2xl w-full sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-semibold text-gray-200">Vacation Mode</h3>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-300 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-gray-500">
+            Selected lights follow their usual evening pattern with random variations so the house looks occupied.
+            Schedules not marked as essential are paused until you return.
+          </p>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Back on</label>
+            <input
+              type="datetime-local"
+              value={returnAt}
+              onChange={(e) => setReturnAt(e.target.value)}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-blue-600 [color-scheme:dark]"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-2 block">Lights to simulate</label>
+            {lights.length === 0 ? (
+              <p className="text-xs text-gray-600">No lights found</p>
+            ) : (
+              <div className="space-y-1.5">
+                {lights.map((device) => (
+                  <button
+                    key={device.id}
+                    onClick={() => toggle(device.id)}
+                    className={`w-full flex items-center gap-3 p-2.5 rounded-lg border text-left transition-all ${
+                      selectedIds.has(device.id)
+                        ? 'bg-blue-600/10 border-blue-700 text-blue-300'
+                        : 'bg-gray-800/40 border-gray-800 text-gray-400 hover:border-gray-700'
+                    }`}
+                  >
+                    <div className={`w-5 h-5 rounded border flex items-center justify-center flex-shrink-0 ${
+                      selectedIds.has(device.id) ? 'bg-blue-600 border-blue-600' : 'border-gray-600'
+                    }`}>
+                      {selectedIds.has(device.id) && <Check className="h-3 w-3 text-white" />}
+                    </div>
+                    <span className="text-sm truncate">{getDeviceDisplayName(device)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => { if (valid) onStart(Array.from(selectedIds), returnTime); }}
+            disabled={!valid}
+            className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed active:scale-[0.98] transition-all"
+          >
+            {existing?.active ? 'Save Changes' : 'Start Vacation Mode'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─── Group Control Panel ─────────────────────────────────────────────
 function GroupControl({
   group,
@@ -769,6 +1232,16 @@ export default function Dashboard() {
   const [showGroupModal, setShowGroupModal] = useState(false);
   const [editingGroup, setEditingGroup] = useState<DeviceGroup | null>(null);
   const [controlGroup, setControlGroup] = useState<DeviceGroup | null>(null);
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [showSceneModal, setShowSceneModal] = useState(false);
+  const [editingScene, setEditingScene] = useState<Scene | null>(null);
+  const [activatingSceneId, setActivatingSceneId] = useState<string | null>(null);
+  const [sceneResult, setSceneResult] = useState<{ sceneName: string; results: ActionRecord[] } | null>(null);
+  const [vacation, setVacation] = useState<VacationMode | null>(null);
+  const [showVacationModal, setShowVacationModal] = useState(false);
+  const [transitions, setTransitions] = useState<ActiveTransition[]>([]);
+  const [holds, setHolds] = useState<DeviceHold[]>([]);
+  const [upcoming, setUpcoming] = useState<PreviewEntry[]>([]);
 
   const fetchData = useCallback(async () => {
     try {
@@ -795,6 +1268,26 @@ export default function Dashboard() {
         const groupsData = await groupApi.list();
         setGroups(groupsData);
       } catch { /* groups not critical */ }
+
+      try {
+        setScenes(await sceneApi.list());
+      } catch { /* scenes not critical */ }
+
+      try {
+        setVacation(await vacationApi.get());
+      } catch { /* vacation status not critical */ }
+
+      try {
+        setTransitions(await transitionApi.list());
+      } catch { /* transitions not critical */ }
+
+      try {
+        setHolds(await holdApi.list());
+      } catch { /* holds not critical */ }
+
+      try {
+        setUpcoming(await scheduleApi.preview());
+      } catch { /* preview not critical */ }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data');
     } finally {
@@ -863,6 +1356,90 @@ export default function Dashboard() {
     }
   };
 
+  const handleSaveScene = async (name: string, sceneDevices: SceneDevice[]) => {
+    try {
+      if (editingScene) {
+        const updated = await sceneApi.update(editingScene.id, { name, devices: sceneDevices });
+        setScenes(prev => prev.map(s => s.id === editingScene.id ? updated : s));
+      } else {
+        const created = await sceneApi.create(name, sceneDevices);
+        setScenes(prev => [...prev, created]);
+      }
+      setShowSceneModal(false);
+      setEditingScene(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save scene');
+    }
+  };
+
+  const handleDeleteScene = async (sceneId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!confirm('Delete this scene?')) return;
+    try {
+      await sceneApi.delete(sceneId);
+      setScenes(prev => prev.filter(s => s.id !== sceneId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete scene');
+    }
+  };
+
+  const handleActivateScene = async (scene: Scene) => {
+    setActivatingSceneId(scene.id);
+    setSceneResult(null);
+    try {
+      const { results } = await sceneApi.activate(scene.id);
+      setSceneResult({ sceneName: scene.name, results });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to activate scene');
+    } finally {
+      setActivatingSceneId(null);
+    }
+  };
+
+  const handleStartVacation = async (deviceIds: string[], returnAt: number) => {
+    try {
+      const updated = await vacationApi.start({
+        devices: devices
+          .filter(d => deviceIds.includes(d.id))
+          .map(d => ({
+            deviceId: d.id,
+            deviceName: getDeviceDisplayName(d),
+            deviceCategory: d.attributes?.category as string | undefined,
+          })),
+        returnAt,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      setVacation(updated);
+      setShowVacationModal(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start vacation mode');
+    }
+  };
+
+  const handleEndVacation = async () => {
+    if (!confirm('End vacation mode now?')) return;
+    try {
+      setVacation(await vacationApi.end());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end vacation mode');
+    }
+  };
+
+  const handleCancelTransition = async (deviceId: string) => {
+    try {
+      await transitionApi.cancel(deviceId);
+      setTransitions(prev => prev.filter(t => t.deviceId !== deviceId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel transition');
+    }
+  };
+
+  const handleHoldChange = (deviceId: string, hold: DeviceHold | null) => {
+    setHolds(prev => [...prev.filter(h => h.deviceId !== deviceId), ...(hold ? [hold] : [])]);
+  };
+
+  const onVacation = vacation?.active === true;
+
   const handleToggleSchedule = async (scheduleId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     const result = await scheduleApi.toggle(scheduleId);
@@ -896,6 +1473,13 @@ export default function Dashboard() {
             </div>
             <div className="flex items-center gap-3">
               <span className="text-xs text-gray-500 hidden sm:block">{user?.email}</span>
+              <button
+                onClick={() => navigate('/history')}
+                className="p-2 text-gray-500 hover:text-gray-300 rounded-lg transition-colors"
+                title="Execution history"
+              >
+                <History className="h-4 w-4" />
+              </button>
               <button
                 onClick={async () => { await signOut(); navigate('/'); }}
                 className="p-2 text-gray-500 hover:text-gray-300 rounded-lg transition-colors"
@@ -939,6 +1523,178 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Next up (upcoming actions over the next 24h) */}
+        {upcoming.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-medium text-gray-400 flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              Next Up
+            </h2>
+            <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1">
+              {upcoming.slice(0, 12).map(entry => (
+                <button
+                  key={`${entry.scheduleId}-${entry.slotId}-${entry.phase}-${entry.at}-${entry.deviceId}`}
+                  onClick={() => navigate(`/schedule/${entry.scheduleId}`)}
+                  title={`${entry.scheduleName}${entry.condition ? ' (conditional)' : ''}`}
+                  className="flex-shrink-0 w-32 p-2.5 bg-gray-900/60 border border-gray-800 rounded-xl text-left hover:border-gray-700 transition-colors"
+                >
+                  <p className="text-sm font-mono text-gray-200">
+                    {format(entry.at, 'HH:mm')}
+                    {!isToday(entry.at) && <span className="ml-1 text-[10px] text-gray-500 font-sans">{format(entry.at, 'EEE')}</span>}
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">{entry.deviceName}</p>
+                  <p className={`text-[11px] truncate ${entry.command.type === 'OnOff' && !entry.command.on ? 'text-red-400' : 'text-emerald-400'}`}>
+                    {describeCommand(entry.command)}{entry.condition ? ' · if' : ''}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Gradual transitions in progress */}
+        {transitions.length > 0 && (
+          <div className="p-4 bg-gray-900/60 rounded-xl border border-gray-800 space-y-3">
+            <div className="flex items-center gap-2">
+              <TrendingUp className="h-4 w-4 text-amber-400" />
+              <h3 className="text-sm font-medium text-gray-300">In Progress</h3>
+            </div>
+            {transitions.map(t => (
+              <div key={t.deviceId} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="text-xs text-gray-300 truncate">{t.deviceName}</span>
+                    <span className="text-[11px] text-gray-500 font-mono flex-shrink-0">
+                      {formatRampValue(t.target, t.from)} → {formatRampValue(t.target, t.to)} · until {format(t.endsAt, 'HH:mm')}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-amber-500/70 rounded-full" style={{ width: `${Math.round(t.progress * 100)}%` }} />
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleCancelTransition(t.deviceId)}
+                  title="Cancel transition"
+                  className="p-1.5 text-gray-500 hover:text-red-400 rounded-lg transition-colors"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Vacation mode */}
+        {devices.length > 0 && (
+          <div className={`p-4 rounded-xl border ${onVacation ? 'bg-sky-950/30 border-sky-800/50' : 'bg-gray-900/60 border-gray-800'}`}>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <Plane className={`h-5 w-5 flex-shrink-0 ${onVacation ? 'text-sky-400' : 'text-gray-600'}`} />
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium ${onVacation ? 'text-sky-300' : 'text-gray-300'}`}>
+                    {onVacation ? 'Vacation Mode On' : 'Vacation Mode'}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {onVacation
+                      ? `Until ${format(vacation!.returnAt, 'EEE d MMM, HH:mm')} · ${vacation!.devices.length} light${vacation!.devices.length !== 1 ? 's' : ''} simulated`
+                      : 'Away? Make the house look occupied'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1.5 flex-shrink-0">
+                {onVacation && (
+                  <button onClick={handleEndVacation} className="text-xs text-gray-400 hover:text-red-400 px-3 py-1.5 rounded-lg border border-gray-700 hover:border-red-800 transition-colors">
+                    End
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowVacationModal(true)}
+                  className={`text-xs px-3 py-1.5 rounded-lg font-medium transition-all active:scale-95 ${
+                    onVacation ? 'text-gray-400 border border-gray-700 hover:text-gray-200' : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }`}
+                >
+                  {onVacation ? 'Edit' : 'Set up'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Scenes */}
+        {devices.length > 0 && (
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Scenes</h2>
+              <button
+                onClick={() => { setEditingScene(null); setShowSceneModal(true); }}
+                className="text-xs text-blue-500 hover:text-blue-400 flex items-center gap-1 font-medium"
+              >
+                <Plus className="h-3.5 w-3.5" /> New Scene
+              </button>
+            </div>
+            {scenes.length === 0 ? (
+              <div className="rounded-xl border border-gray-800 border-dashed p-4 text-center">
+                <p className="text-xs text-gray-600">No scenes yet. Save a set of device states, like "Movie Night", to apply with one tap.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {scenes.map((scene) => (
+                  <button
+                    key={scene.id}
+                    onClick={() => handleActivateScene(scene)}
+                    disabled={activatingSceneId !== null}
+                    className="p-3 rounded-xl border bg-gray-900/60 border-gray-800 hover:border-amber-700 hover:bg-gray-800/60 text-left transition-all active:scale-[0.97] cursor-pointer relative group/card disabled:cursor-wait"
+                  >
+                    <div className="flex items-start gap-2.5">
+                      <div className="p-1.5 rounded-lg bg-amber-600/20 text-amber-400">
+                        {activatingSceneId === scene.id
+                          ? <Loader2 className="h-5 w-5 animate-spin" />
+                          : <Sparkles className="h-5 w-5" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="text-sm font-medium text-gray-200 truncate">{scene.name}</h4>
+                        <p className="text-xs text-gray-600 mt-0.5">{scene.devices.length} device{scene.devices.length !== 1 ? 's' : ''}</p>
+                      </div>
+                    </div>
+                    {/* Edit/Delete on hover */}
+                    <div className="absolute top-1 right-1 hidden group-hover/card:flex gap-0.5">
+                      <span
+                        onClick={(e) => { e.stopPropagation(); setEditingScene(scene); setShowSceneModal(true); }}
+                        className="p-1 text-gray-600 hover:text-blue-400 rounded cursor-pointer"
+                      >
+                        <Edit3 className="h-3 w-3" />
+                      </span>
+                      <span
+                        onClick={(e) => handleDeleteScene(scene.id, e)}
+                        className="p-1 text-gray-600 hover:text-red-400 rounded cursor-pointer"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+            {sceneResult && (
+              <div className="mt-2 p-3 bg-gray-900/60 border border-gray-800 rounded-xl space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-300">
+                    {sceneResult.sceneName}: {sceneResult.results.filter(r => r.outcome === 'success').length} of {sceneResult.results.length} devices set
+                  </span>
+                  <button onClick={() => setSceneResult(null)} className="p-1 text-gray-600 hover:text-gray-300">
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                {sceneResult.results.filter(r => r.outcome !== 'success').map(r => (
+                  <p key={r.deviceId} className={`text-[11px] ${r.outcome === 'skipped' ? 'text-gray-500' : 'text-red-400'}`}>
+                    {r.deviceName}: {r.error ?? r.outcome}
+                  </p>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
         {/* Device Groups */}
         {devices.length > 0 && (
           <section>
@@ -1010,6 +1766,7 @@ export default function Dashboard() {
             <div className="grid grid-cols-2 gap-2">
               {devices.map((device) => {
                 const online = device.attributes?.online !== false;
+                const held = holds.some(h => h.deviceId === device.id);
                 return (
                   <button
                     key={device.id}
@@ -1028,6 +1785,7 @@ export default function Dashboard() {
                         <h4 className="text-sm font-medium text-gray-200 truncate">{getDeviceDisplayName(device)}</h4>
                         <p className="text-xs text-gray-600 mt-0.5">{getDeviceTypeShort(device)}</p>
                       </div>
+                      {held && <span title="Schedules paused after manual control"><Hand className="h-3.5 w-3.5 text-amber-400 mt-0.5" /></span>}
                       <div className={`w-1.5 h-1.5 rounded-full mt-1.5 ${online ? 'bg-emerald-500' : 'bg-gray-700'}`} />
                     </div>
                   </button>
@@ -1076,12 +1834,21 @@ export default function Dashboard() {
                         >
                           {schedule.enabled ? 'On' : 'Off'}
                         </button>
+                        {onVacation && schedule.enabled && !schedule.essential && (
+                          <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wider bg-sky-950/50 text-sky-400 border border-sky-800/50 flex-shrink-0">
+                            Paused
+                          </span>
+                        )}
                       </div>
-                      <p className="text-xs text-gray-500 mb-2">{formatDays(schedule.daysOfWeek)}</p>
+                      <p className="text-xs text-gray-500 mb-2">{formatRecurrence(schedule)}</p>
                       <div className="flex flex-wrap gap-1.5">
                         {schedule.timeSlots.slice(0, 4).map((slot) => (
-                          <span key={slot.id} className="inline-flex items-center px-2 py-0.5 bg-gray-800 rounded text-[11px] text-gray-400 font-mono">
-                            {slot.startTime}
+                          <span
+                            key={slot.id}
+                            title={slot.jitterMinutes ? `±${slot.jitterMinutes} min, today at ${slot.todayAt ?? slot.startTime}` : undefined}
+                            className="inline-flex items-center px-2 py-0.5 bg-gray-800 rounded text-[11px] text-gray-400 font-mono"
+                          >
+                            {slot.jitterMinutes ? `~${slot.todayAt ?? slot.startTime}` : slot.startTime}
                           </span>
                         ))}
                         {schedule.timeSlots.length > 4 && <span className="text-[11px] text-gray-600">+{schedule.timeSlots.length - 4}</span>}
@@ -1118,6 +1885,8 @@ export default function Dashboard() {
           device={controlDevice}
           allDevices={devices}
           schedules={schedules}
+          hold={holds.find(h => h.deviceId === controlDevice.id) ?? null}
+          onHoldChange={(hold) => handleHoldChange(controlDevice.id, hold)}
           onClose={() => setControlDevice(null)}
         />
       )}
@@ -1140,6 +1909,26 @@ export default function Dashboard() {
           onClose={() => { setShowGroupModal(false); setEditingGroup(null); }}
         />
       )}
+
+      {/* Scene Create/Edit Modal */}
+      {showSceneModal && (
+        <SceneModal
+          devices={devices}
+          groups={groups}
+          existing={editingScene}
+          onSave={handleSaveScene}
+          onClose={() => { setShowSceneModal(false); setEditingScene(null); }}
+        />
+      )}
+
+      {showVacationModal && (
+        <VacationModal
+          devices={devices}
+          existing={onVacation ? vacation : null}
+          onStart={handleStartVacation}
+          onClose={() => setShowVacationModal(false)}
+        />
+      )}
     </div>
   );
 }
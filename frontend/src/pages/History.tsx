@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Loader2,
+  ChevronDown,
+  ChevronRight,
+  History as HistoryIcon,
+} from 'lucide-react';
+import { historyApi, scheduleApi, tuyaApi } from '../lib/api';
+import type { Device, ExecutionRecord, ActionRecord, ConditionFallback, HistoryFilters } from '../types';
+import { getDeviceDisplayName } from '../types';
+
+const PAGE_SIZE = 25;
+
+const OUTCOME_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'All outcomes' },
+  { value: 'success', label: 'Success' },
+  { value: 'partial', label: 'Partial' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'skipped', label: 'Skipped' },
+  { value: 'error', label: 'Error' },
+];
+
+const OUTCOME_STYLES: Record<string, string> = {
+  success: 'bg-emerald-900/50 text-emerald-400 border-emerald-800/50',
+  partial: 'bg-amber-900/40 text-amber-400 border-amber-800/50',
+  failed: 'bg-red-900/40 text-red-400 border-red-800/50',
+  error: 'bg-red-900/40 text-red-400 border-red-800/50',
+  skipped: 'bg-gray-800 text-gray-500 border-gray-700',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  schedule: 'Scheduled',
+  catch_up: 'Catch-up',
+  manual: 'Test run',
+  trigger: 'Trigger',
+  vacation: 'Vacation',
+};
+
+function OutcomeBadge({ outcome }: { outcome: string }) {
+  return (
+    <span className={`px-1.5 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wider border ${OUTCOME_STYLES[outcome] || OUTCOME_STYLES.skipped}`}>
+      {outcome}
+    </span>
+  );
+}
+
+const VERIFICATION_LABELS: Record<string, string> = {
+  verified: 'confirmed by device',
+  mismatch: 'not applied by device',
+  unreadable: 'could not be confirmed',
+};
+
+function describeFallback(fallback: ConditionFallback): string {
+  switch (fallback.path) {
+    case 'retried':
+      return `unreadable, read on attempt ${fallback.attempts}`;
+    case 'last_known':
+      return `unreadable, used reading from ${fallback.readingAgeMinutes}m ago`;
+    case 'failed_open':
+      return `unreadable${fallback.attempts ? ` after ${fallback.attempts} reads` : ''}, treated as met`;
+    case 'failed_closed':
+      return `unreadable${fallback.attempts ? ` after ${fallback.attempts} reads` : ''}, treated as not met`;
+  }
+}
+
+// ─── Action row ──────────────────────────────────────────────────────
+function ActionDetail({ action }: { action: ActionRecord }) {
+  return (
+    <div className="p-2.5 bg-gray-800/40 border border-gray-800 rounded-lg space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-300 truncate">{action.deviceName}</span>
+        <OutcomeBadge outcome={action.outcome} />
+      </div>
+      <p className="text-[11px] text-gray-500 font-mono">{action.command.type}</p>
+      {action.condition && (
+        <p className="text-[11px] text-gray-500">
+          Condition {action.condition.met ? 'met' : 'not met'}
+          {action.condition.detail
+            ? `: ${action.condition.detail}`
+            : action.condition.sensorValue != null && ` (sensor read ${action.condition.sensorValue})`}
+          {action.condition.note && ` — ${action.condition.note}`}
+        </p>
+      )}
+      {action.condition?.fallbacks?.map((fallback, i) => (
+        <p key={i} className="text-[11px] text-amber-500/80">
+          {fallback.check}: {describeFallback(fallback)}
+        </p>
+      ))}
+      {action.tuyaCommands && action.tuyaCommands.length > 0 && (
+        <pre className="text-[10px] text-gray-600 bg-gray-900/60 rounded p-1.5 overflow-x-auto">
+          {action.tuyaCommands.map(c => `${c.code} = ${JSON.stringify(c.value)}`).join('\n')}
+        </pre>
+      )}
+      {((action.attempts ?? 1) > 1 || action.verification) && (
+        <p className="text-[11px] text-gray-500">
+          {(action.attempts ?? 1) > 1 && `${action.attempts} attempts`}
+          {(action.attempts ?? 1) > 1 && action.verification && ' · '}
+          {action.verification && VERIFICATION_LABELS[action.verification]}
+        </p>
+      )}
+      {action.sceneDevices && action.sceneDevices.length > 0 && (
+        <div className="pl-2 border-l-2 border-amber-800/50 space-y-1.5">
+          {action.sceneDevices.map((device, i) => <ActionDetail key={`${device.deviceId}-${i}`} action={device} />)}
+        </div>
+      )}
+      {action.groupDevices && action.groupDevices.length > 0 && (
+        <div className="pl-2 border-l-2 border-purple-800/50 space-y-1.5">
+          {action.groupDevices.map((device, i) => <ActionDetail key={`${device.deviceId}-${i}`} action={device} />)}
+        </div>
+      )}
+      {action.heldSince != null && (
+        <p className="text-[11px] text-amber-400">On manual hold since {format(action.heldSince, 'EEE HH:mm')}</p>
+      )}
+      {action.overriddenBy && (
+        <p className="text-[11px] text-amber-400">Overridden by higher-priority schedule "{action.overriddenBy.scheduleName}"</p>
+      )}
+      {action.error && <p className="text-[11px] text-red-400">{action.error}</p>}
+    </div>
+  );
+}
+
+// ─── Execution row ───────────────────────────────────────────────────
+function ExecutionRow({ record }: { record: ExecutionRecord }) {
+  const [expanded, setExpanded] = useState(false);
+  const actions = record.actions || [];
+
+  return (
+    <div className="bg-gray-900/60 rounded-xl border border-gray-800">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-start justify-between gap-3 p-3 text-left"
+      >
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm font-medium text-gray-200 truncate">
+              {record.scheduleName}
+              {record.cycle != null && <span className="text-gray-500 font-normal"> · cycle {record.cycle + 1}</span>}
+              {record.phase === 'end' && <span className="text-gray-500 font-normal"> · end</span>}
+            </span>
+            <OutcomeBadge outcome={record.outcome} />
+          </div>
+          <p className="text-[11px] text-gray-500">
+            {format(record.startedAt, 'EEE d MMM, HH:mm:ss')}
+            {' · '}{SOURCE_LABELS[record.source] || record.source}
+            {record.scheduledFor != null && record.source === 'catch_up' && ` (due ${format(record.scheduledFor, 'HH:mm')})`}
+            {' · '}{actions.length} action{actions.length !== 1 ? 's' : ''}
+          </p>
+          {record.note && <p className="text-[11px] text-gray-600 mt-0.5">{record.note}</p>}
+        </div>
+        {expanded
+          ? <ChevronDown className="h-4 w-4 text-gray-600 mt-0.5" />
+          : <ChevronRight className="h-4 w-4 text-gray-600 mt-0.5" />}
+      </button>
+      {expanded && actions.length > 0 && (
+        <div className="px-3 pb-3 space-y-1.5">
+          {actions.map((action, i) => <ActionDetail key={`${action.deviceId}-${i}`} action={action} />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Main History page ───────────────────────────────────────────────
+export default function History() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const scheduleId = searchParams.get('schedule');
+
+  const [records, setRecords] = useState<ExecutionRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [scheduleName, setScheduleName] = useState<string | null>(null);
+  const [deviceId, setDeviceId] = useState('');
+  const [outcome, setOutcome] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = (filters: HistoryFilters) =>
+    scheduleId ? scheduleApi.history(scheduleId, filters) : historyApi.list(filters);
+
+  useEffect(() => {
+    async function loadMeta() {
+      try {
+        setDevices(await tuyaApi.getDevices());
+      } catch { /* device filter not critical */ }
+      if (scheduleId) {
+        try {
+          const schedule = await scheduleApi.get(scheduleId);
+          setScheduleName(schedule.name);
+        } catch { /* title not critical */ }
+      }
+    }
+    loadMeta();
+  }, [scheduleId]);
+
+  useEffect(() => {
+    async function loadHistory() {
+      try {
+        setLoading(true);
+        setError(null);
+        const filters: HistoryFilters = {
+          limit: PAGE_SIZE,
+          deviceId: deviceId || undefined,
+          outcome: (outcome || undefined) as HistoryFilters['outcome'],
+        };
+        const page = scheduleId
+          ? await scheduleApi.history(scheduleId, filters)
+          : await historyApi.list(filters);
+        setRecords(page.records);
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadHistory();
+  }, [scheduleId, deviceId, outcome]);
+
+  const handleLoadMore = async () => {
+    if (nextCursor == null) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage({
+        limit: PAGE_SIZE,
+        before: nextCursor,
+        deviceId: deviceId || undefined,
+        outcome: (outcome || undefined) as HistoryFilters['outcome'],
+      });
+      setRecords(prev => [...prev, ...page.records]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white">
+      {/* Header */}
+      <header className="bg-gray-900/80 backdrop-blur-md border-b border-gray-800 sticky top-0 z-10">
+        <div className="max-w-2xl mx-auto px-4">
+          <div className="flex justify-between items-center h-14">
+            <button
+              onClick={() => navigate(scheduleId ? `/schedule/${scheduleId}` : '/dashboard')}
+              className="flex items-center gap-1.5 text-gray-400 hover:text-white transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+              <span className="text-sm hidden sm:inline">Back</span>
+            </button>
+            <h1 className="text-sm font-semibold text-gray-300 truncate px-2">
+              {scheduleName ? `History · ${scheduleName}` : 'History'}
+            </h1>
+            <HistoryIcon className="h-5 w-5 text-gray-600" />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-6 space-y-4 pb-12">
+        {error && (
+          <div className="p-3 bg-red-900/30 border border-red-800 rounded-xl text-red-400 text-sm">{error}</div>
+        )}
+
+        {/* Filters */}
+        <div className="flex gap-2">
+          <select
+            value={deviceId}
+            onChange={e => setDeviceId(e.target.value)}
+            className="flex-1 px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-xs text-gray-300"
+          >
+            <option value="">All devices</option>
+            {devices.map(d => (
+              <option key={d.id} value={d.id}>{getDeviceDisplayName(d)}</option>
+            ))}
+          </select>
+          <select
+            value={outcome}
+            onChange={e => setOutcome(e.target.value)}
+            className="px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-xs text-gray-300"
+          >
+            {OUTCOME_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+          </div>
+        ) : records.length === 0 ? (
+          <div className="rounded-xl border border-gray-800 border-dashed p-8 text-center">
+            <HistoryIcon className="h-10 w-10 text-gray-700 mx-auto mb-3" />
+            <p className="text-xs text-gray-600">No executions recorded yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {records.map(record => <ExecutionRow key={record.id} record={record} />)}
+          </div>
+        )}
+
+        {!loading && nextCursor != null && (
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="w-full py-2.5 text-sm text-gray-400 border border-gray-800 rounded-xl hover:border-gray-700 hover:text-gray-200 disabled:opacity-50 transition-colors"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
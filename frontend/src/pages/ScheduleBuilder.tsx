@@ -1,5 +1,16 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import {
+  format,
+  addMonths,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  eachDayOfInterval,
+  isSameMonth,
+  parseISO,
+} from 'date-fns';
 import {
   ArrowLeft,
   Plus,
@@ -13,16 +24,41 @@ import {
   Loader2,
   X,
   Layers,
-  Copy,
   Clock,
+  History,
+  Sun,
+  MapPin,
+  ChevronLeft,
+  ChevronRight,
+  AlertTriangle,
+  Sparkles,
 } from 'lucide-react';
-import { scheduleApi, tuyaApi, groupApi } from '../lib/api';
-import type { Schedule, TimeSlot, DayOfWeek, Device, DeviceCommand, DeviceGroup, ActionCondition } from '../types';
-import { PRESET_COLORS, getDeviceTypeShort, getDeviceDisplayName, AC_MODES, AC_FAN_SPEEDS } from '../types';
+import { scheduleApi, tuyaApi, groupApi, sceneApi } from '../lib/api';
+import { getSolarSlotMinutes } from '../lib/solar';
+import type { Schedule, TimeSlot, DayOfWeek, Device, DeviceCommand, DeviceGroup, Scene, ActionCondition, ClimateCommand, GeoLocation, SolarTime, SlotCycle, RampCommand, RampTarget, RampValue, ScheduleConflict, AllCondition, AnyCondition, ConditionFailurePolicy, DpCondition, DpOperator } from '../types';
+import { PRESET_COLORS, getDeviceTypeShort, getDeviceDisplayName, AC_MODES, AC_FAN_SPEEDS, SOLAR_EVENTS, EASINGS, formatRampValue, describeCommand } from '../types';
 
 // ─── Constants ───────────────────────────────────────────────────────
 const SNAP_MINUTES = 5;
 const MINUTES_IN_DAY = 1440;
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const DEFAULT_CATCH_UP_MINUTES = 15;
+// Furthest a slot can be offset from its sun event (the backend's limit)
+const MAX_SOLAR_OFFSET_MINUTES = 180;
+const CATCH_UP_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 5, label: '5m' },
+  { value: 15, label: '15m' },
+  { value: 60, label: '1h' },
+];
+const DEFAULT_RETRIES = 2;
+const RETRY_OPTIONS = [0, 1, 2, 3, 5];
+const PRIORITY_OPTIONS: { value: number; label: string }[] = [
+  { value: -1, label: 'Low' },
+  { value: 0, label: 'Normal' },
+  { value: 1, label: 'High' },
+  { value: 2, label: 'Top' },
+];
 
 const DAYS_OF_WEEK: { value: DayOfWeek; label: string }[] = [
   { value: 'monday', label: 'Monday' },
@@ -37,7 +73,13 @@ const DAYS_OF_WEEK: { value: DayOfWeek; label: string }[] = [
 // ─── Timeline types (UI only) ───────────────────────────────────────
 interface TimelineEvent {
   id: string;
-  time: string;          // "HH:MM"
+  time: string;          // "HH:MM" (solar events: computed for today)
+  solar?: SolarTime;
+  endTime?: string;      // "HH:MM"; earlier than time = next day
+  endCommand?: DeviceCommand; // Explicit end action (default: revert)
+  jitterMinutes?: number; // Random ± offset, picked once per day by the server
+  cycle?: SlotCycle;      // Repeat on/off from time until endTime
+  todayAt?: string;       // Server-computed actual time today (read-only)
   on: boolean;
   command: DeviceCommand;
   condition?: ActionCondition;
@@ -47,8 +89,9 @@ interface DeviceTimeline {
   deviceId: string;
   deviceName: string;
   device?: Device;
+  scene?: Scene;         // Scene rows activate a scene instead of a device
+  groupId?: string;      // Group rows run on the group's members at the time
   events: TimelineEvent[];
-  groupId?: string;
 }
 
 interface Segment {
@@ -56,6 +99,7 @@ interface Segment {
   startPct: number;
   widthPct: number;
   on: boolean;
+  cycling?: boolean; // Drawn as a band, with the cycle's on periods striped over it
 }
 
 // ─── Utility functions ───────────────────────────────────────────────
@@ -79,11 +123,53 @@ function uid(): string {
   return Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
 }
 
+// Today's time of a solar event, falling back to the given time without a location
+function resolveSolarTime(solar: SolarTime, location: GeoLocation | undefined, fallback: string): string {
+  if (!location) return fallback;
+  const minutes = getSolarSlotMinutes(solar, location);
+  return minutes === null ? fallback : minutesToTime(minutes);
+}
+
+function formatSolarTime(solar: SolarTime): string {
+  const label = SOLAR_EVENTS.find(e => e.value === solar.event)?.label || solar.event;
+  const offset = solar.offsetMinutes || 0;
+  if (offset === 0) return label;
+  return `${label} ${offset > 0 ? '+' : '-'}${Math.abs(offset)}m`;
+}
+
+function isOnCommand(command: DeviceCommand): boolean {
+  if (command.type === 'Scene') return !command.deactivate;
+  return command.type === 'OnOff' ? command.on : true;
+}
+
+// Plain ON/OFF for a row: scene rows activate or deactivate their scene
+function getSwitchCommand(on: boolean, scene?: Scene): DeviceCommand {
+  return scene
+    ? { type: 'Scene', sceneId: scene.id, sceneName: scene.name, deactivate: !on }
+    : { type: 'OnOff', on };
+}
+
+// What a ranged event does at its end: the explicit end command or the inverse
+function getEndCommand(ev: TimelineEvent): DeviceCommand {
+  if (ev.endCommand) return ev.endCommand;
+  return ev.command.type === 'Scene' ? { ...ev.command, deactivate: ev.on } : { type: 'OnOff', on: !ev.on };
+}
+
+// Group rows offer the settings of their first known member; members that
+// can't take them are just switched on by the server
+function getGroupCommandDevice(group: DeviceGroup | undefined, devices: Device[]): Device | undefined {
+  return group && devices.find(d => group.deviceIds.includes(d.id));
+}
+
 // ─── Segment computation (with cross-midnight) ──────────────────────
 function computeSegments(events: TimelineEvent[]): Segment[] {
   if (events.length === 0) return [];
 
-  const sorted = [...events].sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
+  // Ranged events contribute their end as an extra state change
+  const expanded = events.flatMap<TimelineEvent>(ev => ev.endTime
+    ? [ev, { id: ev.id + '-end', time: ev.endTime, on: isOnCommand(getEndCommand(ev)), command: getEndCommand(ev) }]
+    : [ev]);
+  const sorted = [...expanded].sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
 
   // Single event: fills entire bar with that state
   if (sorted.length === 1) {
@@ -105,6 +191,7 @@ function computeSegments(events: TimelineEvent[]): Segment[] {
         startPct: (startMin / MINUTES_IN_DAY) * 100,
         widthPct: ((endMin - startMin) / MINUTES_IN_DAY) * 100,
         on: curr.on,
+        ...(curr.cycle && { cycling: true }),
       });
     } else {
       // Last event → wraps to first event (cross-midnight)
@@ -117,6 +204,7 @@ function computeSegments(events: TimelineEvent[]): Segment[] {
           startPct: (startMin / MINUTES_IN_DAY) * 100,
           widthPct: tailWidth,
           on: curr.on,
+          ...(curr.cycle && { cycling: true }),
         });
       }
       // Head: from start of day to first event
@@ -127,6 +215,7 @@ function computeSegments(events: TimelineEvent[]): Segment[] {
           startPct: 0,
           widthPct: headWidth,
           on: curr.on,
+          ...(curr.cycle && { cycling: true }),
         });
       }
     }
@@ -135,25 +224,66 @@ function computeSegments(events: TimelineEvent[]): Segment[] {
   return segments;
 }
 
+// On periods of a cycling event, split at midnight
+function getCycleStripes(ev: TimelineEvent): Segment[] {
+  if (!ev.cycle || !ev.endTime || ev.cycle.onMinutes <= 0) return [];
+  const { onMinutes, offMinutes } = ev.cycle;
+  const start = timeToMinutes(ev.time);
+  let end = timeToMinutes(ev.endTime);
+  if (end <= start) end += MINUTES_IN_DAY;
+
+  const stripes: Segment[] = [];
+  const add = (from: number, to: number, key: string) => stripes.push({
+    id: `${ev.id}-cycle-${key}`,
+    startPct: (from / MINUTES_IN_DAY) * 100,
+    widthPct: ((to - from) / MINUTES_IN_DAY) * 100,
+    on: true,
+  });
+
+  for (let on = start; on < end; on += onMinutes + offMinutes) {
+    const off = Math.min(on + onMinutes, end);
+    if (off <= MINUTES_IN_DAY) {
+      add(on, off, `${on}`);
+    } else if (on >= MINUTES_IN_DAY) {
+      add(on - MINUTES_IN_DAY, off - MINUTES_IN_DAY, `${on}`);
+    } else {
+      add(on, MINUTES_IN_DAY, `${on}-tail`);
+      add(0, off - MINUTES_IN_DAY, `${on}-head`);
+    }
+  }
+  return stripes;
+}
+
 // ─── Conversion: TimeSlot[] ↔ DeviceTimeline[] ──────────────────────
-function timeSlotsToTimelines(slots: TimeSlot[], devices: Device[]): DeviceTimeline[] {
+function timeSlotsToTimelines(slots: TimeSlot[], devices: Device[], scenes: Scene[], groups: DeviceGroup[], location?: GeoLocation): DeviceTimeline[] {
   const map = new Map<string, DeviceTimeline>();
 
   for (const slot of slots) {
     for (const action of slot.actions) {
       if (!map.has(action.deviceId)) {
+        const scene = action.command.type === 'Scene' ? scenes.find(s => s.id === action.deviceId) : undefined;
+        const group = action.groupId ? groups.find(g => g.id === action.groupId) : undefined;
         map.set(action.deviceId, {
           deviceId: action.deviceId,
-          deviceName: action.deviceName,
+          deviceName: scene?.name ?? group?.name ?? action.deviceName,
           device: devices.find(d => d.id === action.deviceId),
+          ...(scene && { scene }),
+          ...(action.groupId && { groupId: action.groupId }),
           events: [],
         });
       }
       const timeline = map.get(action.deviceId)!;
-      const isOn = action.command.type === 'OnOff' ? action.command.on : true;
+      const isOn = isOnCommand(action.command);
+      const endAction = slot.endActions?.find(a => a.deviceId === action.deviceId);
       timeline.events.push({
         id: uid(),
-        time: slot.startTime,
+        time: slot.solar ? resolveSolarTime(slot.solar, location, slot.startTime) : slot.startTime,
+        ...(slot.solar && { solar: slot.solar }),
+        ...(slot.endTime && { endTime: slot.endTime }),
+        ...(slot.endTime && endAction && { endCommand: endAction.command }),
+        ...(slot.jitterMinutes && { jitterMinutes: slot.jitterMinutes }),
+        ...(slot.endTime && slot.cycle && { cycle: slot.cycle }),
+        ...(slot.todayAt && { todayAt: slot.todayAt }),
         on: isOn,
         command: action.command,
         condition: action.condition,
@@ -171,27 +301,54 @@ function timeSlotsToTimelines(slots: TimeSlot[], devices: Device[]): DeviceTimel
 
 function timelinesToTimeSlots(timelines: DeviceTimeline[]): TimeSlot[] {
   const slotMap = new Map<string, TimeSlot>();
+  // Ranged slots that have at least one explicit end action
+  const explicitEnds = new Set<string>();
 
   for (const tl of timelines) {
     for (const ev of tl.events) {
-      if (!slotMap.has(ev.time)) {
-        slotMap.set(ev.time, {
+      // Solar events share a slot per event + offset, fixed events per time (and end, jitter, cycle)
+      const start = ev.solar ? `${ev.solar.event}${ev.solar.offsetMinutes}` : ev.time;
+      const cycle = ev.endTime ? ev.cycle : undefined;
+      const key = `${start}|${ev.endTime || ''}|${ev.jitterMinutes || 0}|${cycle ? `${cycle.onMinutes}/${cycle.offMinutes}` : ''}`;
+      if (!slotMap.has(key)) {
+        slotMap.set(key, {
           id: uid(),
           startTime: ev.time,
+          ...(ev.solar && { solar: ev.solar }),
+          ...(ev.endTime && { endTime: ev.endTime, endActions: [] }),
+          ...(ev.jitterMinutes && { jitterMinutes: ev.jitterMinutes }),
+          ...(cycle && { cycle }),
           actions: [],
         });
       }
-      const slot = slotMap.get(ev.time)!;
+      const slot = slotMap.get(key)!;
+      const deviceCategory = tl.device?.attributes?.category as string | undefined;
       slot.actions.push({
         deviceId: tl.deviceId,
         deviceName: tl.deviceName,
         command: ev.command,
-        deviceCategory: tl.device?.attributes?.category as string | undefined,
+        deviceCategory,
         condition: ev.condition,
+        ...(tl.groupId && { groupId: tl.groupId }),
       });
+      if (ev.endTime) {
+        slot.endActions!.push({
+          deviceId: tl.deviceId,
+          deviceName: tl.deviceName,
+          command: getEndCommand(ev),
+          deviceCategory,
+          ...(tl.groupId && { groupId: tl.groupId }),
+        });
+        if (ev.endCommand) explicitEnds.add(key);
+      }
     }
   }
 
+  // Without explicit end actions the server reverts the start actions itself
+  for (const [key, slot] of slotMap) {
+    if (slot.endActions && !explicitEnds.has(key)) delete slot.endActions;
+  }
+
   return Array.from(slotMap.values()).sort(
     (a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
   );
@@ -230,25 +387,281 @@ function TimelineHeader() {
   );
 }
 
+// ─── Event Time Editor (fixed or sun-relative) ──────────────────────
+function EventTimeEditor({ time, solar, location, onChange }: {
+  time: string;
+  solar?: SolarTime;
+  location?: GeoLocation;
+  onChange: (time: string, solar?: SolarTime) => void;
+}) {
+  const nudgeTime = (delta: number) => {
+    onChange(minutesToTime(timeToMinutes(time) + delta));
+  };
+
+  const setSolar = (next: SolarTime) => {
+    onChange(resolveSolarTime(next, location, time), next);
+  };
+
+  const nudgeOffset = (delta: number) => {
+    if (!solar) return;
+    const offsetMinutes = Math.max(-MAX_SOLAR_OFFSET_MINUTES, Math.min(MAX_SOLAR_OFFSET_MINUTES, (solar.offsetMinutes || 0) + delta));
+    setSolar({ ...solar, offsetMinutes });
+  };
+
+  const nudge = solar ? nudgeOffset : nudgeTime;
+
+  return (
+    <div className="space-y-3">
+      {/* Mode toggle */}
+      <div className="grid grid-cols-2 gap-1.5">
+        <button
+          onClick={() => { if (solar) onChange(time); }}
+          className={`flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-medium transition-all ${
+            !solar ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+          }`}
+        >
+          <Clock className="h-3.5 w-3.5" />
+          Fixed time
+        </button>
+        <button
+          onClick={() => { if (!solar) setSolar({ event: 'sunset', offsetMinutes: 0 }); }}
+          disabled={!location}
+          title={location ? undefined : 'Set a location for this schedule first'}
+          className={`flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-medium transition-all disabled:opacity-40 ${
+            solar ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+          }`}
+        >
+          <Sun className="h-3.5 w-3.5" />
+          Sun time
+        </button>
+      </div>
+
+      {solar && (
+        <div className="grid grid-cols-4 gap-1.5">
+          {SOLAR_EVENTS.map(ev => (
+            <button
+              key={ev.value}
+              onClick={() => setSolar({ ...solar, event: ev.value })}
+              className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${
+                solar.event === ev.value
+                  ? 'bg-amber-900/50 text-amber-300 border border-amber-700/60'
+                  : 'bg-gray-800 text-gray-500 border border-gray-700'
+              }`}
+            >
+              {ev.icon} {ev.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Time / offset adjustment */}
+      <div className="flex items-center justify-center gap-3">
+        <button onClick={() => nudge(-30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-30m</button>
+        <button onClick={() => nudge(-5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-5m</button>
+        <div className="text-center px-3">
+          <span className="block text-2xl font-mono text-white">{time}</span>
+          {solar && <span className="block text-[10px] text-amber-400">{formatSolarTime(solar)} · today</span>}
+        </div>
+        <button onClick={() => nudge(5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+5m</button>
+        <button onClick={() => nudge(30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+30m</button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Event End Editor (optional end time + end action) ──────────────
+const END_ACTIONS: { value: 'revert' | 'off' | 'on'; label: string }[] = [
+  { value: 'revert', label: 'Revert' },
+  { value: 'off', label: 'Turn OFF' },
+  { value: 'on', label: 'Turn ON' },
+];
+
+function EventEndEditor({ time, endTime, endCommand, scene, onChange }: {
+  time: string;
+  endTime?: string;
+  endCommand?: DeviceCommand;
+  scene?: Scene;
+  onChange: (endTime?: string, endCommand?: DeviceCommand) => void;
+}) {
+  const selected = !endCommand ? 'revert' : isOnCommand(endCommand) ? 'on' : 'off';
+
+  const selectAction = (value: 'revert' | 'off' | 'on') => {
+    onChange(endTime, value === 'revert' ? undefined : getSwitchCommand(value === 'on', scene));
+  };
+
+  const nudge = (delta: number) => {
+    if (!endTime) return;
+    onChange(minutesToTime(timeToMinutes(endTime) + delta), endCommand);
+  };
+
+  const crossesMidnight = endTime != null && timeToMinutes(endTime) <= timeToMinutes(time);
+
+  return (
+    <div className="p-3 bg-gray-800/30 border border-gray-800 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-medium text-gray-300">End time</p>
+          <p className="text-[10px] text-gray-600">Run an end action automatically</p>
+        </div>
+        <button
+          onClick={() => onChange(endTime ? undefined : minutesToTime(timeToMinutes(time) + 60), undefined)}
+          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+            endTime ? 'bg-blue-600' : 'bg-gray-700'
+          }`}
+        >
+          <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+            endTime ? 'translate-x-[18px]' : 'translate-x-0.5'
+          }`} />
+        </button>
+      </div>
+
+      {endTime && (
+        <>
+          <div className="flex items-center justify-center gap-3">
+            <button onClick={() => nudge(-30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-30m</button>
+            <button onClick={() => nudge(-5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-5m</button>
+            <div className="text-center px-2">
+              <span className="block text-lg font-mono text-white">{endTime}</span>
+              {crossesMidnight && <span className="block text-[10px] text-gray-500">next day</span>}
+            </div>
+            <button onClick={() => nudge(5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+5m</button>
+            <button onClick={() => nudge(30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+30m</button>
+          </div>
+          <div className="grid grid-cols-3 gap-1.5">
+            {END_ACTIONS.map(opt => (
+              <button
+                key={opt.value}
+                onClick={() => selectAction(opt.value)}
+                className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${
+                  selected === opt.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-500 border border-gray-700'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ─── Event Cycle Editor (repeat on/off through the range) ───────────
+const CYCLE_MINUTES = [5, 10, 15, 20, 30, 40, 45, 60, 90, 120];
+
+function EventCycleEditor({ endTime, cycle, onChange }: {
+  endTime?: string;
+  cycle?: SlotCycle;
+  onChange: (cycle?: SlotCycle) => void;
+}) {
+  const active = !!endTime && !!cycle;
+
+  return (
+    <div className="p-3 bg-gray-800/30 border border-gray-800 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-medium text-gray-300">Cycle</p>
+          <p className="text-[10px] text-gray-600">
+            {!endTime
+              ? 'Set an end time to repeat on/off until it'
+              : cycle
+                ? `${cycle.onMinutes}m on, ${cycle.offMinutes}m off until ${endTime}`
+                : 'Repeat on/off until the end time'}
+          </p>
+        </div>
+        <button
+          onClick={() => onChange(cycle ? undefined : { onMinutes: 20, offMinutes: 40 })}
+          disabled={!endTime}
+          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors disabled:opacity-40 ${
+            active ? 'bg-blue-600' : 'bg-gray-700'
+          }`}
+        >
+          <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+            active ? 'translate-x-[18px]' : 'translate-x-0.5'
+          }`} />
+        </button>
+      </div>
+
+      {active && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['onMinutes', 'offMinutes'] as const).map(key => (
+            <label key={key} className="flex items-center gap-2 text-xs text-gray-500">
+              <span>{key === 'onMinutes' ? 'On' : 'Off'}</span>
+              <select
+                value={cycle[key]}
+                onChange={e => onChange({ ...cycle, [key]: Number(e.target.value) })}
+                className="flex-1 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
+              >
+                {[...new Set([...CYCLE_MINUTES, cycle[key]])].sort((a, b) => a - b).map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Event Jitter Editor (random daily offset) ──────────────────────
+const JITTER_OPTIONS = [0, 5, 10, 15, 30];
+
+function EventJitterEditor({ jitterMinutes, todayAt, onChange }: {
+  jitterMinutes?: number;
+  todayAt?: string;
+  onChange: (jitterMinutes?: number) => void;
+}) {
+  return (
+    <div className="p-3 bg-gray-800/30 border border-gray-800 rounded-lg space-y-2">
+      <div>
+        <p className="text-xs font-medium text-gray-300">Random offset</p>
+        <p className="text-[10px] text-gray-600">
+          {jitterMinutes
+            ? todayAt ? `Varies daily · today at ${todayAt}` : 'Varies daily, picked once per day'
+            : 'Fires at exactly the same time every day'}
+        </p>
+      </div>
+      <div className="grid grid-cols-5 gap-1.5">
+        {JITTER_OPTIONS.map(value => (
+          <button
+            key={value}
+            onClick={() => onChange(value || undefined)}
+            className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${
+              (jitterMinutes || 0) === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-500 border border-gray-700'
+            }`}
+          >
+            {value ? `±${value}m` : 'Off'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ─── Event Popover ───────────────────────────────────────────────────
-function EventPopover({ event, device, allDevices, onUpdate, onDelete, onClose }: {
+function EventPopover({ event, device, scene, group, allDevices, location, onUpdate, onDelete, onClose }: {
   event: TimelineEvent;
   device?: Device;
+  scene?: Scene;
+  group?: DeviceGroup;
   allDevices: Device[];
+  location?: GeoLocation;
   onUpdate: (updates: Partial<TimelineEvent>) => void;
   onDelete: () => void;
   onClose: () => void;
 }) {
-  const nudge = (delta: number) => {
-    const m = timeToMinutes(event.time) + delta;
-    onUpdate({ time: minutesToTime(m) });
-  };
+  const commandDevice = device ?? getGroupCommandDevice(group, allDevices);
 
   const toggleOnOff = () => {
     const newOn = !event.on;
     onUpdate({
       on: newOn,
-      command: { type: 'OnOff', on: newOn },
+      command: getSwitchCommand(newOn, scene),
       condition: undefined,
     });
   };
@@ -260,7 +673,9 @@ function EventPopover({ event, device, allDevices, onUpdate, onDelete, onClose }
         <div className="flex items-center justify-between p-3 border-b border-gray-800">
           <div className="flex items-center gap-2">
             {device && <span className="text-gray-400">{getDeviceIcon(device)}</span>}
-            <span className="text-sm font-medium text-gray-200">{device?.name?.name || 'Device'}</span>
+            {scene && <Sparkles className="h-4 w-4 text-amber-400" />}
+            {group && <Layers className="h-4 w-4 text-purple-400" />}
+            <span className="text-sm font-medium text-gray-200">{device?.name?.name || scene?.name || group?.name || 'Device'}</span>
           </div>
           <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-gray-300">
             <X className="h-4 w-4" />
@@ -269,13 +684,37 @@ function EventPopover({ event, device, allDevices, onUpdate, onDelete, onClose }
 
         <div className="p-4 space-y-4">
           {/* Time adjustment */}
-          <div className="flex items-center justify-center gap-3">
-            <button onClick={() => nudge(-30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-30m</button>
-            <button onClick={() => nudge(-5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-5m</button>
-            <span className="text-2xl font-mono text-white px-3">{event.time}</span>
-            <button onClick={() => nudge(5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+5m</button>
-            <button onClick={() => nudge(30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+30m</button>
-          </div>
+          <EventTimeEditor
+            time={event.time}
+            solar={event.solar}
+            location={location}
+            onChange={(time, solar) => onUpdate({ time, solar })}
+          />
+
+          {/* End time */}
+          <EventEndEditor
+            time={event.time}
+            endTime={event.endTime}
+            endCommand={event.endCommand}
+            scene={scene}
+            onChange={(endTime, endCommand) => onUpdate({ endTime, endCommand })}
+          />
+
+          {/* On/off cycling (climate loops don't cycle) */}
+          {event.command.type !== 'Climate' && (
+            <EventCycleEditor
+              endTime={event.endTime}
+              cycle={event.cycle}
+              onChange={(cycle) => onUpdate({ cycle })}
+            />
+          )}
+
+          {/* Random offset */}
+          <EventJitterEditor
+            jitterMinutes={event.jitterMinutes}
+            todayAt={event.todayAt}
+            onChange={(jitterMinutes) => onUpdate({ jitterMinutes })}
+          />
 
           {/* On/Off toggle */}
           <div className="flex gap-2">
@@ -298,12 +737,13 @@ function EventPopover({ event, device, allDevices, onUpdate, onDelete, onClose }
           </div>
 
           {/* Command settings (for all events on devices with traits) */}
-          {device && (
+          {commandDevice && (
             <ExtraCommandEditor
               command={event.command}
               condition={event.condition}
-              device={device}
+              device={commandDevice}
               allDevices={allDevices}
+              hasEndTime={!!event.endTime}
               onUpdate={(cmd) => onUpdate({ command: cmd })}
               onConditionUpdate={(cond) => onUpdate({ condition: cond })}
             />
@@ -323,9 +763,12 @@ function EventPopover({ event, device, allDevices, onUpdate, onDelete, onClose }
 }
 
 // ─── Add Event Sheet ─────────────────────────────────────────────────
-function AddEventSheet({ device, allDevices, onAdd, onClose }: {
+function AddEventSheet({ device, scene, group, allDevices, location, onAdd, onClose }: {
   device?: Device;
+  scene?: Scene;
+  group?: DeviceGroup;
   allDevices: Device[];
+  location?: GeoLocation;
   onAdd: (event: TimelineEvent) => void;
   onClose: () => void;
 }) {
@@ -334,19 +777,25 @@ function AddEventSheet({ device, allDevices, onAdd, onClose }: {
   const defaultTime = minutesToTime(nowH * 60 + nowM);
 
   const [time, setTime] = useState(defaultTime);
+  const [solar, setSolar] = useState<SolarTime | undefined>(undefined);
+  const [endTime, setEndTime] = useState<string | undefined>(undefined);
+  const [endCommand, setEndCommand] = useState<DeviceCommand | undefined>(undefined);
+  const [jitterMinutes, setJitterMinutes] = useState<number | undefined>(undefined);
+  const [cycle, setCycle] = useState<SlotCycle | undefined>(undefined);
   const [on, setOn] = useState(true);
-  const [command, setCommand] = useState<DeviceCommand>({ type: 'OnOff', on: true });
+  const [command, setCommand] = useState<DeviceCommand>(getSwitchCommand(true, scene));
   const [condition, setCondition] = useState<ActionCondition | undefined>(undefined);
-
-  const nudge = (delta: number) => {
-    const m = timeToMinutes(time) + delta;
-    setTime(minutesToTime(m));
-  };
+  const commandDevice = device ?? getGroupCommandDevice(group, allDevices);
 
   const handleConfirm = () => {
     onAdd({
       id: uid(),
       time,
+      ...(solar && { solar }),
+      ...(endTime && { endTime }),
+      ...(endTime && endCommand && { endCommand }),
+      ...(jitterMinutes && { jitterMinutes }),
+      ...(endTime && cycle && command.type !== 'Climate' && { cycle }),
       on,
       command,
       condition,
@@ -369,24 +818,43 @@ function AddEventSheet({ device, allDevices, onAdd, onClose }: {
 
         <div className="p-4 space-y-4">
           {/* Time picker */}
-          <div className="flex items-center justify-center gap-3">
-            <button onClick={() => nudge(-30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-30m</button>
-            <button onClick={() => nudge(-5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">-5m</button>
-            <span className="text-2xl font-mono text-white px-3">{time}</span>
-            <button onClick={() => nudge(5)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+5m</button>
-            <button onClick={() => nudge(30)} className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-400 hover:text-white">+30m</button>
-          </div>
+          <EventTimeEditor
+            time={time}
+            solar={solar}
+            location={location}
+            onChange={(newTime, newSolar) => { setTime(newTime); setSolar(newSolar); }}
+          />
+
+          {/* End time */}
+          <EventEndEditor
+            time={time}
+            endTime={endTime}
+            endCommand={endCommand}
+            scene={scene}
+            onChange={(newEnd, newEndCommand) => { setEndTime(newEnd); setEndCommand(newEndCommand); }}
+          />
+
+          {/* On/off cycling (climate loops don't cycle) */}
+          {command.type !== 'Climate' && (
+            <EventCycleEditor endTime={endTime} cycle={cycle} onChange={setCycle} />
+          )}
+
+          {/* Random offset */}
+          <EventJitterEditor
+            jitterMinutes={jitterMinutes}
+            onChange={setJitterMinutes}
+          />
 
           {/* On/Off toggle */}
           <div className="flex gap-2">
             <button
-              onClick={() => { setOn(true); setCommand({ type: 'OnOff', on: true }); }}
+              onClick={() => { setOn(true); setCommand(getSwitchCommand(true, scene)); }}
               className={`flex-1 py-2.5 rounded-lg text-sm font-medium transition-all active:scale-95 ${
                 on ? 'bg-emerald-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
               }`}
             >Turn ON</button>
             <button
-              onClick={() => { setOn(false); setCommand({ type: 'OnOff', on: false }); }}
+              onClick={() => { setOn(false); setCommand(getSwitchCommand(false, scene)); }}
               className={`flex-1 py-2.5 rounded-lg text-sm font-medium transition-all active:scale-95 ${
                 !on ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
               }`}
@@ -394,12 +862,13 @@ function AddEventSheet({ device, allDevices, onAdd, onClose }: {
           </div>
 
           {/* Command editor */}
-          {device && (
+          {commandDevice && (
             <ExtraCommandEditor
               command={command}
               condition={condition}
-              device={device}
+              device={commandDevice}
               allDevices={allDevices}
+              hasEndTime={!!endTime}
               onUpdate={(cmd) => setCommand(cmd)}
               onConditionUpdate={(cond) => setCondition(cond)}
             />
@@ -435,12 +904,268 @@ function rgbToHsv(r: number, g: number, b: number): { h: number; s: number; v: n
   return { h, s, v };
 }
 
+// ─── Ramp Editor (gradual change of one value) ──────────────────────
+const RAMP_RANGES: Record<Exclude<RampTarget, 'colour'>, { min: number; max: number; step: number; unit: string; initial: number }> = {
+  brightness: { min: 1, max: 100, step: 1, unit: '%', initial: 80 },
+  colorTemp: { min: 0, max: 1000, step: 10, unit: '', initial: 500 },
+  acTemperature: { min: 16, max: 30, step: 1, unit: '°C', initial: 22 },
+  fanSpeed: { min: 0, max: 100, step: 10, unit: '%', initial: 50 },
+};
+
+const RAMP_DURATIONS = [5, 15, 30, 60, 120];
+
+function getInitialRampValue(target: RampTarget): RampValue {
+  return target === 'colour' ? rgbToHsv(255, 165, 0) : RAMP_RANGES[target].initial;
+}
+
+// Legacy GradualBrightness commands are edited as brightness ramps
+function asRamp(command: DeviceCommand): RampCommand | null {
+  if (command.type === 'Ramp') return command;
+  if (command.type === 'GradualBrightness') {
+    return { type: 'Ramp', target: 'brightness', to: command.targetBrightness, durationMinutes: command.durationMinutes };
+  }
+  return null;
+}
+
+function RampValueInput({ target, value, onChange }: {
+  target: RampTarget;
+  value: RampValue;
+  onChange: (value: RampValue) => void;
+}) {
+  if (target === 'colour') {
+    const hsv = typeof value === 'object' ? value : null;
+    return (
+      <div className="grid grid-cols-9 gap-1">
+        {PRESET_COLORS.map(color => {
+          const preset = rgbToHsv(color.r, color.g, color.b);
+          const selected = hsv && hsv.h === preset.h && hsv.s === preset.s;
+          return (
+            <button
+              key={color.name}
+              title={color.name}
+              onClick={() => onChange(preset)}
+              className={`h-6 rounded-md border-2 transition-colors ${selected ? 'border-blue-400' : 'border-gray-700'}`}
+              style={{ backgroundColor: `rgb(${color.r},${color.g},${color.b})` }}
+            />
+          );
+        })}
+      </div>
+    );
+  }
+
+  const range = RAMP_RANGES[target];
+  return (
+    <input type="range" min={range.min} max={range.max} step={range.step}
+      value={typeof value === 'number' ? value : range.initial}
+      onChange={e => onChange(parseInt(e.target.value))}
+      className="w-full" />
+  );
+}
+
+function RampEditor({ command, targets, onUpdate }: {
+  command: RampCommand;
+  targets: { value: RampTarget; label: string }[];
+  onUpdate: (cmd: RampCommand) => void;
+}) {
+  const setTarget = (target: RampTarget) => {
+    onUpdate({ type: 'Ramp', target, to: getInitialRampValue(target), durationMinutes: command.durationMinutes, easing: command.easing });
+  };
+
+  const fromCurrent = command.from == null;
+
+  return (
+    <div className="space-y-3">
+      {targets.length > 1 && (
+        <div className="grid gap-1.5" style={{ gridTemplateColumns: `repeat(${targets.length}, minmax(0, 1fr))` }}>
+          {targets.map(t => (
+            <button
+              key={t.value}
+              onClick={() => { if (t.value !== command.target) setTarget(t.value); }}
+              className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${
+                command.target === t.value ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+              }`}
+            >{t.label}</button>
+          ))}
+        </div>
+      )}
+
+      {/* From */}
+      <div className="space-y-1">
+        <div className="flex justify-between items-center text-xs text-gray-400">
+          <span>From</span>
+          <button
+            onClick={() => {
+              const next: RampCommand = { ...command, from: command.to };
+              if (!fromCurrent) delete next.from;
+              onUpdate(next);
+            }}
+            className={`px-2 py-0.5 rounded text-[11px] ${fromCurrent ? 'bg-amber-900/50 text-amber-300' : 'bg-gray-800 text-gray-400'}`}
+          >
+            {fromCurrent ? 'Current value' : formatRampValue(command.target, command.from!)}
+          </button>
+        </div>
+        {!fromCurrent && (
+          <RampValueInput target={command.target} value={command.from!} onChange={from => onUpdate({ ...command, from })} />
+        )}
+      </div>
+
+      {/* To */}
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>To</span><span className="font-mono">{formatRampValue(command.target, command.to)}</span>
+        </div>
+        <RampValueInput target={command.target} value={command.to} onChange={to => onUpdate({ ...command, to })} />
+      </div>
+
+      {/* Duration */}
+      <div className="space-y-1.5">
+        <span className="text-xs text-gray-500">Duration</span>
+        <div className="grid grid-cols-5 gap-1.5">
+          {RAMP_DURATIONS.map(mins => (
+            <button
+              key={mins}
+              onClick={() => onUpdate({ ...command, durationMinutes: mins })}
+              className={`py-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                command.durationMinutes === mins ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+              }`}
+            >{mins < 60 ? `${mins}m` : `${mins / 60}h`}</button>
+          ))}
+        </div>
+      </div>
+
+      {/* Easing */}
+      <div className="space-y-1.5">
+        <span className="text-xs text-gray-500">Curve</span>
+        <div className="grid grid-cols-4 gap-1.5">
+          {EASINGS.map(e => (
+            <button
+              key={e.value}
+              onClick={() => onUpdate({ ...command, easing: e.value })}
+              className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${
+                (command.easing || 'linear') === e.value ? 'bg-amber-900/50 text-amber-300 border border-amber-700/60' : 'bg-gray-800 text-gray-500 border border-gray-700'
+              }`}
+            >{e.label}</button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ─── Climate Editor ──────────────────────────────────────────────────
+const HYSTERESIS_OPTIONS = [0.5, 1, 1.5, 2, 3];
+
+function ClimateEditor({ command, sensorDevices, onUpdate }: {
+  command: ClimateCommand;
+  sensorDevices: Device[];
+  onUpdate: (cmd: ClimateCommand) => void;
+}) {
+  const { targetTemperature: target, hysteresis } = command;
+
+  return (
+    <div className="p-3 bg-cyan-950/20 border border-cyan-900/50 rounded-xl space-y-3">
+      {/* Mode */}
+      <div className="grid grid-cols-2 gap-1.5">
+        {AC_MODES.filter(m => m.value === 'cold' || m.value === 'heat').map(m => (
+          <button
+            key={m.value}
+            onClick={() => onUpdate({ ...command, mode: m.value as ClimateCommand['mode'] })}
+            className={`flex items-center justify-center gap-1 py-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+              command.mode === m.value ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+            }`}
+          >
+            <span className="text-sm">{m.icon}</span>
+            <span>{m.label}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Sensor */}
+      {sensorDevices.length > 1 && (
+        <select
+          value={command.sensorDeviceId}
+          onChange={e => {
+            const sensor = sensorDevices.find(d => d.id === e.target.value);
+            if (sensor) onUpdate({ ...command, sensorDeviceId: sensor.id, sensorDeviceName: getDeviceDisplayName(sensor) });
+          }}
+          className="w-full px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
+        >
+          {sensorDevices.map(d => (
+            <option key={d.id} value={d.id}>{getDeviceDisplayName(d)}</option>
+          ))}
+        </select>
+      )}
+
+      {/* Target */}
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>Keep room at</span><span className="font-mono">{target}°C</span>
+        </div>
+        <input type="range" min="16" max="30" value={target}
+          onChange={e => onUpdate({ ...command, targetTemperature: parseInt(e.target.value) })}
+          className="w-full" />
+      </div>
+
+      {/* Band */}
+      <div className="space-y-1.5">
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Band</span>
+          <span className="font-mono text-gray-400">{target - hysteresis}–{target + hysteresis}°C</span>
+        </div>
+        <div className="grid grid-cols-5 gap-1">
+          {HYSTERESIS_OPTIONS.map(h => (
+            <button
+              key={h}
+              onClick={() => onUpdate({ ...command, hysteresis: h })}
+              className={`py-1.5 rounded text-xs font-mono ${
+                hysteresis === h ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+              }`}
+            >±{h}</button>
+          ))}
+        </div>
+      </div>
+
+      {/* Fan Speed */}
+      <div className="grid grid-cols-4 gap-1.5">
+        {AC_FAN_SPEEDS.map(f => (
+          <button
+            key={f.value}
+            onClick={() => onUpdate({ ...command, fan: f.value })}
+            className={`py-1.5 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+              command.fan === f.value ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Minimum off-time */}
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>Rest the compressor at least</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={command.minOffMinutes ?? 5}
+            onChange={e => onUpdate({ ...command, minOffMinutes: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 60) })}
+            className="w-12 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-200 text-center"
+          />
+          <span>min</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─── Extra Command Editor (category-aware) ───────────────────────────
-function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate, onConditionUpdate }: {
+function ExtraCommandEditor({ command, condition, device, allDevices, hasEndTime, onUpdate, onConditionUpdate }: {
   command: DeviceCommand;
   condition?: ActionCondition;
   device: Device;
   allDevices: Device[];
+  hasEndTime?: boolean; // Climate control needs the event to have an end time
   onUpdate: (cmd: DeviceCommand) => void;
   onConditionUpdate: (cond: ActionCondition | undefined) => void;
 }) {
@@ -452,21 +1177,106 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
                 devType === 'AC_UNIT' || devType === 'THERMOSTAT') && tuyaCat !== 'wnykq';
   const isIRHub = tuyaCat === 'wnykq';
 
-  // Sensor devices for conditions
+  // Sensor devices for conditions, and other devices whose on/off state can gate this one
   const sensorDevices = allDevices.filter(d => d.attributes?.category === 'wnykq');
+  const conditionDevices = allDevices.filter(d => d.id !== device.id && d.attributes?.category !== 'wnykq');
 
   if (isIRHub) return null; // Sensor only, no extra controls
 
   // ─── AC Controls ─────────────────────────────
   if (isAC) {
     const acCmd = command.type === 'TuyaAC' ? command : { type: 'TuyaAC' as const, mode: 'cold' as const, temperature: 24, fan: 'auto' as const };
+    const acRamp = command.type === 'Ramp' ? command : null;
+    // Climate control only runs until an end time (and needs a sensor)
+    const canMaintain = !!hasEndTime && sensorDevices.length > 0;
+    const climate = command.type === 'Climate' && canMaintain ? command : null;
     // Auto-switch to TuyaAC if not already
-    if (command.type !== 'TuyaAC') {
+    if (command.type !== 'TuyaAC' && !acRamp && !climate) {
       onUpdate(acCmd);
     }
 
+    const conditionEditor = (
+      <ConditionEditor
+        condition={condition}
+        sensorDevices={sensorDevices}
+        devices={conditionDevices}
+        onUpdate={onConditionUpdate}
+      />
+    );
+
+    const maintainToggle = canMaintain && !acRamp && (
+      <div className="flex items-center justify-between p-2 bg-gray-800/40 border border-gray-700 rounded-lg">
+        <div>
+          <span className="text-xs text-gray-400">Maintain temperature</span>
+          <p className="text-[10px] text-gray-600">Switches the AC from the sensor until the end time</p>
+        </div>
+        <button
+          onClick={() => onUpdate(climate
+            ? { ...acCmd, mode: climate.mode, temperature: Math.round(climate.targetTemperature), fan: climate.fan }
+            : {
+                type: 'Climate',
+                mode: acCmd.mode === 'heat' ? 'heat' : 'cold',
+                targetTemperature: acCmd.temperature,
+                hysteresis: 1,
+                fan: acCmd.fan,
+                sensorDeviceId: sensorDevices[0].id,
+                sensorDeviceName: getDeviceDisplayName(sensorDevices[0]),
+                minOffMinutes: 5,
+              })}
+          className={`w-9 h-5 rounded-full transition-colors relative ${climate ? 'bg-cyan-600' : 'bg-gray-700'}`}
+        >
+          <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+            climate ? 'translate-x-4' : 'translate-x-0.5'
+          }`} />
+        </button>
+      </div>
+    );
+
+    if (climate) {
+      return (
+        <div className="space-y-3">
+          {maintainToggle}
+          <ClimateEditor command={climate} sensorDevices={sensorDevices} onUpdate={onUpdate} />
+          {conditionEditor}
+        </div>
+      );
+    }
+
+    const gradualToggle = (
+      <div className="flex items-center justify-between p-2 bg-gray-800/40 border border-gray-700 rounded-lg">
+        <span className="text-xs text-gray-400">Gradual change</span>
+        <button
+          onClick={() => onUpdate(acRamp
+            ? { ...acCmd, temperature: typeof acRamp.to === 'number' && acRamp.target === 'acTemperature' ? acRamp.to : acCmd.temperature }
+            : { type: 'Ramp', target: 'acTemperature', from: 26, to: 22, durationMinutes: 60, easing: 'linear' })}
+          className={`w-9 h-5 rounded-full transition-colors relative ${acRamp ? 'bg-amber-600' : 'bg-gray-700'}`}
+        >
+          <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+            acRamp ? 'translate-x-4' : 'translate-x-0.5'
+          }`} />
+        </button>
+      </div>
+    );
+
+    if (acRamp) {
+      return (
+        <div className="space-y-3">
+          {gradualToggle}
+          <RampEditor
+            command={acRamp}
+            targets={[{ value: 'acTemperature', label: 'Temperature' }, { value: 'fanSpeed', label: 'Fan Speed' }]}
+            onUpdate={onUpdate}
+          />
+          {conditionEditor}
+        </div>
+      );
+    }
+
     return (
       <div className="space-y-3">
+        {gradualToggle}
+        {maintainToggle}
+
         {/* Mode */}
         <div className="space-y-1.5">
           <span className="text-xs text-gray-500">Mode</span>
@@ -516,13 +1326,7 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
         </div>
 
         {/* Condition */}
-        {sensorDevices.length > 0 && (
-          <ConditionEditor
-            condition={condition}
-            sensorDevices={sensorDevices}
-            onUpdate={onConditionUpdate}
-          />
-        )}
+        {conditionEditor}
       </div>
     );
   }
@@ -531,19 +1335,20 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
   if (isLight) {
     const hasColor = device.traits.some(t => t.includes('ColorSetting'));
 
-    // Ensure we're working with a TuyaLight command, auto-upgrade if needed
-    const lightCmd = command.type === 'TuyaLight'
-      ? command
-      : command.type === 'GradualBrightness'
-        ? command // keep gradual as-is
-        : { type: 'TuyaLight' as const, brightness: 80, colorTemp: 500, workMode: 'white' as const };
+    // Gradual changes are ramps (older schedules may still hold GradualBrightness)
+    const ramp = asRamp(command);
+    const isGradual = ramp !== null;
 
     // Auto-switch to TuyaLight if currently OnOff/Brightness/etc
-    if (command.type !== 'TuyaLight' && command.type !== 'GradualBrightness') {
-      onUpdate(lightCmd);
+    if (command.type !== 'TuyaLight' && !isGradual) {
+      onUpdate({ type: 'TuyaLight', brightness: 80, colorTemp: 500, workMode: 'white' });
     }
 
-    const isGradual = command.type === 'GradualBrightness';
+    const lightRampTargets: { value: RampTarget; label: string }[] = [
+      { value: 'brightness', label: 'Brightness' },
+      { value: 'colorTemp', label: 'Warmth' },
+      ...(hasColor ? [{ value: 'colour' as const, label: 'Colour' }] : []),
+    ];
     const isColorMode = command.type === 'TuyaLight' && !!command.colorHSV;
 
     return (
@@ -553,11 +1358,12 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
           <span className="text-xs text-gray-400">Gradual transition</span>
           <button
             onClick={() => {
-              if (isGradual) {
-                onUpdate({ type: 'TuyaLight', brightness: (command as any).targetBrightness || 80, colorTemp: 500, workMode: 'white' });
+              if (ramp) {
+                const brightness = ramp.target === 'brightness' && typeof ramp.to === 'number' ? ramp.to : 80;
+                onUpdate({ type: 'TuyaLight', brightness, colorTemp: 500, workMode: 'white' });
               } else {
                 const currentBright = command.type === 'TuyaLight' && command.brightness != null ? command.brightness : 80;
-                onUpdate({ type: 'GradualBrightness', targetBrightness: currentBright, durationMinutes: 15 });
+                onUpdate({ type: 'Ramp', target: 'brightness', to: currentBright, durationMinutes: 15, easing: 'linear' });
               }
             }}
             className={`w-9 h-5 rounded-full transition-colors relative ${isGradual ? 'bg-amber-600' : 'bg-gray-700'}`}
@@ -568,33 +1374,8 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
           </button>
         </div>
 
-        {isGradual ? (
-          <>
-            {/* Gradual: target brightness */}
-            <div className="space-y-1">
-              <div className="flex justify-between text-xs text-gray-400">
-                <span>Target Brightness</span><span>{(command as any).targetBrightness}%</span>
-              </div>
-              <input type="range" min="1" max="100" value={(command as any).targetBrightness}
-                onChange={e => onUpdate({ type: 'GradualBrightness', targetBrightness: parseInt(e.target.value), durationMinutes: (command as any).durationMinutes })}
-                className="w-full" />
-            </div>
-            {/* Gradual: duration */}
-            <div className="space-y-1.5">
-              <span className="text-xs text-gray-500">Duration</span>
-              <div className="grid grid-cols-4 gap-1.5">
-                {[5, 10, 15, 30].map(mins => (
-                  <button
-                    key={mins}
-                    onClick={() => onUpdate({ type: 'GradualBrightness', targetBrightness: (command as any).targetBrightness, durationMinutes: mins })}
-                    className={`py-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
-                      (command as any).durationMinutes === mins ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
-                    }`}
-                  >{mins}m</button>
-                ))}
-              </div>
-            </div>
-          </>
+        {ramp ? (
+          <RampEditor command={ramp} targets={lightRampTargets} onUpdate={onUpdate} />
         ) : command.type === 'TuyaLight' ? (
           <>
             {/* Brightness slider (always shown) */}
@@ -660,10 +1441,11 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
         ) : null}
 
         {/* Condition (for non-gradual) */}
-        {!isGradual && sensorDevices.length > 0 && (
+        {!isGradual && (
           <ConditionEditor
             condition={condition}
             sensorDevices={sensorDevices}
+            devices={conditionDevices}
             onUpdate={onConditionUpdate}
           />
         )}
@@ -676,13 +1458,30 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
   const hasColor = device.traits.some(t => t.includes('ColorSetting'));
   const hasTemp = device.traits.some(t => t.includes('TemperatureSetting'));
   const hasFan = device.traits.some(t => t.includes('FanSpeed'));
-  if (!hasBrightness && !hasColor && !hasTemp && !hasFan) return null;
+  const conditionEditor = (
+    <ConditionEditor
+      condition={condition}
+      sensorDevices={sensorDevices}
+      devices={conditionDevices}
+      onUpdate={onConditionUpdate}
+    />
+  );
+
+  // Plain switches only get a condition
+  if (!hasBrightness && !hasColor && !hasTemp && !hasFan) return conditionEditor;
 
   const options: { value: string; label: string }[] = [{ value: 'OnOff', label: 'Just On/Off' }];
   if (hasBrightness) options.push({ value: 'Brightness', label: 'Set Brightness' });
   if (hasTemp) options.push({ value: 'Thermostat', label: 'Set Temperature' });
   if (hasFan) options.push({ value: 'FanSpeed', label: 'Fan Speed' });
 
+  const rampTargets: { value: RampTarget; label: string }[] = [
+    ...(hasBrightness ? [{ value: 'brightness' as const, label: 'Brightness' }] : []),
+    ...(hasTemp ? [{ value: 'acTemperature' as const, label: 'Temperature' }] : []),
+    ...(hasFan ? [{ value: 'fanSpeed' as const, label: 'Fan Speed' }] : []),
+  ];
+  if (rampTargets.length > 0) options.push({ value: 'Ramp', label: 'Gradual Change' });
+
   return (
     <div className="space-y-3">
       <select
@@ -694,6 +1493,11 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
             case 'Brightness': onUpdate({ type: 'Brightness', brightness: 100 }); break;
             case 'Thermostat': onUpdate({ type: 'Thermostat', mode: 'auto', temperature: 22 }); break;
             case 'FanSpeed': onUpdate({ type: 'FanSpeed', speedPercent: 50 }); break;
+            case 'Ramp': {
+              const target = rampTargets[0].value;
+              onUpdate({ type: 'Ramp', target, to: getInitialRampValue(target), durationMinutes: 30, easing: 'linear' });
+              break;
+            }
           }
         }}
         className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200"
@@ -720,6 +1524,9 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
             className="w-full" />
         </div>
       )}
+      {command.type === 'Ramp' && (
+        <RampEditor command={command} targets={rampTargets} onUpdate={onUpdate} />
+      )}
       {command.type === 'FanSpeed' && (
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-gray-400">
@@ -730,26 +1537,64 @@ function ExtraCommandEditor({ command, condition, device, allDevices, onUpdate,
             className="w-full" />
         </div>
       )}
+      {command.type !== 'Ramp' && conditionEditor}
     </div>
   );
 }
 
 // ─── Condition Editor ────────────────────────────────────────────────
-function ConditionEditor({ condition, sensorDevices, onUpdate }: {
+type ConditionGroup = AllCondition | AnyCondition;
+type ConditionCheckKind = 'sensor' | 'device' | 'dp' | 'online' | 'time';
+
+interface ConditionOptions {
+  sensorDevices: Device[];
+  devices: Device[];
+  newCheck: (kind: ConditionCheckKind) => ActionCondition;
+}
+
+// The editor always shows a group; a single "all" check is saved on its own
+function toConditionGroup(condition?: ActionCondition): ConditionGroup {
+  if (condition && (condition.type === 'all' || condition.type === 'any')) return condition;
+  return { type: 'all', conditions: condition ? [condition] : [] };
+}
+
+function fromConditionGroup(group: ConditionGroup): ActionCondition | undefined {
+  if (group.conditions.length === 0) return undefined;
+  if (group.type === 'all' && group.conditions.length === 1) return group.conditions[0];
+  return group;
+}
+
+function ConditionEditor({ condition, sensorDevices, devices, onUpdate }: {
   condition?: ActionCondition;
   sensorDevices: Device[];
+  devices: Device[];
   onUpdate: (cond: ActionCondition | undefined) => void;
 }) {
   const [enabled, setEnabled] = useState(!!condition);
 
-  const defaultSensor = sensorDevices[0];
-  const current: ActionCondition = condition || {
-    sensorDeviceId: defaultSensor?.id || '',
-    sensorDeviceName: defaultSensor ? getDeviceDisplayName(defaultSensor) : '',
-    metric: 'temperature',
-    operator: '>',
-    value: 28,
+  const newCheck = (kind: ConditionCheckKind): ActionCondition => {
+    if (kind === 'time') return { type: 'time', after: '22:00', before: '06:00' };
+    if (kind === 'device') {
+      const device = devices[0];
+      return { type: 'device', deviceId: device?.id || '', deviceName: device ? getDeviceDisplayName(device) : '', state: 'off' };
+    }
+    if (kind === 'dp' || kind === 'online') {
+      const device = devices[0] ?? sensorDevices[0];
+      const target = { deviceId: device?.id || '', deviceName: device ? getDeviceDisplayName(device) : '' };
+      return kind === 'dp'
+        ? { type: 'dp', ...target, code: '', operator: '=', value: true }
+        : { type: 'online', ...target, online: true };
+    }
+    const sensor = sensorDevices[0];
+    return {
+      sensorDeviceId: sensor?.id || '',
+      sensorDeviceName: sensor ? getDeviceDisplayName(sensor) : '',
+      metric: 'temperature',
+      operator: '>',
+      value: 28,
+    };
   };
+  const options: ConditionOptions = { sensorDevices, devices, newCheck };
 
   return (
     <div className="p-3 bg-gray-800/40 border border-gray-700 rounded-xl space-y-2">
@@ -759,7 +1604,7 @@ function ConditionEditor({ condition, sensorDevices, onUpdate }: {
           onClick={() => {
             const next = !enabled;
             setEnabled(next);
-            onUpdate(next ? current : undefined);
+            onUpdate(next ? condition ?? newCheck(sensorDevices.length > 0 ? 'sensor' : 'time') : undefined);
           }}
           className={`w-9 h-5 rounded-full transition-colors relative ${enabled ? 'bg-blue-600' : 'bg-gray-700'}`}
         >
@@ -770,18 +1615,399 @@ function ConditionEditor({ condition, sensorDevices, onUpdate }: {
       </div>
 
       {enabled && (
+        <ConditionGroupEditor
+          group={toConditionGroup(condition)}
+          depth={0}
+          options={options}
+          onUpdate={group => onUpdate(fromConditionGroup(group))}
+        />
+      )}
+    </div>
+  );
+}
+
+function ConditionGroupEditor({ group, depth, options, onUpdate }: {
+  group: ConditionGroup;
+  depth: number;
+  options: ConditionOptions;
+  onUpdate: (group: ConditionGroup) => void;
+}) {
+  const setChild = (index: number, child: ActionCondition) =>
+    onUpdate({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+  const addChild = (child: ActionCondition) => onUpdate({ ...group, conditions: [...group.conditions, child] });
+
+  const addButtons: { label: string; add: () => void }[] = [
+    ...(options.sensorDevices.length > 0 ? [{ label: 'Sensor', add: () => addChild(options.newCheck('sensor')) }] : []),
+    ...(options.devices.length > 0 ? [{ label: 'Device', add: () => addChild(options.newCheck('device')) }] : []),
+    ...(options.devices.length + options.sensorDevices.length > 0 ? [
+      { label: 'Value', add: () => addChild(options.newCheck('dp')) },
+      { label: 'Online', add: () => addChild(options.newCheck('online')) },
+    ] : []),
+    { label: 'Time', add: () => addChild(options.newCheck('time')) },
+    // One level of nesting covers "A and (B or C)"
+    ...(depth === 0 ? [{ label: 'Group', add: () => addChild({ type: 'any', conditions: [options.newCheck('time')] }) }] : []),
+  ];
+
+  return (
+    <div className="space-y-2">
+      {group.conditions.length > 1 && (
+        <div className="flex items-center gap-2">
+          <div className="flex bg-gray-900 border border-gray-700 rounded-lg p-0.5">
+            {(['all', 'any'] as const).map(type => (
+              <button
+                key={type}
+                onClick={() => onUpdate({ ...group, type })}
+                className={`px-2 py-0.5 rounded-md text-[11px] font-medium transition-colors ${
+                  group.type === type ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {type === 'all' ? 'All' : 'Any'}
+              </button>
+            ))}
+          </div>
+          <span className="text-[11px] text-gray-500">of these are true</span>
+        </div>
+      )}
+
+      {group.conditions.map((child, i) => (
+        <ConditionRow
+          key={i}
+          condition={child}
+          depth={depth}
+          options={options}
+          onUpdate={next => setChild(i, next)}
+          onRemove={() => onUpdate({ ...group, conditions: group.conditions.filter((_, j) => j !== i) })}
+        />
+      ))}
+
+      <div className="flex items-center gap-1.5">
+        {addButtons.map(({ label, add }) => (
+          <button
+            key={label}
+            onClick={add}
+            className="flex items-center gap-0.5 px-2 py-1 rounded-lg text-[11px] text-gray-500 border border-dashed border-gray-700 hover:text-gray-300 hover:border-gray-600"
+          >
+            <Plus className="h-3 w-3" />{label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const FAILURE_MODE_OPTIONS: { value: ConditionFailurePolicy['mode'] | ''; label: string }[] = [
+  { value: '', label: 'Run anyway' },
+  { value: 'open', label: 'Treat as met' },
+  { value: 'closed', label: 'Treat as not met' },
+  { value: 'retry', label: 'Retry' },
+  { value: 'lastKnown', label: 'Use last reading' },
+];
+
+function FailurePolicyEditor({ policy, allowLastKnown = true, onUpdate }: {
+  policy: ConditionFailurePolicy | undefined;
+  allowLastKnown?: boolean;
+  onUpdate: (policy: ConditionFailurePolicy | undefined) => void;
+}) {
+  const setMode = (mode: ConditionFailurePolicy['mode'] | '') => {
+    if (!mode) return onUpdate(undefined);
+    if (mode === 'retry') return onUpdate({ mode, retries: 2, then: 'open' });
+    if (mode === 'lastKnown') return onUpdate({ mode, maxAgeMinutes: 30, then: 'open' });
+    onUpdate({ mode });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+      <span>If unreadable</span>
+      <select
+        value={policy?.mode ?? ''}
+        onChange={e => setMode(e.target.value as ConditionFailurePolicy['mode'] | '')}
+        className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
+      >
+        {FAILURE_MODE_OPTIONS.filter(option => allowLastKnown || option.value !== 'lastKnown').map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {policy?.mode === 'retry' && (
+        <>
+          <input
+            type="number"
+            min={1}
+            max={5}
+            value={policy.retries ?? 2}
+            onChange={e => onUpdate({ ...policy, retries: Math.min(Math.max(parseInt(e.target.value) || 1, 1), 5) })}
+            className="w-12 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-200 text-center"
+          />
+          <span>times</span>
+        </>
+      )}
+      {policy?.mode === 'lastKnown' && (
+        <>
+          <span>up to</span>
+          <input
+            type="number"
+            min={1}
+            max={1440}
+            value={policy.maxAgeMinutes ?? 30}
+            onChange={e => onUpdate({ ...policy, maxAgeMinutes: Math.min(Math.max(parseInt(e.target.value) || 1, 1), 1440) })}
+            className="w-14 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-200 text-center"
+          />
+          <span>min old</span>
+        </>
+      )}
+      {(policy?.mode === 'retry' || policy?.mode === 'lastKnown') && (
+        <>
+          <span>, then</span>
+          <select
+            value={policy.then ?? 'open'}
+            onChange={e => onUpdate({ ...policy, then: e.target.value as 'open' | 'closed' })}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
+          >
+            <option value="open">treat as met</option>
+            <option value="closed">treat as not met</option>
+          </select>
+        </>
+      )}
+    </div>
+  );
+}
+
+const DP_OPERATORS: DpOperator[] = ['=', '!=', '>', '<', '>=', '<='];
+
+// Compare against a DP's current value, picked from the device's live status
+function DpConditionFields({ condition, devices, onUpdate }: {
+  condition: DpCondition;
+  devices: Device[];
+  onUpdate: (cond: DpCondition) => void;
+}) {
+  const [status, setStatus] = useState<Record<string, unknown> | null>(null);
+
+  useEffect(() => {
+    if (!condition.deviceId) return;
+    let cancelled = false;
+    tuyaApi.getDeviceStatus(condition.deviceId)
+      .then(result => { if (!cancelled) setStatus(result); })
+      .catch(() => { if (!cancelled) setStatus(null); });
+    return () => { cancelled = true; };
+  }, [condition.deviceId]);
+
+  // Start from the DP's current value, typed as the device reports it
+  const pickCode = (code: string) => {
+    const current = status?.[code];
+    const value = typeof current === 'boolean' || typeof current === 'number' ? current : String(current ?? '');
+    onUpdate({ ...condition, code, operator: '=', value });
+  };
+
+  const codes = Object.keys(status || {}).filter(code => typeof status![code] !== 'object');
+  const operators = typeof condition.value === 'number' ? DP_OPERATORS : DP_OPERATORS.slice(0, 2);
+  const inputClass = 'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-200';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={condition.deviceId}
+          onChange={e => {
+            const device = devices.find(d => d.id === e.target.value);
+            if (device) onUpdate({ ...condition, deviceId: device.id, deviceName: getDeviceDisplayName(device), code: '' });
+          }}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
+        >
+          {devices.map(d => (
+            <option key={d.id} value={d.id}>{getDeviceDisplayName(d)}</option>
+          ))}
+        </select>
+        {codes.length > 0 ? (
+          <select
+            value={condition.code}
+            onChange={e => pickCode(e.target.value)}
+            className="px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 font-mono"
+          >
+            {!codes.includes(condition.code) && <option value={condition.code}>{condition.code || 'Choose…'}</option>}
+            {codes.map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            value={condition.code}
+            placeholder="DP code"
+            onChange={e => onUpdate({ ...condition, code: e.target.value.trim() })}
+            className={`w-28 font-mono ${inputClass}`}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex gap-0.5">
+          {operators.map(op => (
+            <button
+              key={op}
+              onClick={() => onUpdate({ ...condition, operator: op })}
+              className={`px-2 py-1.5 rounded text-xs font-mono ${
+                condition.operator === op ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+              }`}
+            >{op}</button>
+          ))}
+        </div>
+        {typeof condition.value === 'boolean' ? (
+          <div className="flex gap-0.5">
+            {[true, false].map(value => (
+              <button
+                key={String(value)}
+                onClick={() => onUpdate({ ...condition, value })}
+                className={`px-2 py-1.5 rounded text-xs font-mono ${
+                  condition.value === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+                }`}
+              >{String(value)}</button>
+            ))}
+          </div>
+        ) : typeof condition.value === 'number' ? (
+          <input
+            type="number"
+            value={condition.value}
+            onChange={e => onUpdate({ ...condition, value: parseFloat(e.target.value) || 0 })}
+            className={`w-20 text-center ${inputClass}`}
+          />
+        ) : (
+          <input
+            value={condition.value}
+            onChange={e => onUpdate({ ...condition, value: e.target.value })}
+            className={`w-28 font-mono ${inputClass}`}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ConditionRow({ condition, depth, options, onUpdate, onRemove }: {
+  condition: ActionCondition;
+  depth: number;
+  options: ConditionOptions;
+  onUpdate: (cond: ActionCondition) => void;
+  onRemove: () => void;
+}) {
+  const negated = condition.type === 'not';
+  const inner = condition.type === 'not' ? condition.condition : condition;
+  const setInner = (next: ActionCondition) => onUpdate(negated ? { type: 'not', condition: next } : next);
+
+  let fields: React.ReactNode;
+  switch (inner.type) {
+    case 'all':
+    case 'any':
+      fields = <ConditionGroupEditor group={inner} depth={depth + 1} options={options} onUpdate={setInner} />;
+      break;
+    case 'not':
+      fields = <ConditionRow condition={inner.condition} depth={depth} options={options} onUpdate={setInner} onRemove={onRemove} />;
+      break;
+    case 'time':
+      fields = (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span>Between</span>
+          <input
+            type="time"
+            value={inner.after}
+            onChange={e => setInner({ ...inner, after: e.target.value })}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-200"
+          />
+          <span>and</span>
+          <input
+            type="time"
+            value={inner.before}
+            onChange={e => setInner({ ...inner, before: e.target.value })}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-200"
+          />
+        </div>
+      );
+      break;
+    case 'device':
+      fields = (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={inner.deviceId}
+              onChange={e => {
+                const device = options.devices.find(d => d.id === e.target.value);
+                if (device) setInner({ ...inner, deviceId: device.id, deviceName: getDeviceDisplayName(device) });
+              }}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
+            >
+              {options.devices.map(d => (
+                <option key={d.id} value={d.id}>{getDeviceDisplayName(d)}</option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500">is</span>
+            <div className="flex gap-0.5">
+              {(['on', 'off'] as const).map(state => (
+                <button
+                  key={state}
+                  onClick={() => setInner({ ...inner, state })}
+                  className={`px-2 py-1.5 rounded text-xs ${
+                    inner.state === state ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+                  }`}
+                >{state === 'on' ? 'On' : 'Off'}</button>
+              ))}
+            </div>
+          </div>
+          <FailurePolicyEditor policy={inner.onFailure} onUpdate={onFailure => setInner({ ...inner, onFailure })} />
+        </div>
+      );
+      break;
+    case 'dp':
+      fields = (
+        <div className="space-y-2">
+          <DpConditionFields condition={inner} devices={[...options.devices, ...options.sensorDevices]} onUpdate={setInner} />
+          <FailurePolicyEditor policy={inner.onFailure} onUpdate={onFailure => setInner({ ...inner, onFailure })} />
+        </div>
+      );
+      break;
+    case 'online':
+      fields = (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={inner.deviceId}
+              onChange={e => {
+                const device = [...options.devices, ...options.sensorDevices].find(d => d.id === e.target.value);
+                if (device) setInner({ ...inner, deviceId: device.id, deviceName: getDeviceDisplayName(device) });
+              }}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
+            >
+              {[...options.devices, ...options.sensorDevices].map(d => (
+                <option key={d.id} value={d.id}>{getDeviceDisplayName(d)}</option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500">is</span>
+            <div className="flex gap-0.5">
+              {[true, false].map(online => (
+                <button
+                  key={String(online)}
+                  onClick={() => setInner({ ...inner, online })}
+                  className={`px-2 py-1.5 rounded text-xs ${
+                    inner.online === online ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+                  }`}
+                >{online ? 'Online' : 'Offline'}</button>
+              ))}
+            </div>
+          </div>
+          <FailurePolicyEditor policy={inner.onFailure} allowLastKnown={false} onUpdate={onFailure => setInner({ ...inner, onFailure })} />
+        </div>
+      );
+      break;
+    default:
+      fields = (
         <div className="space-y-2">
           {/* Sensor picker (if multiple) */}
-          {sensorDevices.length > 1 && (
+          {options.sensorDevices.length > 1 && (
             <select
-              value={current.sensorDeviceId}
+              value={inner.sensorDeviceId}
               onChange={(e) => {
-                const sensor = sensorDevices.find(d => d.id === e.target.value);
-                if (sensor) onUpdate({ ...current, sensorDeviceId: sensor.id, sensorDeviceName: getDeviceDisplayName(sensor) });
+                const sensor = options.sensorDevices.find(d => d.id === e.target.value);
+                if (sensor) setInner({ ...inner, sensorDeviceId: sensor.id, sensorDeviceName: getDeviceDisplayName(sensor) });
               }}
               className="w-full px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
             >
-              {sensorDevices.map(d => (
+              {options.sensorDevices.map(d => (
                 <option key={d.id} value={d.id}>{getDeviceDisplayName(d)}</option>
               ))}
             </select>
@@ -790,8 +2016,8 @@ function ConditionEditor({ condition, sensorDevices, onUpdate }: {
           {/* Metric + Operator + Value */}
           <div className="flex items-center gap-2">
             <select
-              value={current.metric}
-              onChange={(e) => onUpdate({ ...current, metric: e.target.value as 'temperature' | 'humidity', value: e.target.value === 'temperature' ? 28 : 60 })}
+              value={inner.metric}
+              onChange={(e) => setInner({ ...inner, metric: e.target.value as 'temperature' | 'humidity', value: e.target.value === 'temperature' ? 28 : 60 })}
               className="px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300"
             >
               <option value="temperature">Temp</option>
@@ -802,9 +2028,9 @@ function ConditionEditor({ condition, sensorDevices, onUpdate }: {
               {(['>' , '<', '>=', '<='] as const).map(op => (
                 <button
                   key={op}
-                  onClick={() => onUpdate({ ...current, operator: op })}
+                  onClick={() => setInner({ ...inner, operator: op })}
                   className={`px-2 py-1.5 rounded text-xs font-mono ${
-                    current.operator === op ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
+                    inner.operator === op ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-500 border border-gray-700'
                   }`}
                 >{op}</button>
               ))}
@@ -812,14 +2038,33 @@ function ConditionEditor({ condition, sensorDevices, onUpdate }: {
 
             <input
               type="number"
-              value={current.value}
-              onChange={(e) => onUpdate({ ...current, value: parseFloat(e.target.value) || 0 })}
+              value={inner.value}
+              onChange={(e) => setInner({ ...inner, value: parseFloat(e.target.value) || 0 })}
               className="w-16 px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-200 text-center"
             />
-            <span className="text-xs text-gray-500">{current.metric === 'temperature' ? '°C' : '%'}</span>
+            <span className="text-xs text-gray-500">{inner.metric === 'temperature' ? '°C' : '%'}</span>
           </div>
+
+          <FailurePolicyEditor policy={inner.onFailure} onUpdate={onFailure => setInner({ ...inner, onFailure })} />
         </div>
-      )}
+      );
+  }
+
+  return (
+    <div className="flex items-start gap-1.5 p-2 bg-gray-900/40 border border-gray-700/60 rounded-lg">
+      <button
+        onClick={() => onUpdate(negated ? inner : { type: 'not', condition: inner })}
+        title="Negate"
+        className={`mt-0.5 px-1.5 py-0.5 rounded text-[10px] font-semibold ${
+          negated ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-600 border border-gray-700'
+        }`}
+      >
+        NOT
+      </button>
+      <div className="flex-1 min-w-0">{fields}</div>
+      <button onClick={onRemove} className="mt-0.5 p-0.5 text-gray-600 hover:text-red-400">
+        <X className="h-3.5 w-3.5" />
+      </button>
     </div>
   );
 }
@@ -843,6 +2088,10 @@ function getEventLabel(ev: TimelineEvent): string {
       return `${cmd.temperature}° ${cmd.mode}`;
     case 'GradualBrightness':
       return `~${cmd.targetBrightness}% ${cmd.durationMinutes}m`;
+    case 'Ramp':
+      return `~${formatRampValue(cmd.target, cmd.to)} ${cmd.durationMinutes}m`;
+    case 'Climate':
+      return `${cmd.targetTemperature}±${cmd.hysteresis}° ${cmd.mode}`;
     case 'Brightness':
       return `${cmd.brightness}%`;
     default:
@@ -851,12 +2100,18 @@ function getEventLabel(ev: TimelineEvent): string {
 }
 
 function getEventColor(ev: TimelineEvent): { bg: string; border: string; text: string; dot: string; line: string; knob: string } {
-  if (ev.command.type === 'GradualBrightness') {
+  if (ev.command.type === 'GradualBrightness' || ev.command.type === 'Ramp') {
     return {
       bg: 'bg-amber-950/40', border: 'border-amber-800/50', text: 'text-amber-400',
       dot: 'bg-amber-400', line: 'bg-amber-400', knob: 'bg-amber-500 border-amber-300',
     };
   }
+  if (ev.command.type === 'Climate') {
+    return {
+      bg: 'bg-cyan-950/40', border: 'border-cyan-800/50', text: 'text-cyan-400',
+      dot: 'bg-cyan-400', line: 'bg-cyan-400', knob: 'bg-cyan-500 border-cyan-300',
+    };
+  }
   if (ev.on) {
     return {
       bg: 'bg-emerald-950/40', border: 'border-emerald-800/50', text: 'text-emerald-400',
@@ -870,12 +2125,13 @@ function getEventColor(ev: TimelineEvent): { bg: string; border: string; text: s
 }
 
 // ─── Device Timeline Row ─────────────────────────────────────────────
-function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }: {
+function DeviceTimelineRow({ timeline, group, allDevices, location, onUpdate, onDelete }: {
   timeline: DeviceTimeline;
+  group?: DeviceGroup;
   allDevices: Device[];
+  location?: GeoLocation;
   onUpdate: (updated: DeviceTimeline) => void;
   onDelete: () => void;
-  onSync?: () => void;
 }) {
   const barRef = useRef<HTMLDivElement>(null);
   const [draggingId, setDraggingId] = useState<string | null>(null);
@@ -909,9 +2165,14 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
     }
     const minutes = posFromPointer(e.clientX);
     const newTime = minutesToTime(minutes);
-    const updatedEvents = timeline.events.map(ev =>
-      ev.id === draggingId ? { ...ev, time: newTime } : ev
-    );
+    // End markers are dragged as "<eventId>:end"
+    const [eventId, part] = draggingId.split(':');
+    // Solar events follow the sun — edit their offset in the popover instead
+    const updatedEvents = timeline.events.map(ev => {
+      if (ev.id !== eventId) return ev;
+      if (part === 'end') return { ...ev, endTime: newTime };
+      return ev.solar ? ev : { ...ev, time: newTime, todayAt: undefined };
+    });
     onUpdate({ ...timeline, events: updatedEvents });
   }, [draggingId, timeline, onUpdate, posFromPointer]);
 
@@ -919,7 +2180,7 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
     if (draggingId) {
       (e.target as HTMLElement).releasePointerCapture(e.pointerId);
       if (!wasDragged.current) {
-        const ev = timeline.events.find(ev => ev.id === draggingId);
+        const ev = timeline.events.find(ev => ev.id === draggingId.split(':')[0]);
         if (ev) setPopoverEvent(ev);
       }
       setDraggingId(null);
@@ -927,6 +2188,10 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
   }, [draggingId, timeline.events]);
 
   const updateEvent = (eventId: string, updates: Partial<TimelineEvent>) => {
+    // The server's "today at" time is stale once the timing changes
+    if ('time' in updates || 'solar' in updates || 'jitterMinutes' in updates) {
+      updates = { ...updates, todayAt: undefined };
+    }
     const updatedEvents = timeline.events.map(ev =>
       ev.id === eventId ? { ...ev, ...updates } : ev
     );
@@ -959,9 +2224,16 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
           {timeline.device && (
             <span className="text-gray-500">{getDeviceIcon(timeline.device)}</span>
           )}
+          {timeline.scene && <Sparkles className="h-4 w-4 text-amber-400" />}
+          {timeline.groupId && <Layers className="h-4 w-4 text-purple-400" />}
           <span className="text-xs font-medium text-gray-300 truncate max-w-[200px]">
             {timeline.deviceName}
           </span>
+          {timeline.groupId && (
+            <span className="text-[10px] text-purple-400/80">
+              {group ? `${group.deviceIds.length} devices` : 'group deleted'}
+            </span>
+          )}
           <span className="text-[10px] text-gray-600">
             {timeline.events.length} event{timeline.events.length !== 1 ? 's' : ''}
           </span>
@@ -992,11 +2264,20 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
         {segments.map(seg => seg.on && (
           <div
             key={seg.id}
-            className="absolute top-0 bottom-0 bg-emerald-600/30 border-y border-emerald-600/20"
+            className={`absolute top-0 bottom-0 border-y border-emerald-600/20 ${seg.cycling ? 'bg-emerald-600/10' : 'bg-emerald-600/30'}`}
             style={{ left: `${seg.startPct}%`, width: `${Math.max(seg.widthPct, 0.3)}%` }}
           />
         ))}
 
+        {/* Cycle stripes (on periods of cycling events) */}
+        {timeline.events.filter(ev => ev.on).flatMap(getCycleStripes).map(stripe => (
+          <div
+            key={stripe.id}
+            className="absolute top-0 bottom-0 bg-emerald-500/40"
+            style={{ left: `${stripe.startPct}%`, width: `${Math.max(stripe.widthPct, 0.2)}%` }}
+          />
+        ))}
+
         {/* Current time indicator */}
         <div
           className="absolute top-0 bottom-0 w-px bg-yellow-500/40 pointer-events-none"
@@ -1011,7 +2292,7 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
             <div
               key={ev.id}
               data-marker
-              className="absolute top-0 bottom-0 flex items-center justify-center cursor-ew-resize"
+              className={`absolute top-0 bottom-0 flex items-center justify-center ${ev.solar ? 'cursor-pointer' : 'cursor-ew-resize'}`}
               style={{ left: `${leftPct}%`, transform: 'translateX(-50%)', width: '28px' }}
               onPointerDown={(e) => handlePointerDown(e, ev.id)}
             >
@@ -1023,6 +2304,28 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
             </div>
           );
         })}
+
+        {/* End markers (ranged events) */}
+        {timeline.events.filter(ev => ev.endTime).map(ev => {
+          const leftPct = (timeToMinutes(ev.endTime!) / MINUTES_IN_DAY) * 100;
+          const colors = getEventColor({ ...ev, on: isOnCommand(getEndCommand(ev)), command: getEndCommand(ev) });
+          const endId = `${ev.id}:end`;
+          return (
+            <div
+              key={endId}
+              data-marker
+              className="absolute top-0 bottom-0 flex items-center justify-center cursor-ew-resize"
+              style={{ left: `${leftPct}%`, transform: 'translateX(-50%)', width: '24px' }}
+              onPointerDown={(e) => handlePointerDown(e, endId)}
+            >
+              <div className={`absolute top-0 bottom-0 w-px opacity-60 ${colors.line}`} />
+              <div className={`relative z-10 w-3 h-3 rounded-full border-2 bg-gray-900 ${colors.knob.split(' ')[1]} ${draggingId === endId ? 'scale-125' : ''} transition-transform`} />
+              <span className={`absolute -bottom-0.5 text-[8px] font-mono whitespace-nowrap pointer-events-none ${colors.text}`}>
+                {ev.endTime}
+              </span>
+            </div>
+          );
+        })}
       </div>
 
       {/* Event chips */}
@@ -1038,15 +2341,19 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
                   onClick={() => setPopoverEvent(ev)}
                   className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-mono border transition-colors ${colors.bg} ${colors.border} ${colors.text} hover:brightness-125`}
                 >
-                  <span className={`w-1.5 h-1.5 rounded-full ${colors.dot}`} />
-                  {ev.time} {getEventLabel(ev)}
+                  {ev.solar
+                    ? <Sun className="h-3 w-3" />
+                    : <span className={`w-1.5 h-1.5 rounded-full ${colors.dot}`} />}
+                  {ev.solar ? `${formatSolarTime(ev.solar)} (${ev.time})` : ev.time}
+                  {ev.endTime && `–${ev.endTime}`}
+                  {ev.endTime && ev.cycle && ` ${ev.cycle.onMinutes}/${ev.cycle.offMinutes}m`} {getEventLabel(ev)}
                 </button>
               );
             })}
         </div>
       )}
 
-      {/* Add Event + Sync Group buttons */}
+      {/* Add Event button */}
       <div className="flex gap-2 mt-2">
         <button
           onClick={() => setShowAddEvent(true)}
@@ -1055,16 +2362,6 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
           <Plus className="h-4 w-4" />
           Add Event
         </button>
-        {onSync && (
-          <button
-            onClick={onSync}
-            className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium border border-purple-800/50 text-purple-400 hover:text-purple-300 hover:bg-purple-900/20 active:scale-95 transition-all"
-            title="Copy this device's events to all other devices in the group"
-          >
-            <Copy className="h-4 w-4" />
-            Sync Group
-          </button>
-        )}
       </div>
 
       {/* Event popover (edit existing) */}
@@ -1072,7 +2369,10 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
         <EventPopover
           event={popoverEvent}
           device={timeline.device}
+          scene={timeline.scene}
+          group={group}
           allDevices={allDevices}
+          location={location}
           onUpdate={(updates) => updateEvent(popoverEvent.id, updates)}
           onDelete={() => deleteEvent(popoverEvent.id)}
           onClose={() => setPopoverEvent(null)}
@@ -1083,7 +2383,10 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
       {showAddEvent && (
         <AddEventSheet
           device={timeline.device}
+          scene={timeline.scene}
+          group={group}
           allDevices={allDevices}
+          location={location}
           onAdd={addNewEvent}
           onClose={() => setShowAddEvent(false)}
         />
@@ -1093,17 +2396,19 @@ function DeviceTimelineRow({ timeline, allDevices, onUpdate, onDelete, onSync }:
 }
 
 // ─── Add Device Panel ────────────────────────────────────────────────
-function AddDevicePanel({ devices, groups, existingDeviceIds, onAdd, onAddGroup, onClose }: {
+function AddDevicePanel({ devices, groups, scenes, existingDeviceIds, onAdd, onAddGroup, onAddScene, onClose }: {
   devices: Device[];
   groups: DeviceGroup[];
+  scenes: Scene[];
   existingDeviceIds: Set<string>;
   onAdd: (device: Device) => void;
   onAddGroup: (group: DeviceGroup) => void;
+  onAddScene: (scene: Scene) => void;
   onClose: () => void;
 }) {
   const available = devices.filter(d => !existingDeviceIds.has(d.id));
-  // A group is "available" if at least one of its devices isn't in the timeline yet
-  const availableGroups = groups.filter(g => g.deviceIds.some(id => !existingDeviceIds.has(id)));
+  const availableGroups = groups.filter(g => !existingDeviceIds.has(g.id));
+  const availableScenes = scenes.filter(s => !existingDeviceIds.has(s.id));
 
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
@@ -1138,12 +2443,34 @@ function AddDevicePanel({ devices, groups, existingDeviceIds, onAdd, onAddGroup,
             </div>
           )}
 
+          {/* Scenes */}
+          {availableScenes.length > 0 && (
+            <div className="mb-3">
+              <p className="text-[10px] text-gray-600 uppercase tracking-wider mb-1.5 px-1">Scenes</p>
+              <div className="space-y-1">
+                {availableScenes.map(scene => (
+                  <button
+                    key={scene.id}
+                    onClick={() => { onAddScene(scene); onClose(); }}
+                    className="w-full flex items-center gap-3 p-3 hover:bg-amber-900/20 rounded-lg transition-colors text-left border border-gray-800 hover:border-amber-800"
+                  >
+                    <span className="text-amber-400"><Sparkles className="h-5 w-5" /></span>
+                    <div>
+                      <span className="text-sm text-gray-200">{scene.name}</span>
+                      <span className="text-xs text-gray-600 ml-2">{scene.devices.length} devices</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Individual Devices */}
-          {available.length === 0 && availableGroups.length === 0 ? (
+          {available.length === 0 && availableGroups.length === 0 && availableScenes.length === 0 ? (
             <p className="text-xs text-gray-600 text-center py-4">All devices have been added</p>
           ) : (
             <>
-              {availableGroups.length > 0 && available.length > 0 && (
+              {(availableGroups.length > 0 || availableScenes.length > 0) && available.length > 0 && (
                 <p className="text-[10px] text-gray-600 uppercase tracking-wider mb-1.5 px-1">Individual Devices</p>
               )}
               <div className="space-y-1">
@@ -1169,6 +2496,63 @@ function AddDevicePanel({ devices, groups, existingDeviceIds, onAdd, onAddGroup,
   );
 }
 
+// ─── Calendar Picker ─────────────────────────────────────────────────
+type DateTone = 'extra' | 'skip' | 'weekly' | null;
+
+const DATE_TONE_STYLES: Record<string, string> = {
+  extra: 'bg-blue-600 text-white',
+  skip: 'bg-red-900/60 text-red-300 line-through',
+  weekly: 'bg-gray-800 text-gray-300',
+};
+
+function CalendarPicker({ getTone, onSelect }: {
+  getTone: (date: string) => DateTone;
+  onSelect: (date: string) => void;
+}) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const days = eachDayOfInterval({
+    start: startOfWeek(month, { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  });
+
+  return (
+    <div className="p-3 bg-gray-900/60 border border-gray-800 rounded-xl">
+      <div className="flex items-center justify-between mb-2">
+        <button onClick={() => setMonth(addMonths(month, -1))} className="p-1 text-gray-500 hover:text-gray-300">
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="text-xs font-medium text-gray-300">{format(month, 'MMMM yyyy')}</span>
+        <button onClick={() => setMonth(addMonths(month, 1))} className="p-1 text-gray-500 hover:text-gray-300">
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {['M', 'T', 'W', 'T', 'F', 'S', 'S'].map((d, i) => (
+          <span key={i} className="text-[10px] text-gray-600 py-0.5">{d}</span>
+        ))}
+        {days.map(day => {
+          const date = format(day, 'yyyy-MM-dd');
+          const tone = getTone(date);
+          return (
+            <button
+              key={date}
+              onClick={() => onSelect(date)}
+              className={`h-8 rounded-md text-xs transition-colors ${
+                !isSameMonth(day, month) ? 'opacity-30' : ''
+              } ${tone ? DATE_TONE_STYLES[tone] : 'text-gray-600 hover:bg-gray-800'} ${
+                date === today ? 'ring-1 ring-yellow-500/60' : ''
+              }`}
+            >
+              {format(day, 'd')}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 // ─── Main Schedule Builder ───────────────────────────────────────────
 export default function ScheduleBuilder() {
   const navigate = useNavigate();
@@ -1185,11 +2569,16 @@ export default function ScheduleBuilder() {
   const [timelines, setTimelines] = useState<DeviceTimeline[]>([]);
   const [devices, setDevices] = useState<Device[]>([]);
   const [groups, setGroups] = useState<DeviceGroup[]>([]);
+  const [scenes, setScenes] = useState<Scene[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showAddDevice, setShowAddDevice] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [repeat, setRepeat] = useState<'weekly' | 'dates'>('weekly');
+  const [dateAction, setDateAction] = useState<'skip' | 'extra'>('skip');
+  const [warnings, setWarnings] = useState<ScheduleConflict[]>([]);
 
   useEffect(() => {
     async function loadData() {
@@ -1205,16 +2594,26 @@ export default function ScheduleBuilder() {
           setDevices([]);
         }
 
+        let groupList: DeviceGroup[] = [];
         try {
-          const groupList = await groupApi.list();
+          groupList = await groupApi.list();
           setGroups(groupList);
         } catch { /* groups not critical */ }
 
+        let sceneList: Scene[] = [];
+        try {
+          sceneList = await sceneApi.list();
+          setScenes(sceneList);
+        } catch { /* scenes not critical */ }
+
         if (isEditing && id) {
           const existing = await scheduleApi.get(id);
           setSchedule(existing);
+          if (!existing.daysOfWeek?.length && existing.extraDates?.length) {
+            setRepeat('dates');
+          }
           if (existing.timeSlots && existing.timeSlots.length > 0) {
-            setTimelines(timeSlotsToTimelines(existing.timeSlots, deviceList));
+            setTimelines(timeSlotsToTimelines(existing.timeSlots, deviceList, sceneList, groupList, existing.location ?? undefined));
           }
         }
       } catch (err) {
@@ -1245,6 +2644,70 @@ export default function ScheduleBuilder() {
     setSchedule({ ...schedule, daysOfWeek: presets[preset] });
   };
 
+  const updateLocation = (location?: GeoLocation) => {
+    setSchedule({ ...schedule, location });
+    // Re-place solar events; without a location they become fixed at their last time
+    setTimelines(prev => prev.map(tl => ({
+      ...tl,
+      events: tl.events.map(ev => {
+        if (!ev.solar) return ev;
+        if (!location) return { ...ev, solar: undefined };
+        return { ...ev, time: resolveSolarTime(ev.solar, location, ev.time), todayAt: undefined };
+      }),
+    })));
+  };
+
+  const detectLocation = () => {
+    if (!navigator.geolocation) { setError('Location is not available in this browser'); return; }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        // ~1km precision is plenty for sun times
+        updateLocation({
+          latitude: Math.round(pos.coords.latitude * 100) / 100,
+          longitude: Math.round(pos.coords.longitude * 100) / 100,
+        });
+        setLocating(false);
+      },
+      (err) => {
+        setError(`Couldn't get location: ${err.message}`);
+        setLocating(false);
+      },
+      { timeout: 15000 }
+    );
+  };
+
+  const toggleDate = (date: string, field: 'extraDates' | 'skipDates') => {
+    const other = field === 'extraDates' ? 'skipDates' : 'extraDates';
+    const current = schedule[field] || [];
+    setSchedule({
+      ...schedule,
+      [field]: current.includes(date) ? current.filter(d => d !== date) : [...current, date].sort(),
+      // A date can't be both skipped and added
+      [other]: (schedule[other] || []).filter(d => d !== date),
+    });
+  };
+
+  const changeRepeat = (mode: 'weekly' | 'dates') => {
+    setRepeat(mode);
+    if (mode === 'dates') {
+      setSchedule({ ...schedule, daysOfWeek: [], skipDates: [], validFrom: null, validUntil: null });
+    } else if (!schedule.daysOfWeek?.length) {
+      setSchedule({ ...schedule, daysOfWeek: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] });
+    }
+  };
+
+  // How a date shows in the calendar, mirroring the server's rules
+  const getDateTone = (date: string): DateTone => {
+    if (schedule.skipDates?.includes(date)) return 'skip';
+    if (schedule.extraDates?.includes(date)) return 'extra';
+    if (repeat === 'dates') return null;
+    if (schedule.validFrom && date < schedule.validFrom) return null;
+    if (schedule.validUntil && date > schedule.validUntil) return null;
+    const day = format(parseISO(date), 'EEEE').toLowerCase() as DayOfWeek;
+    return schedule.daysOfWeek?.includes(day) ? 'weekly' : null;
+  };
+
   const addDevice = (device: Device) => {
     const h = new Date().getHours();
     const startTime = `${String(h).padStart(2, '0')}:00`;
@@ -1261,65 +2724,66 @@ export default function ScheduleBuilder() {
     }]);
   };
 
-  const addGroup = (group: DeviceGroup) => {
+  const addScene = (scene: Scene) => {
     const h = new Date().getHours();
     const startTime = `${String(h).padStart(2, '0')}:00`;
-    const endTime = `${String((h + 1) % 24).padStart(2, '0')}:00`;
 
-    // Add a timeline for each device in the group that isn't already added
-    const newTimelines: DeviceTimeline[] = [];
-    for (const deviceId of group.deviceIds) {
-      if (timelines.some(t => t.deviceId === deviceId)) continue;
-      const device = devices.find(d => d.id === deviceId);
-      if (!device) continue;
-      newTimelines.push({
-        deviceId: device.id,
-        deviceName: device.name.name,
-        device,
-        groupId: group.id,
-        events: [
-          { id: uid(), time: startTime, on: true, command: { type: 'OnOff', on: true } },
-          { id: uid(), time: endTime, on: false, command: { type: 'OnOff', on: false } },
-        ],
-      });
-    }
-    if (newTimelines.length > 0) {
-      setTimelines(prev => [...prev, ...newTimelines]);
-    }
+    setTimelines(prev => [...prev, {
+      deviceId: scene.id,
+      deviceName: scene.name,
+      scene,
+      events: [
+        { id: uid(), time: startTime, on: true, command: getSwitchCommand(true, scene) },
+      ],
+    }]);
   };
 
-  const syncGroup = (sourceTimeline: DeviceTimeline) => {
-    if (!sourceTimeline.groupId) return;
-    setTimelines(prev => prev.map(tl => {
-      if (tl.groupId === sourceTimeline.groupId && tl.deviceId !== sourceTimeline.deviceId) {
-        // Deep clone events with new IDs
-        const clonedEvents = sourceTimeline.events.map(ev => ({
-          ...ev,
-          id: uid(),
-          command: { ...ev.command } as DeviceCommand,
-          condition: ev.condition ? { ...ev.condition } : undefined,
-        }));
-        return { ...tl, events: clonedEvents };
-      }
-      return tl;
-    }));
+  const addGroup = (group: DeviceGroup) => {
+    const h = new Date().getHours();
+    const startTime = `${String(h).padStart(2, '0')}:00`;
+    const endTime = `${String((h + 1) % 24).padStart(2, '0')}:00`;
+
+    setTimelines(prev => [...prev, {
+      deviceId: group.id,
+      deviceName: group.name,
+      groupId: group.id,
+      events: [
+        { id: uid(), time: startTime, on: true, command: { type: 'OnOff', on: true } },
+        { id: uid(), time: endTime, on: false, command: { type: 'OnOff', on: false } },
+      ],
+    }]);
   };
 
   const handleSave = async () => {
     if (!schedule.name) { setError('Enter a schedule name'); return; }
+    if (!schedule.daysOfWeek?.length && !schedule.extraDates?.length) { setError('Pick at least one day or date'); return; }
     const hasEvents = timelines.some(t => t.events.length > 0);
     if (!hasEvents) { setError('Add at least one event'); return; }
 
     setSaving(true);
     setError(null);
+    setWarnings([]);
     try {
       const timeSlots = timelinesToTimeSlots(timelines);
-      const toSave = { ...schedule, timeSlots };
-
-      if (isEditing && id) {
-        await scheduleApi.update(id, toSave);
-      } else {
-        await scheduleApi.create(toSave as Omit<Schedule, 'id' | 'userId' | 'createdAt' | 'updatedAt'>);
+      const toSave = {
+        ...schedule,
+        daysOfWeek: schedule.daysOfWeek || [],
+        timeSlots,
+        timezone: BROWSER_TIMEZONE,
+        location: schedule.location ?? null,
+        validFrom: schedule.validFrom || null,
+        validUntil: schedule.validUntil || null,
+      };
+
+      const result = isEditing && id
+        ? await scheduleApi.update(id, toSave)
+        : await scheduleApi.create(toSave as Omit<Schedule, 'id' | 'userId' | 'createdAt' | 'updatedAt'>);
+
+      // Saved, but clashes with other schedules: stay and show them
+      if (result.warnings.length > 0) {
+        setWarnings(result.warnings);
+        if (!isEditing) navigate(`/schedule/${result.schedule.id}`, { replace: true });
+        return;
       }
       navigate('/dashboard');
     } catch (err) {
@@ -1370,6 +2834,15 @@ export default function ScheduleBuilder() {
               {isEditing ? 'Edit Schedule' : 'New Schedule'}
             </h1>
             <div className="flex items-center gap-2">
+              {isEditing && (
+                <button
+                  onClick={() => navigate(`/history?schedule=${id}`)}
+                  className="p-1.5 text-gray-500 hover:text-gray-300 rounded-lg transition-colors"
+                  title="Execution history"
+                >
+                  <History className="h-4 w-4" />
+                </button>
+              )}
               {isEditing && (
                 <button
                   onClick={handleTest}
@@ -1398,6 +2871,33 @@ export default function ScheduleBuilder() {
           <div className="p-3 bg-red-900/30 border border-red-800 rounded-xl text-red-400 text-sm">{error}</div>
         )}
 
+        {warnings.length > 0 && (
+          <div className="p-3 bg-amber-900/20 border border-amber-800/60 rounded-xl space-y-2">
+            <div className="flex items-center gap-2 text-amber-400 text-sm font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              Saved, but it clashes with other schedules
+            </div>
+            {warnings.map(conflict => {
+              const winner = conflict.actions.find(a => a.scheduleId === conflict.winnerScheduleId);
+              return (
+                <div key={`${conflict.deviceId}-${conflict.actions.map(a => `${a.scheduleId}-${a.slotId}-${a.phase}`).join('-')}`} className="text-xs text-gray-400">
+                  <span className="text-gray-200">{conflict.deviceName}</span>
+                  {' '}{conflict.kind === 'same_time' ? 'at' : 'around'} {format(conflict.at, 'EEE HH:mm')}:{' '}
+                  {conflict.actions.map(a => `${a.scheduleName} (${describeCommand(a.command)})`).join(' vs ')}
+                  {winner && <span className="text-amber-400/80"> · {winner.scheduleName} wins</span>}
+                </div>
+              );
+            })}
+            <p className="text-[11px] text-gray-600">Raise this schedule's priority to make it win, or change the times.</p>
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="text-xs font-medium text-amber-400 hover:text-amber-300"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
         {/* Schedule name */}
         <div>
           <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Name</label>
@@ -1410,38 +2910,114 @@ export default function ScheduleBuilder() {
           />
         </div>
 
-        {/* Days of week */}
+        {/* Days of week / dates */}
         <div>
-          <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Active Days</label>
-          <div className="flex gap-1.5 mb-3">
-            {DAYS_OF_WEEK.map((day, i) => (
-              <button
-                key={day.value}
-                onClick={() => toggleDay(day.value)}
-                className={`flex-1 h-11 rounded-xl text-sm font-semibold transition-all active:scale-95 ${
-                  schedule.daysOfWeek?.includes(day.value)
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-900 border border-gray-800 text-gray-600 hover:border-gray-700'
-                }`}
-                title={day.label}
-              >
-                {['M', 'T', 'W', 'T', 'F', 'S', 'S'][i]}
-              </button>
-            ))}
-          </div>
-          <div className="flex gap-2">
-            {(['weekdays', 'weekends', 'everyday'] as const).map(preset => (
-              <button
-                key={preset}
-                onClick={() => selectPreset(preset)}
-                className="text-[11px] px-3 py-1 bg-gray-900 border border-gray-800 rounded-full text-gray-500 hover:text-gray-300 hover:border-gray-700 transition-colors capitalize"
-              >
-                {preset}
-              </button>
-            ))}
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider">
+              {repeat === 'weekly' ? 'Active Days' : 'Run On Dates'}
+            </label>
+            <div className="flex bg-gray-900 border border-gray-800 rounded-lg p-0.5">
+              {(['weekly', 'dates'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => changeRepeat(mode)}
+                  className={`px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors ${
+                    repeat === mode ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'
+                  }`}
+                >
+                  {mode === 'weekly' ? 'Weekly' : 'One-off'}
+                </button>
+              ))}
+            </div>
           </div>
+
+          {repeat === 'weekly' && (
+            <>
+              <div className="flex gap-1.5 mb-3">
+                {DAYS_OF_WEEK.map((day, i) => (
+                  <button
+                    key={day.value}
+                    onClick={() => toggleDay(day.value)}
+                    className={`flex-1 h-11 rounded-xl text-sm font-semibold transition-all active:scale-95 ${
+                      schedule.daysOfWeek?.includes(day.value)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-900 border border-gray-800 text-gray-600 hover:border-gray-700'
+                    }`}
+                    title={day.label}
+                  >
+                    {['M', 'T', 'W', 'T', 'F', 'S', 'S'][i]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2 mb-3">
+                {(['weekdays', 'weekends', 'everyday'] as const).map(preset => (
+                  <button
+                    key={preset}
+                    onClick={() => selectPreset(preset)}
+                    className="text-[11px] px-3 py-1 bg-gray-900 border border-gray-800 rounded-full text-gray-500 hover:text-gray-300 hover:border-gray-700 transition-colors capitalize"
+                  >
+                    {preset}
+                  </button>
+                ))}
+              </div>
+
+              {/* Date exceptions */}
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-[11px] text-gray-600">Tap a date to</span>
+                {(['skip', 'extra'] as const).map(action => (
+                  <button
+                    key={action}
+                    onClick={() => setDateAction(action)}
+                    className={`text-[11px] px-2.5 py-0.5 rounded-full border transition-colors ${
+                      dateAction === action
+                        ? action === 'skip' ? 'bg-red-900/40 border-red-800 text-red-300' : 'bg-blue-900/40 border-blue-800 text-blue-300'
+                        : 'bg-gray-900 border-gray-800 text-gray-500'
+                    }`}
+                  >
+                    {action === 'skip' ? 'Skip it' : 'Add it'}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          <CalendarPicker
+            getTone={getDateTone}
+            onSelect={(date) => toggleDate(date, repeat === 'dates' || dateAction === 'extra' ? 'extraDates' : 'skipDates')}
+          />
+
+          {(schedule.skipDates?.length || schedule.extraDates?.length) ? (
+            <p className="text-[10px] text-gray-600 mt-1.5">
+              {schedule.extraDates?.length ? `Runs on ${schedule.extraDates.map(d => format(parseISO(d), 'd MMM')).join(', ')}` : ''}
+              {schedule.extraDates?.length && schedule.skipDates?.length ? ' · ' : ''}
+              {schedule.skipDates?.length ? `Skips ${schedule.skipDates.map(d => format(parseISO(d), 'd MMM')).join(', ')}` : ''}
+            </p>
+          ) : null}
         </div>
 
+        {/* Seasonal validity window */}
+        {repeat === 'weekly' && (
+          <div className="p-4 bg-gray-900/60 rounded-xl border border-gray-800 space-y-3">
+            <div>
+              <h3 className="font-medium text-gray-200 text-sm">Season</h3>
+              <p className="text-xs text-gray-600">Only run between these dates (leave empty for all year)</p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {(['validFrom', 'validUntil'] as const).map(field => (
+                <label key={field} className="block">
+                  <span className="block text-[10px] text-gray-500 mb-1">{field === 'validFrom' ? 'From' : 'Until'}</span>
+                  <input
+                    type="date"
+                    value={schedule[field] || ''}
+                    onChange={e => setSchedule({ ...schedule, [field]: e.target.value || null })}
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 [color-scheme:dark]"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* 24-Hour Timeline */}
         <div>
           <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
@@ -1455,14 +3031,15 @@ export default function ScheduleBuilder() {
               <DeviceTimelineRow
                 key={tl.deviceId}
                 timeline={tl}
+                group={tl.groupId ? groups.find(g => g.id === tl.groupId) : undefined}
                 allDevices={devices}
+                location={schedule.location ?? undefined}
                 onUpdate={(updated) => {
                   setTimelines(prev => prev.map((t, i) => i === idx ? updated : t));
                 }}
                 onDelete={() => {
                   setTimelines(prev => prev.filter((_, i) => i !== idx));
                 }}
-                onSync={tl.groupId ? () => syncGroup(tl) : undefined}
               />
             ))}
           </div>
@@ -1487,6 +3064,147 @@ export default function ScheduleBuilder() {
               Drag markers to adjust time &middot; Tap a chip to edit
             </p>
           )}
+
+          <p className="text-[10px] text-gray-700 text-center mt-1">
+            Times are in {BROWSER_TIMEZONE}
+            {schedule.timezone && schedule.timezone !== BROWSER_TIMEZONE && ` (currently saved as ${schedule.timezone})`}
+          </p>
+        </div>
+
+        {/* Location for sun-relative events */}
+        <div className="flex items-center justify-between gap-3 p-4 bg-gray-900/60 rounded-xl border border-gray-800">
+          <div className="min-w-0">
+            <h3 className="font-medium text-gray-200 text-sm">Location</h3>
+            <p className="text-xs text-gray-600 truncate">
+              {schedule.location
+                ? `${schedule.location.latitude.toFixed(2)}, ${schedule.location.longitude.toFixed(2)} · used for sunrise/sunset events`
+                : 'Set to schedule events relative to sunrise or sunset'}
+            </p>
+          </div>
+          <div className="flex items-center gap-1.5 shrink-0">
+            {schedule.location && (
+              <button
+                onClick={() => updateLocation(undefined)}
+                className="p-1.5 text-gray-600 hover:text-red-400 transition-colors"
+                title="Clear location"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              onClick={detectLocation}
+              disabled={locating}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 hover:text-white disabled:opacity-50 transition-colors"
+            >
+              {locating ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <MapPin className="h-3.5 w-3.5" />}
+              {schedule.location ? 'Update' : 'Use my location'}
+            </button>
+          </div>
+        </div>
+
+        {/* Catch-up for missed events */}
+        <div className="p-4 bg-gray-900/60 rounded-xl border border-gray-800 space-y-3">
+          <div>
+            <h3 className="font-medium text-gray-200 text-sm">Missed Events</h3>
+            <p className="text-xs text-gray-600">Run events missed while the server was down, if no older than:</p>
+          </div>
+          <div className="grid grid-cols-4 gap-1.5">
+            {CATCH_UP_OPTIONS.map(opt => (
+              <button
+                key={opt.value}
+                onClick={() => setSchedule({ ...schedule, catchUpMinutes: opt.value })}
+                className={`py-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                  (schedule.catchUpMinutes ?? DEFAULT_CATCH_UP_MINUTES) === opt.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-500 border border-gray-700'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Command delivery */}
+        <div className="p-4 bg-gray-900/60 rounded-xl border border-gray-800 space-y-3">
+          <div>
+            <h3 className="font-medium text-gray-200 text-sm">Delivery</h3>
+            <p className="text-xs text-gray-600">Retry failed commands (waiting longer each time):</p>
+          </div>
+          <div className="grid grid-cols-5 gap-1.5">
+            {RETRY_OPTIONS.map(value => (
+              <button
+                key={value}
+                onClick={() => setSchedule({ ...schedule, delivery: { ...schedule.delivery, retries: value } })}
+                className={`py-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                  (schedule.delivery?.retries ?? DEFAULT_RETRIES) === value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-500 border border-gray-700'
+                }`}
+              >
+                {value === 0 ? 'Off' : `${value}×`}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-xs font-medium text-gray-300">Verify</p>
+              <p className="text-[10px] text-gray-600">Read the device back and re-send if it didn't apply (IR remotes)</p>
+            </div>
+            <button
+              onClick={() => setSchedule({ ...schedule, delivery: { ...schedule.delivery, verify: !schedule.delivery?.verify } })}
+              className={`relative inline-flex h-5 w-9 flex-shrink-0 items-center rounded-full transition-colors ${
+                schedule.delivery?.verify ? 'bg-blue-600' : 'bg-gray-700'
+              }`}
+            >
+              <span className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform ${
+                schedule.delivery?.verify ? 'translate-x-[18px]' : 'translate-x-0.5'
+              }`} />
+            </button>
+          </div>
+        </div>
+
+        {/* Priority when another schedule targets the same device */}
+        <div className="p-4 bg-gray-900/60 rounded-xl border border-gray-800 space-y-3">
+          <div>
+            <h3 className="font-medium text-gray-200 text-sm">Priority</h3>
+            <p className="text-xs text-gray-600">When schedules clash on a device, the higher priority wins:</p>
+          </div>
+          <div className="grid grid-cols-4 gap-1.5">
+            {PRIORITY_OPTIONS.map(opt => (
+              <button
+                key={opt.value}
+                onClick={() => setSchedule({ ...schedule, priority: opt.value })}
+                className={`py-2 rounded-lg text-xs font-medium transition-all active:scale-95 ${
+                  (schedule.priority ?? 0) === opt.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-500 border border-gray-700'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Vacation mode */}
+        <div className="flex items-center justify-between p-4 bg-gray-900/60 rounded-xl border border-gray-800">
+          <div>
+            <h3 className="font-medium text-gray-200 text-sm">Keep Running on Vacation</h3>
+            <p className="text-xs text-gray-600">
+              {schedule.essential ? 'Runs even while vacation mode is on' : 'Paused while vacation mode is on'}
+            </p>
+          </div>
+          <button
+            onClick={() => setSchedule({ ...schedule, essential: !schedule.essential })}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              schedule.essential ? 'bg-blue-600' : 'bg-gray-700'
+            }`}
+          >
+            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              schedule.essential ? 'translate-x-6' : 'translate-x-1'
+            }`} />
+          </button>
         </div>
 
         {/* Enable/Disable toggle */}
@@ -1513,9 +3231,11 @@ export default function ScheduleBuilder() {
         <AddDevicePanel
           devices={devices}
           groups={groups}
+          scenes={scenes}
           existingDeviceIds={existingDeviceIds}
           onAdd={addDevice}
           onAddGroup={addGroup}
+          onAddScene={addScene}
           onClose={() => setShowAddDevice(false)}
         />
       )}
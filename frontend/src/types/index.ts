@@ -84,23 +84,81 @@ export interface Schedule {
   timeSlots: TimeSlot[];
   // Device-triggered conditions (optional)
   triggers?: DeviceTrigger[];
+  // IANA timezone the times are evaluated in (e.g. "Australia/Sydney")
+  timezone?: string;
+  // Max age (minutes) of a slot missed during downtime that still runs on recovery
+  catchUpMinutes?: number;
+  // Location used to resolve sunrise/sunset-relative slots (null clears it on update)
+  location?: GeoLocation | null;
+  // Dates (YYYY-MM-DD) it also runs on; a one-off schedule has no weekly days
+  extraDates?: string[];
+  // Dates (YYYY-MM-DD) it never runs on, e.g. public holidays
+  skipDates?: string[];
+  // Seasonal validity window (YYYY-MM-DD, inclusive; null clears on update)
+  validFrom?: string | null;
+  validUntil?: string | null;
+  // Keep running while vacation mode is active
+  essential?: boolean;
+  // Command retries and read-back verification (server defaults if unset; null clears on update)
+  delivery?: DeliveryOptions | null;
+  // Wins device conflicts with lower-priority schedules (default 0; null clears on update)
+  priority?: number | null;
+}
+
+export interface DeliveryOptions {
+  retries?: number;
+  verify?: boolean;
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
 }
 
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
 
 export interface TimeSlot {
   id: string;
-  startTime: string; // HH:MM format
-  endTime?: string;  // Optional end time
+  startTime: string; // HH:MM format (for solar slots: computed time when saved)
+  endTime?: string;  // Optional end time (earlier than start = next day)
+  solar?: SolarTime; // Optional sunrise/sunset-relative start
   actions: DeviceAction[];
+  endActions?: DeviceAction[]; // Run at endTime (defaults to reverting actions)
+  jitterMinutes?: number; // Random ± offset, picked once per day
+  cycle?: SlotCycle;      // Repeat on/off from startTime until endTime
+  todayAt?: string;       // Read-only: actual start time today (HH:MM)
+  todayEndAt?: string;    // Read-only: actual end time today (HH:MM)
 }
 
+export type SlotPhase = 'start' | 'end';
+
+// On for onMinutes, then off for offMinutes, repeated through the slot's window
+export interface SlotCycle {
+  onMinutes: number;
+  offMinutes: number;
+}
+
+export type SolarEvent = 'sunrise' | 'sunset' | 'civil_dawn' | 'civil_dusk';
+
+export interface SolarTime {
+  event: SolarEvent;
+  offsetMinutes: number; // Negative = before the event
+}
+
+export const SOLAR_EVENTS: { value: SolarEvent; label: string; icon: string }[] = [
+  { value: 'civil_dawn', label: 'Dawn', icon: '🌄' },
+  { value: 'sunrise', label: 'Sunrise', icon: '🌅' },
+  { value: 'sunset', label: 'Sunset', icon: '🌇' },
+  { value: 'civil_dusk', label: 'Dusk', icon: '🌆' },
+];
+
 export interface DeviceAction {
   deviceId: string;
   deviceName: string;
   command: DeviceCommand;
   deviceCategory?: string;
   condition?: ActionCondition;
+  groupId?: string; // Targets a device group (deviceId/deviceName hold the group's)
 }
 
 export type TuyaACMode = 'cold' | 'heat' | 'auto' | 'wind_dry' | 'dehumidification';
@@ -115,14 +173,179 @@ export type DeviceCommand =
   | { type: 'FanSpeed'; speedPercent: number }
   | { type: 'TuyaAC'; mode: TuyaACMode; temperature: number; fan: TuyaACFan }
   | { type: 'TuyaLight'; brightness?: number; colorTemp?: number; colorHSV?: { h: number; s: number; v: number }; workMode?: 'white' | 'colour' }
-  | { type: 'GradualBrightness'; targetBrightness: number; durationMinutes: number };
+  | { type: 'GradualBrightness'; targetBrightness: number; durationMinutes: number }
+  | RampCommand
+  | ClimateCommand
+  | SceneCommand;
+
+// Keeps a room within targetTemperature ± hysteresis until the slot ends, by
+// switching the AC from a sensor's readings (slots with an end time only)
+export interface ClimateCommand {
+  type: 'Climate';
+  mode: 'cold' | 'heat';
+  targetTemperature: number;
+  hysteresis: number;
+  fan: TuyaACFan;
+  sensorDeviceId: string;
+  sensorDeviceName: string;
+  minOffMinutes?: number;
+}
+
+// Applies a scene's device states (deviceId/deviceName of the action hold
+// the scene's); deactivating switches its devices off instead
+export interface SceneCommand {
+  type: 'Scene';
+  sceneId: string;
+  sceneName: string;
+  deactivate?: boolean;
+}
+
+// Gradually moves one device value from `from` (default: current) to `to`
+export interface RampCommand {
+  type: 'Ramp';
+  target: RampTarget;
+  from?: RampValue;
+  to: RampValue;
+  durationMinutes: number;
+  easing?: Easing;
+}
+
+// brightness/fanSpeed in %, colorTemp on the Tuya 0–1000 warm–cool scale,
+// acTemperature in °C, colour as Tuya HSV
+export type RampTarget = 'brightness' | 'colorTemp' | 'colour' | 'acTemperature' | 'fanSpeed';
+export type RampValue = number | HSV;
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface HSV {
+  h: number;
+  s: number;
+  v: number;
+}
+
+// Display a ramp value with its unit (colours as their hue)
+export function formatRampValue(target: RampTarget | undefined, value: RampValue): string {
+  if (typeof value === 'object') return `${value.h}° hue`;
+  switch (target) {
+    case 'acTemperature': return `${value}°C`;
+    case 'colorTemp': return `CT ${value}`;
+    default: return `${value}%`;
+  }
+}
+
+// Short label for a command ("On", "40%", "24° cool")
+export function describeCommand(command: DeviceCommand): string {
+  switch (command.type) {
+    case 'OnOff': return command.on ? 'On' : 'Off';
+    case 'TuyaLight':
+      if (command.colorHSV) return 'Colour';
+      return command.brightness != null ? `${command.brightness}%` : 'Light';
+    case 'TuyaAC': return `${command.temperature}° ${command.mode}`;
+    case 'Brightness': return `${command.brightness}%`;
+    case 'GradualBrightness': return `~${command.targetBrightness}%`;
+    case 'Ramp': return `~${formatRampValue(command.target, command.to)}`;
+    case 'Thermostat': return command.temperature != null ? `${command.temperature}°` : command.mode;
+    case 'FanSpeed': return `Fan ${command.speedPercent}%`;
+    case 'Climate': return `Keep ${command.targetTemperature}±${command.hysteresis}°`;
+    case 'Scene': return command.deactivate ? 'Off' : 'Activate';
+    default: return 'On';
+  }
+}
+
+export const EASINGS: { value: Easing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'easeIn', label: 'Ease in' },
+  { value: 'easeOut', label: 'Ease out' },
+  { value: 'easeInOut', label: 'Smooth' },
+];
+
+// Sensor, time, device-state, DP and online checks combined with all/any/not
+// (a lone sensor check is the original, untyped form)
+export type ActionCondition =
+  | SensorCondition
+  | TimeWindowCondition
+  | DeviceStateCondition
+  | DpCondition
+  | OnlineCondition
+  | AllCondition
+  | AnyCondition
+  | NotCondition;
 
-export interface ActionCondition {
+export interface SensorCondition {
+  type?: 'sensor';
   sensorDeviceId: string;
   sensorDeviceName: string;
   metric: 'temperature' | 'humidity';
   operator: '>' | '<' | '>=' | '<=';
   value: number;
+  onFailure?: ConditionFailurePolicy;
+}
+
+// Local time within [after, before), crossing midnight when before is earlier
+export interface TimeWindowCondition {
+  type: 'time';
+  after: string;
+  before: string;
+}
+
+export interface DeviceStateCondition {
+  type: 'device';
+  deviceId: string;
+  deviceName: string;
+  state: 'on' | 'off';
+  onFailure?: ConditionFailurePolicy;
+}
+
+// Any DP code in a device's status; booleans and enums compare with = and !=
+export interface DpCondition {
+  type: 'dp';
+  deviceId: string;
+  deviceName: string;
+  code: string;
+  operator: DpOperator;
+  value: boolean | number | string;
+  onFailure?: ConditionFailurePolicy;
+}
+
+export type DpOperator = '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+export interface OnlineCondition {
+  type: 'online';
+  deviceId: string;
+  deviceName: string;
+  online: boolean;
+  onFailure?: ConditionFailurePolicy;
+}
+
+// What a check does when its device can't be read (default: run anyway)
+export interface ConditionFailurePolicy {
+  mode: 'open' | 'closed' | 'retry' | 'lastKnown';
+  retries?: number;
+  maxAgeMinutes?: number;
+  then?: 'open' | 'closed';
+}
+
+export type ConditionPolicyPath = 'retried' | 'last_known' | 'failed_open' | 'failed_closed';
+
+export interface ConditionFallback {
+  check: string;
+  path: ConditionPolicyPath;
+  attempts?: number;
+  readingAgeMinutes?: number;
+}
+
+export interface AllCondition {
+  type: 'all';
+  conditions: ActionCondition[];
+}
+
+export interface AnyCondition {
+  type: 'any';
+  conditions: ActionCondition[];
+}
+
+export interface NotCondition {
+  type: 'not';
+  condition: ActionCondition;
 }
 
 // Shared AC constants
@@ -161,6 +384,7 @@ export interface DeviceTrigger {
   sourceDeviceName: string;
   condition: TriggerCondition;
   actions: DeviceAction[];
+  cooldownMinutes?: number; // Minimum time between firings
 }
 
 export type TriggerCondition =
@@ -175,6 +399,170 @@ export interface DeviceGroup {
   userId: string;
 }
 
+// Scenes: named sets of device states applied together
+export interface Scene {
+  id: string;
+  name: string;
+  userId: string;
+  devices: SceneDevice[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SceneDevice {
+  deviceId: string;
+  deviceName: string;
+  deviceCategory?: string;
+  commands: DeviceCommand[];
+}
+
+// Execution history
+export type ExecutionSource = 'schedule' | 'catch_up' | 'manual' | 'trigger' | 'vacation';
+export type ExecutionOutcome = 'success' | 'partial' | 'failed' | 'skipped';
+export type ActionOutcome = 'success' | 'failed' | 'skipped' | 'error';
+export type Verification = 'verified' | 'mismatch' | 'unreadable';
+
+export interface ConditionResult {
+  met: boolean;
+  sensorValue: number | null;
+  detail?: string;
+  fallbacks?: ConditionFallback[];
+  note?: string;
+}
+
+export interface ActionRecord {
+  deviceId: string;
+  deviceName: string;
+  command: DeviceCommand;
+  condition?: ConditionResult;
+  tuyaCommands?: Array<{ code: string; value: unknown }>;
+  outcome: ActionOutcome;
+  attempts?: number;
+  verification?: Verification;
+  overriddenBy?: { scheduleId: string; scheduleName: string };
+  sceneDevices?: ActionRecord[];
+  groupDevices?: ActionRecord[];
+  heldSince?: number;
+  error?: string;
+}
+
+export interface ExecutionRecord {
+  id: string;
+  userId: string;
+  scheduleId: string;
+  scheduleName: string;
+  slotId?: string;
+  triggerId?: string;
+  phase?: SlotPhase;
+  cycle?: number;
+  source: ExecutionSource;
+  scheduledFor?: number;
+  startedAt: number;
+  finishedAt: number;
+  outcome: ExecutionOutcome;
+  actions: ActionRecord[];
+  note?: string;
+}
+
+export interface HistoryFilters {
+  deviceId?: string;
+  outcome?: ExecutionOutcome | ActionOutcome;
+  before?: string;
+  limit?: number;
+}
+
+// Upcoming device action from the schedule preview
+export interface PreviewEntry {
+  at: number;
+  scheduleId: string;
+  scheduleName: string;
+  slotId: string;
+  phase: SlotPhase;
+  deviceId: string;
+  deviceName: string;
+  command: DeviceCommand;
+  condition?: ActionCondition;
+}
+
+// Schedules giving a device different commands at the same or overlapping times
+export type ConflictKind = 'same_time' | 'overlap';
+
+export interface ConflictingAction {
+  scheduleId: string;
+  scheduleName: string;
+  slotId: string;
+  phase: SlotPhase;
+  priority: number;
+  command: DeviceCommand;
+}
+
+export interface ScheduleConflict {
+  deviceId: string;
+  deviceName: string;
+  kind: ConflictKind;
+  at: number;
+  occurrences: number;
+  actions: [ConflictingAction, ConflictingAction];
+  winnerScheduleId: string;
+}
+
+// Manual override hold: automation leaves a device alone after someone
+// controls it by hand
+export type HoldMode = 'next_slot' | 'duration' | 'until_cleared';
+
+export interface DeviceHold {
+  deviceId: string;
+  userId: string;
+  mode: HoldMode;
+  setAt: number;
+  until?: number;
+}
+
+// Gradual transitions in progress
+export interface ActiveTransition {
+  deviceId: string;
+  deviceName: string;
+  userId: string;
+  scheduleId?: string;
+  scheduleName?: string;
+  target?: RampTarget; // Absent means brightness
+  deviceCategory?: string;
+  from: RampValue;
+  to: RampValue;
+  easing?: Easing;
+  startedAt: number;
+  durationMinutes: number;
+  // Computed by the server when listed
+  currentValue: RampValue;
+  progress: number; // 0–1
+  endsAt: number;
+}
+
+// Vacation mode
+export interface VacationDevice {
+  deviceId: string;
+  deviceName: string;
+  deviceCategory?: string;
+}
+
+export interface VacationEvent {
+  deviceId: string;
+  at: number;
+  on: boolean;
+  done?: boolean;
+}
+
+export interface VacationMode {
+  userId: string;
+  active: boolean;
+  devices: VacationDevice[];
+  returnAt: number;
+  timezone?: string;
+  startedAt: number;
+  endedAt?: number;
+  plan?: { date: string; events: VacationEvent[] };
+}
+
 // API response types
 export interface ApiResponse<T> {
   success: boolean;